@@ -1,5 +1,8 @@
+import { homedir } from 'node:os';
+import { join } from 'node:path';
 import { z } from 'zod';
 import * as dotenv from 'dotenv';
+import { CustomError } from './utils/errors.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -11,36 +14,133 @@ dotenv.config();
 const configSchema = z.object({
   unleash: z.object({
     baseUrl: z.string().url('UNLEASH_BASE_URL must be a valid URL'),
-    pat: z.string().min(1, 'UNLEASH_PAT is required'),
+    // Optional over HTTP, where each session may supply its own token
+    pat: z.string().default(''),
     defaultProject: z.string().optional(),
     defaultEnvironment: z.string().optional(),
+    cacheTtlMs: z.coerce
+      .number()
+      .int()
+      .min(0, 'UNLEASH_CACHE_TTL_MS must be 0 or greater')
+      .default(30_000),
+    requestTimeoutMs: z.coerce
+      .number()
+      .int()
+      .min(0, 'UNLEASH_REQUEST_TIMEOUT_MS must be 0 or greater')
+      .default(30_000),
+    // How often subscribed sessions check the event log for outside changes
+    eventPollIntervalMs: z.coerce
+      .number()
+      .int()
+      .min(0, 'UNLEASH_EVENT_POLL_INTERVAL_MS must be 0 or greater')
+      .default(30_000),
+    retry: z.object({
+      maxRetries: z.coerce.number().int().min(0, 'UNLEASH_MAX_RETRIES must be 0 or greater').default(3),
+      baseDelayMs: z.coerce
+        .number()
+        .int()
+        .min(0, 'UNLEASH_RETRY_BASE_DELAY_MS must be 0 or greater')
+        .default(500),
+      maxDelayMs: z.coerce
+        .number()
+        .int()
+        .min(0, 'UNLEASH_RETRY_MAX_DELAY_MS must be 0 or greater')
+        .default(10_000),
+    }),
   }),
   server: z.object({
     dryRun: z.boolean().default(false),
+    dryRunSeedFile: z.string().min(1).optional(),
     logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+    transport: z
+      .enum(['stdio', 'http'], {
+        errorMap: () => ({ message: 'UNLEASH_MCP_TRANSPORT must be either "stdio" or "http"' }),
+      })
+      .default('stdio'),
+    httpHost: z.string().min(1).default('127.0.0.1'),
+    httpPort: z.coerce
+      .number()
+      .int()
+      .min(1, 'UNLEASH_MCP_PORT must be between 1 and 65535')
+      .max(65535, 'UNLEASH_MCP_PORT must be between 1 and 65535')
+      .default(3000),
+    allowedSessionBaseUrls: z
+      .array(z.string().url('UNLEASH_MCP_ALLOWED_BASE_URLS must contain valid URLs'))
+      .default([]),
+    // Let HTTP sessions without their own token act with UNLEASH_PAT (off by default)
+    allowSharedPat: z.boolean().default(false),
+    // HTTP sessions without a request for this long are closed (0 keeps them open)
+    sessionIdleTimeoutMs: z.coerce
+      .number()
+      .int()
+      .min(0, 'UNLEASH_MCP_SESSION_IDLE_TIMEOUT_MS must be 0 or greater')
+      .default(30 * 60_000),
+    // Host and Origin headers the HTTP transport accepts (DNS rebinding protection)
+    allowedHosts: z.array(z.string().min(1)).default([]),
+    allowedOrigins: z
+      .array(z.string().url('UNLEASH_MCP_ALLOWED_ORIGINS must contain valid origins'))
+      .default([]),
+    // Staged rollout plans (plan_rollout/advance_rollout) are persisted here
+    rolloutStateFile: z
+      .string()
+      .min(1)
+      .default(join(homedir(), '.unleash-mcp', 'rollout-plans.json')),
   }),
+}).superRefine((config, ctx) => {
+  if (config.server.transport === 'stdio' && !config.unleash.pat) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['unleash', 'pat'],
+      message: 'UNLEASH_PAT is required',
+    });
+  }
 });
 
 export type Config = z.infer<typeof configSchema>;
 
+interface CliFlags {
+  dryRun: boolean;
+  dryRunSeed?: string;
+  logLevel: string;
+  transport?: string;
+  host?: string;
+  port?: string;
+  rolloutStateFile?: string;
+}
+
 /**
- * Parse CLI arguments for --dry-run and --log-level flags.
+ * Parse CLI arguments for --dry-run (and --dry-run-seed), --log-level, the
+ * transport flags (--transport, --host, --port) and --rollout-state-file.
  */
-function parseCliFlags(): { dryRun: boolean; logLevel: string } {
+function parseCliFlags(): CliFlags {
   const args = process.argv.slice(2);
-  let dryRun = false;
-  let logLevel = 'info';
+  const flags: CliFlags = { dryRun: false, logLevel: 'info' };
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--dry-run') {
-      dryRun = true;
+      flags.dryRun = true;
+    } else if (args[i] === '--dry-run-seed' && i + 1 < args.length) {
+      flags.dryRunSeed = args[i + 1];
+      i++;
     } else if (args[i] === '--log-level' && i + 1 < args.length) {
-      logLevel = args[i + 1];
+      flags.logLevel = args[i + 1];
       i++; // Skip the next argument
+    } else if (args[i] === '--transport' && i + 1 < args.length) {
+      flags.transport = args[i + 1];
+      i++;
+    } else if (args[i] === '--host' && i + 1 < args.length) {
+      flags.host = args[i + 1];
+      i++;
+    } else if (args[i] === '--port' && i + 1 < args.length) {
+      flags.port = args[i + 1];
+      i++;
+    } else if (args[i] === '--rollout-state-file' && i + 1 < args.length) {
+      flags.rolloutStateFile = args[i + 1];
+      i++;
     }
   }
 
-  return { dryRun, logLevel };
+  return flags;
 }
 
 /**
@@ -56,10 +156,29 @@ export function loadConfig(): Config {
       pat: process.env.UNLEASH_PAT,
       defaultProject: process.env.UNLEASH_DEFAULT_PROJECT,
       defaultEnvironment: process.env.UNLEASH_DEFAULT_ENVIRONMENT,
+      cacheTtlMs: process.env.UNLEASH_CACHE_TTL_MS || undefined,
+      requestTimeoutMs: process.env.UNLEASH_REQUEST_TIMEOUT_MS || undefined,
+      eventPollIntervalMs: process.env.UNLEASH_EVENT_POLL_INTERVAL_MS || undefined,
+      retry: {
+        maxRetries: process.env.UNLEASH_MAX_RETRIES || undefined,
+        baseDelayMs: process.env.UNLEASH_RETRY_BASE_DELAY_MS || undefined,
+        maxDelayMs: process.env.UNLEASH_RETRY_MAX_DELAY_MS || undefined,
+      },
     },
     server: {
       dryRun: cliFlags.dryRun,
+      dryRunSeedFile: cliFlags.dryRunSeed ?? (process.env.UNLEASH_DRY_RUN_SEED || undefined),
       logLevel: cliFlags.logLevel,
+      transport: cliFlags.transport ?? (process.env.UNLEASH_MCP_TRANSPORT || undefined),
+      httpHost: cliFlags.host ?? (process.env.UNLEASH_MCP_HOST || undefined),
+      httpPort: cliFlags.port ?? (process.env.UNLEASH_MCP_PORT || undefined),
+      allowedSessionBaseUrls: parseList(process.env.UNLEASH_MCP_ALLOWED_BASE_URLS),
+      allowSharedPat: process.env.UNLEASH_MCP_ALLOW_SHARED_PAT === 'true',
+      sessionIdleTimeoutMs: process.env.UNLEASH_MCP_SESSION_IDLE_TIMEOUT_MS || undefined,
+      allowedHosts: parseList(process.env.UNLEASH_MCP_ALLOWED_HOSTS),
+      allowedOrigins: parseList(process.env.UNLEASH_MCP_ALLOWED_ORIGINS),
+      rolloutStateFile:
+        cliFlags.rolloutStateFile ?? (process.env.UNLEASH_ROLLOUT_STATE_FILE || undefined),
     },
   };
 
@@ -75,3 +194,89 @@ export function loadConfig(): Config {
     throw error;
   }
 }
+
+/**
+ * Credentials supplied by an individual MCP session (HTTP transport only).
+ */
+export interface SessionCredentials {
+  pat?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Derive the configuration for a single MCP session.
+ * Every session must bring its own PAT so that changes are attributed to the
+ * calling user, unless UNLEASH_MCP_ALLOW_SHARED_PAT lets sessions without one
+ * fall back to UNLEASH_PAT, and then only against UNLEASH_BASE_URL. Sessions
+ * may only target UNLEASH_BASE_URL or, when configured,
+ * UNLEASH_MCP_ALLOWED_BASE_URLS.
+ */
+export function resolveSessionConfig(config: Config, credentials: SessionCredentials): Config {
+  const defaultBaseUrl = normalizeBaseUrl(config.unleash.baseUrl);
+
+  let baseUrl = config.unleash.baseUrl;
+  if (credentials.baseUrl) {
+    let normalized: string;
+    try {
+      normalized = normalizeBaseUrl(credentials.baseUrl);
+    } catch {
+      throw new CustomError(
+        'SESSION_BASE_URL_INVALID',
+        `Session base URL is not a valid URL: ${credentials.baseUrl}`
+      );
+    }
+
+    const allowed =
+      config.server.allowedSessionBaseUrls.length > 0
+        ? config.server.allowedSessionBaseUrls.map(normalizeBaseUrl)
+        : [defaultBaseUrl];
+    if (normalized !== defaultBaseUrl && !allowed.includes(normalized)) {
+      throw new CustomError(
+        'SESSION_BASE_URL_NOT_ALLOWED',
+        `Session base URL is not allowed: ${normalized}`,
+        'Ask the server operator to add it to UNLEASH_MCP_ALLOWED_BASE_URLS.'
+      );
+    }
+
+    baseUrl = normalized;
+  }
+
+  const sessionPat = credentials.pat?.trim();
+  // The server's own token is opt-in, and never sent to an instance picked by the caller
+  const pat =
+    sessionPat ||
+    (config.server.allowSharedPat && normalizeBaseUrl(baseUrl) === defaultBaseUrl
+      ? config.unleash.pat
+      : '');
+  if (!pat) {
+    throw new CustomError(
+      'SESSION_CREDENTIALS_MISSING',
+      'No Unleash personal access token was provided for this session',
+      'Send your PAT in the X-Unleash-PAT (or Authorization: Bearer) header, or in the initialize request _meta as "unleashPat".'
+    );
+  }
+
+  return {
+    ...config,
+    unleash: {
+      ...config.unleash,
+      baseUrl,
+      pat,
+    },
+  };
+}
+
+function normalizeBaseUrl(url: string): string {
+  return new URL(url).toString().replace(/\/$/, '');
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
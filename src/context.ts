@@ -1,8 +1,10 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolResult, RequestId } from '@modelcontextprotocol/sdk/types.js';
 import { Config } from './config.js';
-import { UnleashClient } from './unleash/client.js';
+import { UnleashClient, UnleashRequestOptions } from './unleash/client.js';
+import { RolloutPlanStore } from './rollout/planStore.js';
 import { normalizeError } from './utils/errors.js';
+import { createRetryProgressReporter } from './utils/streaming.js';
 
 /**
  * Shared runtime context available to all tools and prompts.
@@ -13,6 +15,19 @@ export interface ServerContext {
   config: Config;
   unleashClient: UnleashClient;
   logger: Logger;
+  /**
+   * Staged rollout plans used by plan_rollout and advance_rollout.
+   */
+  rolloutPlans: RolloutPlanStore;
+  /**
+   * JSON-RPC ID of the tool call being handled, when the context is scoped to one.
+   * Used to route notifications back to the originating request.
+   */
+  requestId?: RequestId;
+  /**
+   * Aborted when the MCP client cancels the tool call (notifications/cancelled).
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -82,6 +97,20 @@ export function ensureProjectId(
   );
 }
 
+/**
+ * Build the per-call options tools pass to UnleashClient: retries are reported
+ * as progress notifications and requests are aborted when the call is cancelled.
+ */
+export function buildRequestOptions(
+  context: ServerContext,
+  progressToken?: string | number
+): UnleashRequestOptions {
+  return {
+    onRetry: createRetryProgressReporter(context.server, progressToken, context.requestId),
+    signal: context.signal,
+  };
+}
+
 /**
  * Handle tool errors consistently by normalizing them and logging.
  * Returns a formatted error object suitable for MCP tool responses.
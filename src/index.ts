@@ -23,40 +23,15 @@
  * - Progress streaming for visibility
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  ListResourcesRequestSchema,
-  ListResourceTemplatesRequestSchema,
-  ReadResourceRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 
-import { loadConfig } from './config.js';
+import { loadConfig, resolveSessionConfig } from './config.js';
 import { UnleashClient } from './unleash/client.js';
-import { ServerContext, createLogger, handleToolError } from './context.js';
-import { createFlag, createFlagTool } from './tools/createFlag.js';
-import { evaluateChange, evaluateChangeTool } from './tools/evaluateChange.js';
-import { wrapChange, wrapChangeTool } from './tools/wrapChange.js';
-import { detectFlag, detectFlagTool } from './tools/detectFlag.js';
-import { cleanupFlag, cleanupFlagTool } from './tools/cleanupFlag.js';
-import { setFlagRollout, setFlagRolloutTool } from './tools/setFlagRollout.js';
-import { getFlagState, getFlagStateTool } from './tools/getFlagState.js';
-import { toggleFlagEnvironment, toggleFlagEnvironmentTool } from './tools/toggleFlagEnvironment.js';
-import { removeFlagStrategy, removeFlagStrategyTool } from './tools/removeFlagStrategy.js';
+import { loadDryRunSeed } from './unleash/dryRunStore.js';
+import { createLogger } from './context.js';
+import { createMcpServer } from './server.js';
+import { startHttpTransport } from './transports/http.js';
 import { VERSION } from './version.js';
-import {
-  isProjectsUri,
-  parseProjectsResourceOptions,
-  extractProjectIdFromFeatureUri,
-  isFeatureFlagsUri,
-  listResourceTemplates,
-  listStaticResources,
-  parseFeatureFlagsResourceOptions,
-  readFeatureFlagsResource,
-  readProjectsResource,
-} from './resources/unleashResources.js';
 
 /**
  * Main entry point for the MCP server.
@@ -69,164 +44,72 @@ async function main(): Promise<void> {
   logger.info(`Starting Unleash MCP Server ${VERSION}`);
   logger.info(`Base URL: ${config.unleash.baseUrl}`);
   logger.info(`Dry run: ${config.server.dryRun}`);
+  logger.info(`Transport: ${config.server.transport}`);
 
   if (config.unleash.defaultProject) {
     logger.info(`Default project: ${config.unleash.defaultProject}`);
   }
 
+  const dryRunSeed =
+    config.server.dryRun && config.server.dryRunSeedFile
+      ? loadDryRunSeed(config.server.dryRunSeedFile)
+      : undefined;
+
+  if (dryRunSeed) {
+    logger.info(`Dry-run seed: ${config.server.dryRunSeedFile}`);
+  }
+
+  if (config.server.transport === 'http') {
+    // Start server with Streamable HTTP transport. Every session gets its own
+    // MCP server and Unleash client bound to the credentials it presented.
+    await startHttpTransport({
+      host: config.server.httpHost,
+      port: config.server.httpPort,
+      logger,
+      sessionIdleTimeoutMs: config.server.sessionIdleTimeoutMs,
+      allowedHosts: config.server.allowedHosts,
+      allowedOrigins: config.server.allowedOrigins,
+      createSessionServer: (credentials) => {
+        const sessionConfig = resolveSessionConfig(config, credentials);
+        const sessionClient = new UnleashClient(
+          sessionConfig.unleash.baseUrl,
+          sessionConfig.unleash.pat,
+          sessionConfig.server.dryRun,
+          {
+            retry: sessionConfig.unleash.retry,
+            timeoutMs: sessionConfig.unleash.requestTimeoutMs,
+            cacheTtlMs: sessionConfig.unleash.cacheTtlMs,
+            dryRunSeed,
+          }
+        );
+
+        return createMcpServer({
+          config: sessionConfig,
+          unleashClient: sessionClient,
+          logger,
+        }).server;
+      },
+    });
+
+    logger.info('Unleash MCP Server started successfully');
+    return;
+  }
+
   // Create Unleash Admin API client
   const unleashClient = new UnleashClient(
     config.unleash.baseUrl,
     config.unleash.pat,
-    config.server.dryRun
-  );
-
-  const instructions = [
-    'Use this tool for local development to increase confidence by decoupling the change from deployments:',
-    '1) Call evaluate_change to get a risk assessment on the current code change.',
-    '2) The evaluate_change tool will automatically call detect_flag to search for existing flags to prevent duplicates.',
-    '3) If an existing flag is found, use it. If the code change is risky and no flag exists, create a feature flag with create_flag.',
-    '4) Use wrap_change to guard code with an Unleash flag.',
-    '5) When a flag is rolled out and ready to be removed, use cleanup_flag to safely remove the flag code while preserving the desired path.',
-  ].join('\n');
-
-  // Create MCP server
-  const server = new Server(
+    config.server.dryRun,
     {
-      name: 'unleash-mcp',
-      version: '0.1.0',
-      description:
-        'Local development assistant. After making a code change follow this workflow: evaluate_change → create_flag → wrap_change to score risk and steer next steps.',
-    },
-    {
-      capabilities: {
-        tools: {},
-        logging: {},
-        notifications: {},
-        resources: {},
-        instructions,
-      },
-      
+      retry: config.unleash.retry,
+      timeoutMs: config.unleash.requestTimeoutMs,
+      cacheTtlMs: config.unleash.cacheTtlMs,
+      dryRunSeed,
     }
   );
 
-  // Build shared context
-  const context: ServerContext = {
-    server,
-    config,
-    unleashClient,
-    logger,
-  };
-
-  // Register tool handlers
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: [
-        createFlagTool,
-        evaluateChangeTool,
-        detectFlagTool,
-        wrapChangeTool, 
-        cleanupFlagTool,
-        setFlagRolloutTool,
-        getFlagStateTool,
-        toggleFlagEnvironmentTool,
-        removeFlagStrategyTool,
-      ],
-    };
-  });
-
-  server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    return {
-      resources: listStaticResources(),
-    };
-  });
-
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    const { uri } = request.params;
-
-    logger.debug(`Resource read requested: ${uri}`);
-
-    if (isProjectsUri(uri)) {
-      const options = parseProjectsResourceOptions(uri);
-      return {
-        contents: [await readProjectsResource(context, options)],
-      };
-    }
-
-    if (isFeatureFlagsUri(uri)) {
-      const projectId = extractProjectIdFromFeatureUri(uri);
-      if (!projectId) {
-        throw new Error('Project ID missing from feature flags URI');
-      }
-
-      return {
-        contents: [
-          await readFeatureFlagsResource(
-            context,
-            projectId,
-            parseFeatureFlagsResourceOptions(uri)
-          ),
-        ],
-      };
-    }
-
-    throw new Error(`Unknown resource: ${uri}`);
-  });
-
-  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
-    return {
-      resourceTemplates: listResourceTemplates(),
-    };
-  });
-
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    try {
-      const { name, arguments: args } = request.params;
-
-      logger.debug(`Tool called: ${name}`, args);
-
-      switch (name) {
-        case 'create_flag':
-          return await createFlag(context, args, request.params._meta?.progressToken);
-
-        case 'evaluate_change':
-          return await evaluateChange(context, args);
-
-        case 'detect_flag':
-          return await detectFlag(context, args);
-
-        case 'wrap_change':
-          return await wrapChange(context, args);
-
-        case 'cleanup_flag':
-          return await cleanupFlag(context, args);
-
-        case 'set_flag_rollout':
-          return await setFlagRollout(context, args, request.params._meta?.progressToken);
-
-        case 'get_flag_state':
-          return await getFlagState(context, args, request.params._meta?.progressToken);
-
-        case 'toggle_flag_environment':
-          return await toggleFlagEnvironment(
-            context,
-            args,
-            request.params._meta?.progressToken
-          );
-
-        case 'remove_flag_strategy':
-          return await removeFlagStrategy(context, args, request.params._meta?.progressToken);
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
-    } catch (error) {
-      const toolName = request.params.name || 'unknown';
-      return handleToolError(context, error, toolName);
-    }
-  });
-
   // Start server with stdio transport
+  const { server } = createMcpServer({ config, unleashClient, logger });
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
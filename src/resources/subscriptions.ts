@@ -0,0 +1,209 @@
+import { ServerContext } from '../context.js';
+import { FeatureChange, UnleashEvent } from '../unleash/client.js';
+import {
+  extractProjectIdFromFeatureUri,
+  isFeatureFlagUri,
+  isFeatureFlagsUri,
+  parseFeatureFlagUri,
+} from './unleashResources.js';
+
+// Each poll reads this many of the newest events; flags touched only by older
+// events in a larger burst between two polls go unannounced.
+const EVENT_POLL_PAGE_SIZE = 100;
+
+// A change this session made is expected in the event log by the next poll;
+// after this many intervals it is no longer treated as an echo.
+const OWN_CHANGE_TTL_POLLS = 3;
+
+/**
+ * Resource subscriptions of one MCP session.
+ *
+ * Subscribers of a flag URI (unleash://feature-flag/{projectId}/{flagName})
+ * or a project's flag list (unleash://projects/{projectId}/feature-flags) get
+ * notifications/resources/updated when this session changes one of the flags,
+ * and, outside dry-run mode, when a poll of the Unleash event log finds a
+ * change made elsewhere.
+ */
+export class ResourceSubscriptions {
+  private readonly context: ServerContext;
+  private readonly uris = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private lastEventId?: number;
+  private polling = false;
+  // `${projectId}/${featureName}` of flags this session changed, with when
+  private readonly ownChanges = new Map<string, number>();
+
+  constructor(context: ServerContext) {
+    this.context = context;
+  }
+
+  subscribe(uri: string): void {
+    if (!isFeatureFlagUri(uri) && !isFeatureFlagsUri(uri)) {
+      throw new Error(
+        `Subscriptions are only supported on unleash://feature-flag/{projectId}/{flagName} and unleash://projects/{projectId}/feature-flags: ${uri}`
+      );
+    }
+
+    this.uris.add(uri);
+    this.startPolling();
+  }
+
+  unsubscribe(uri: string): void {
+    this.uris.delete(uri);
+    if (this.uris.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  /**
+   * Notify the subscribers of every resource a change made by this session
+   * affects. The change is remembered so the poll that finds it in the event
+   * log does not announce it again.
+   */
+  async notifyChange(change: FeatureChange): Promise<void> {
+    if (this.timer) {
+      const now = Date.now();
+      for (const featureName of change.featureNames) {
+        this.ownChanges.set(flagKey(change.projectId, featureName), now);
+      }
+    }
+
+    await this.announce(change);
+  }
+
+  close(): void {
+    this.uris.clear();
+    this.stopPolling();
+  }
+
+  private async announce(change: FeatureChange): Promise<void> {
+    for (const uri of this.uris) {
+      if (!affectsResource(uri, change)) {
+        continue;
+      }
+
+      try {
+        await this.context.server.sendResourceUpdated({ uri });
+      } catch (error) {
+        this.context.logger.warn(`Failed to send resource update for ${uri}`, error);
+      }
+    }
+  }
+
+  private startPolling(): void {
+    const intervalMs = this.context.config.unleash.eventPollIntervalMs;
+    // The dry-run event log only ever holds this session's own changes
+    if (this.timer || this.context.config.server.dryRun || intervalMs <= 0) {
+      return;
+    }
+
+    this.lastEventId = undefined;
+    this.timer = setInterval(() => void this.poll(), intervalMs);
+    this.timer.unref();
+    // Record where the log stands now, so only later events are announced
+    void this.poll();
+  }
+
+  private stopPolling(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.ownChanges.clear();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const { events } = await this.context.unleashClient.searchEvents({
+        limit: EVENT_POLL_PAGE_SIZE,
+      });
+      const newestId = Math.max(this.lastEventId ?? 0, ...events.map((event) => event.id));
+
+      if (this.lastEventId === undefined) {
+        this.lastEventId = newestId;
+        return;
+      }
+
+      const unseen = events.filter((event) => event.id > this.lastEventId!);
+      this.lastEventId = newestId;
+
+      for (const change of groupByProject(this.withoutOwnChanges(unseen))) {
+        this.context.unleashClient.invalidateFeatures(change);
+        await this.announce(change);
+      }
+    } catch (error) {
+      this.context.logger.warn('Failed to poll the Unleash event log', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Drop events about flags this session changed since the last poll; their
+   * subscribers were notified when the change was made. One change can log
+   * several events, so every event of the flag in this batch is dropped.
+   */
+  private withoutOwnChanges(events: UnleashEvent[]): UnleashEvent[] {
+    const expiredBefore =
+      Date.now() - OWN_CHANGE_TTL_POLLS * this.context.config.unleash.eventPollIntervalMs;
+    const echoed = new Set<string>();
+
+    const external = events.filter((event) => {
+      const key = flagKey(event.project ?? '', event.featureName ?? '');
+      const changedAt = this.ownChanges.get(key);
+      if (changedAt === undefined || changedAt < expiredBefore) {
+        return true;
+      }
+      echoed.add(key);
+      return false;
+    });
+
+    for (const [key, changedAt] of this.ownChanges) {
+      if (echoed.has(key) || changedAt < expiredBefore) {
+        this.ownChanges.delete(key);
+      }
+    }
+
+    return external;
+  }
+}
+
+function flagKey(projectId: string, featureName: string): string {
+  return `${projectId}/${featureName}`;
+}
+
+function affectsResource(uri: string, change: FeatureChange): boolean {
+  const flag = parseFeatureFlagUri(uri);
+  if (flag) {
+    return flag.projectId === change.projectId && change.featureNames.includes(flag.flagName);
+  }
+
+  return extractProjectIdFromFeatureUri(uri) === change.projectId;
+}
+
+/**
+ * Collapse flag events into one change per project; events about anything
+ * other than a flag are ignored.
+ */
+function groupByProject(events: UnleashEvent[]): FeatureChange[] {
+  const changes = new Map<string, Set<string>>();
+  for (const event of events) {
+    if (!event.project || !event.featureName) {
+      continue;
+    }
+
+    const featureNames = changes.get(event.project) ?? new Set<string>();
+    featureNames.add(event.featureName);
+    changes.set(event.project, featureNames);
+  }
+
+  return [...changes].map(([projectId, featureNames]) => ({
+    projectId,
+    featureNames: [...featureNames],
+  }));
+}
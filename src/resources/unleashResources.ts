@@ -5,15 +5,51 @@ import type {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import type { ServerContext } from '../context.js';
-import type { FeatureFlagSummary, UnleashProjectSummary } from '../unleash/client.js';
+import * as pb from '../prompts/promptBuilder.js';
+import { FEATURE_SEARCH_STATES, MAX_METRICS_HOURS_BACK } from '../unleash/client.js';
+import type {
+  EventSearchOptions,
+  FeatureDetails,
+  FeatureFlagSearchOptions,
+  FeatureSearchState,
+  UnleashEvent,
+  UnleashProjectSummary,
+} from '../unleash/client.js';
+import { formatDependency } from '../unleash/dependencies.js';
+import { diffEventData, formatEventValue } from '../unleash/events.js';
+import {
+  DEFAULT_METRICS_HOURS_BACK,
+  EnvironmentMetrics,
+  loadFlagMetrics,
+  percentTrue,
+} from '../unleash/metrics.js';
+import { formatLink } from '../unleash/links.js';
+import { formatStrategy } from '../unleash/strategyDiff.js';
+import { formatTag } from '../unleash/tags.js';
+import { formatVariant } from '../unleash/variants.js';
 
 export const PROJECTS_RESOURCE_URI = 'unleash://projects';
 export const PROJECTS_RESOURCE_TEMPLATE = 'unleash://projects{?limit,order,offset}';
+export const ENVIRONMENTS_RESOURCE_TEMPLATE = 'unleash://projects/{projectId}/environments';
 export const FEATURE_FLAGS_RESOURCE_TEMPLATE =
-  'unleash://projects/{projectId}/feature-flags{?limit,order,offset}';
+  'unleash://projects/{projectId}/feature-flags{?limit,order,offset,query,type,tag,state,createdBy}';
+export const FEATURE_FLAG_RESOURCE_TEMPLATE = 'unleash://feature-flag/{projectId}/{flagName}';
+export const FEATURE_FLAG_EVENTS_RESOURCE_TEMPLATE =
+  'unleash://projects/{projectId}/feature-flags/{flagName}/events';
+export const FEATURE_FLAG_METRICS_RESOURCE_TEMPLATE =
+  'unleash://projects/{projectId}/feature-flags/{flagName}/metrics{?hoursBack}';
+export const EVENTS_RESOURCE_URI = 'unleash://events';
+export const EVENTS_RESOURCE_TEMPLATE = 'unleash://events{?type,from,to}';
+
+/**
+ * Query parameters accepted by the feature flags resource. They map directly
+ * onto Unleash's feature search filters, so paging happens server-side.
+ */
+export type FeatureFlagsResourceOptions = FeatureFlagSearchOptions;
 
 const DEFAULT_PROJECT_PAGE_SIZE = 20;
 const DEFAULT_FLAG_PAGE_SIZE = 50;
+const EVENT_PAGE_SIZE = 50;
 
 export function listStaticResources(): Resource[] {
   return [];
@@ -33,7 +69,41 @@ export function listResourceTemplates(): ResourceTemplate[] {
       uriTemplate: FEATURE_FLAGS_RESOURCE_TEMPLATE,
       mimeType: 'application/json',
       description:
-        'Feature flags for a specific Unleash project. Replace {projectId}; optional limit/order/offset parameters help paginate flags alphabetically.',
+        'Feature flags for a specific Unleash project, searched server-side. Replace {projectId}; optional limit/order/offset parameters paginate flags alphabetically. Filter with query (free-text name/description search), type (e.g. release, kill-switch), tag ("type:value"), state (enabled, disabled, stale, active, potentially-stale) and createdBy (Unleash user ID).',
+    },
+    {
+      name: 'unleash-feature-flag',
+      uriTemplate: FEATURE_FLAG_RESOURCE_TEMPLATE,
+      mimeType: 'application/json',
+      description:
+        'Full configuration of one feature flag: metadata, tags, links, dependencies and every environment with its strategies and variants. Returned as JSON (the Admin API feature details) plus a markdown summary. Tools such as create_flag and set_flag_rollout link to this resource.',
+    },
+    {
+      name: 'unleash-environments-by-project',
+      uriTemplate: ENVIRONMENTS_RESOURCE_TEMPLATE,
+      mimeType: 'application/json',
+      description:
+        'Environments enabled in a specific Unleash project, with their type and sort order. Use these exact names for the environment arguments of toggle_flag_environment, set_flag_rollout and the other tools that change an environment.',
+    },
+    {
+      name: 'unleash-feature-flag-events',
+      uriTemplate: FEATURE_FLAG_EVENTS_RESOURCE_TEMPLATE,
+      mimeType: 'application/json',
+      description:
+        'Change history of one feature flag from the Unleash event log, newest first: who did what, in which environment, and the before/after values of every changed field. Returned as JSON plus a markdown summary. Use it to answer questions like "who turned this off?".',
+    },
+    {
+      name: 'unleash-feature-flag-metrics',
+      uriTemplate: FEATURE_FLAG_METRICS_RESOURCE_TEMPLATE,
+      mimeType: 'application/json',
+      description: `How often SDKs evaluated one feature flag, per environment: true/false counts, variants served, the applications evaluating it and when it was last seen. hoursBack sets the window (1-${MAX_METRICS_HOURS_BACK} hours, defaults to ${DEFAULT_METRICS_HOURS_BACK}). Returned as JSON plus a markdown table.`,
+    },
+    {
+      name: 'unleash-events',
+      uriTemplate: EVENTS_RESOURCE_TEMPLATE,
+      mimeType: 'application/json',
+      description:
+        'The Unleash event log across all projects, newest first, in the same format as the flag history. Filter with type (e.g. feature-environment-disabled), from and to (dates as YYYY-MM-DD, inclusive).',
     },
   ];
 }
@@ -43,7 +113,9 @@ export async function readProjectsResource(
   options: { limit?: number; order?: 'asc' | 'desc'; offset?: number } = {}
 ): Promise<TextResourceContents> {
   try {
-    const { projects, fetchedAt, fromCache } = await getCachedProjects(context);
+    // UnleashClient caches and revalidates these reads itself
+    const fetchedAt = Date.now();
+    const projects = await context.unleashClient.listProjects();
 
     const order = options.order ?? 'desc';
     const sorted = sortProjects(projects, order);
@@ -56,7 +128,6 @@ export async function readProjectsResource(
       text: JSON.stringify(
         {
           fetchedAt: new Date(fetchedAt).toISOString(),
-          cached: fromCache,
           dryRun: context.config.server.dryRun,
           order,
           limit: effectiveLimit,
@@ -78,31 +149,47 @@ export async function readProjectsResource(
 export async function readFeatureFlagsResource(
   context: ServerContext,
   projectId: string,
-  options: { limit?: number; order?: 'asc' | 'desc'; offset?: number } = {}
+  options: FeatureFlagsResourceOptions = {}
 ): Promise<TextResourceContents> {
   try {
-    const { flags, fetchedAt, fromCache } = await getCachedFeatureFlags(context, projectId);
-
     const order = options.order ?? 'asc';
-    const sorted = sortFeatureFlags(flags, order);
     const effectiveLimit = options.limit ?? DEFAULT_FLAG_PAGE_SIZE;
-    const { slice, nextOffset } = applyPagination(sorted, effectiveLimit, options.offset);
+    const offset = options.offset ?? 0;
+    const search: FeatureFlagSearchOptions = {
+      ...options,
+      order,
+      limit: effectiveLimit,
+      offset,
+    };
+
+    const fetchedAt = Date.now();
+    const result = await context.unleashClient.listFeatureFlags(projectId, search);
+
+    const nextOffset = offset + result.flags.length < result.total
+      ? offset + result.flags.length
+      : undefined;
 
     return {
-      uri: buildFeatureFlagsUri(projectId, { ...options, limit: effectiveLimit }),
+      uri: buildFeatureFlagsUri(projectId, search),
       mimeType: 'application/json',
       text: JSON.stringify(
         {
           fetchedAt: new Date(fetchedAt).toISOString(),
-          cached: fromCache,
           dryRun: context.config.server.dryRun,
           projectId,
           order,
           limit: effectiveLimit,
-          offset: options.offset ?? 0,
+          offset,
           nextOffset,
-          totalFlags: flags.length,
-          flags: slice,
+          filters: {
+            query: options.query,
+            type: options.type,
+            tag: options.tag,
+            state: options.state,
+            createdBy: options.createdBy,
+          },
+          totalFlags: result.total,
+          flags: result.flags,
         },
         null,
         2
@@ -114,6 +201,302 @@ export async function readFeatureFlagsResource(
   }
 }
 
+/**
+ * Read one flag as two contents with the same URI: the Admin API feature
+ * details as JSON, and a markdown summary for reading at a glance.
+ */
+export async function readFeatureFlagResource(
+  context: ServerContext,
+  projectId: string,
+  flagName: string
+): Promise<TextResourceContents[]> {
+  try {
+    const fetchedAt = Date.now();
+    const feature = await context.unleashClient.getFeature(projectId, flagName);
+    const uri = buildFeatureFlagUri(projectId, flagName);
+    const url = `${context.config.unleash.baseUrl}/projects/${encodeURIComponent(
+      projectId
+    )}/features/${encodeURIComponent(flagName)}`;
+
+    return [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(
+          {
+            fetchedAt: new Date(fetchedAt).toISOString(),
+            dryRun: context.config.server.dryRun,
+            projectId,
+            url,
+            feature,
+          },
+          null,
+          2
+        ),
+      },
+      {
+        uri,
+        mimeType: 'text/markdown',
+        text: formatFeatureMarkdown(feature, projectId, url),
+      },
+    ];
+  } catch (error) {
+    context.logger.error('Failed to read Unleash feature flag resource', error);
+    throw error;
+  }
+}
+
+/**
+ * Read a flag's evaluation metrics per environment, as JSON and as a markdown
+ * table.
+ */
+export async function readFeatureFlagMetricsResource(
+  context: ServerContext,
+  projectId: string,
+  flagName: string,
+  hoursBack: number = DEFAULT_METRICS_HOURS_BACK
+): Promise<TextResourceContents[]> {
+  try {
+    const fetchedAt = Date.now();
+    const environments = await loadFlagMetrics(
+      context.unleashClient,
+      projectId,
+      flagName,
+      hoursBack
+    );
+    const uri = `unleash://projects/${encodeURIComponent(projectId)}/feature-flags/${encodeURIComponent(
+      flagName
+    )}/metrics?hoursBack=${hoursBack}`;
+
+    return [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(
+          {
+            fetchedAt: new Date(fetchedAt).toISOString(),
+            dryRun: context.config.server.dryRun,
+            projectId,
+            featureName: flagName,
+            hoursBack,
+            totalEvaluations: environments.reduce((sum, env) => sum + env.total, 0),
+            environments,
+          },
+          null,
+          2
+        ),
+      },
+      {
+        uri,
+        mimeType: 'text/markdown',
+        text: formatMetricsMarkdown(flagName, hoursBack, environments),
+      },
+    ];
+  } catch (error) {
+    context.logger.error('Failed to read Unleash feature flag metrics resource', error);
+    throw error;
+  }
+}
+
+/**
+ * Read the event log, newest first, as JSON and as a markdown summary with a
+ * before/after table for every event that changed data.
+ */
+export async function readEventsResource(
+  context: ServerContext,
+  uri: string,
+  search: EventSearchOptions
+): Promise<TextResourceContents[]> {
+  try {
+    const fetchedAt = Date.now();
+    const { events, total } = await context.unleashClient.searchEvents({
+      ...search,
+      limit: EVENT_PAGE_SIZE,
+    });
+
+    return [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(
+          {
+            fetchedAt: new Date(fetchedAt).toISOString(),
+            dryRun: context.config.server.dryRun,
+            filters: search,
+            total,
+            events,
+          },
+          null,
+          2
+        ),
+      },
+      {
+        uri,
+        mimeType: 'text/markdown',
+        text: formatEventsMarkdown(events, total, search),
+      },
+    ];
+  } catch (error) {
+    context.logger.error('Failed to read Unleash events resource', error);
+    throw error;
+  }
+}
+
+export async function readEnvironmentsResource(
+  context: ServerContext,
+  projectId: string
+): Promise<TextResourceContents> {
+  try {
+    const fetchedAt = Date.now();
+    const environments = await context.unleashClient.listProjectEnvironments(projectId);
+
+    return {
+      uri: `unleash://projects/${encodeURIComponent(projectId)}/environments`,
+      mimeType: 'application/json',
+      text: JSON.stringify(
+        {
+          fetchedAt: new Date(fetchedAt).toISOString(),
+          dryRun: context.config.server.dryRun,
+          projectId,
+          defaultEnvironment: context.config.unleash.defaultEnvironment,
+          totalEnvironments: environments.length,
+          environments,
+        },
+        null,
+        2
+      ),
+    };
+  } catch (error) {
+    context.logger.error('Failed to read Unleash environments resource', error);
+    throw error;
+  }
+}
+
+export function isFeatureFlagUri(uri: string): boolean {
+  return /^unleash:\/\/feature-flag\/[^/]+\/[^/?]+$/.test(uri);
+}
+
+export function parseFeatureFlagUri(
+  uri: string
+): { projectId: string; flagName: string } | undefined {
+  const match = uri.match(/^unleash:\/\/feature-flag\/([^/]+)\/([^/?]+)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+
+  return { projectId: decode(match[1]), flagName: decode(match[2]) };
+}
+
+export function buildFeatureFlagUri(projectId: string, flagName: string): string {
+  return `unleash://feature-flag/${encodeURIComponent(projectId)}/${encodeURIComponent(flagName)}`;
+}
+
+export function isFeatureFlagEventsUri(uri: string): boolean {
+  return /^unleash:\/\/projects\/[^/]+\/feature-flags\/[^/?]+\/events$/.test(uri);
+}
+
+export function parseFeatureFlagEventsUri(
+  uri: string
+): { projectId: string; flagName: string } | undefined {
+  const match = uri.match(/^unleash:\/\/projects\/([^/]+)\/feature-flags\/([^/?]+)\/events$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+
+  return { projectId: decode(match[1]), flagName: decode(match[2]) };
+}
+
+export function isFeatureFlagMetricsUri(uri: string): boolean {
+  return /^unleash:\/\/projects\/[^/]+\/feature-flags\/[^/?]+\/metrics(?:\?.*)?$/.test(uri);
+}
+
+export function parseFeatureFlagMetricsUri(
+  uri: string
+): { projectId: string; flagName: string; hoursBack: number } | undefined {
+  const match = uri.match(
+    /^unleash:\/\/projects\/([^/]+)\/feature-flags\/([^/?]+)\/metrics(?:\?(.*))?$/
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+
+  const hoursBackParam = new URLSearchParams(match[3] ?? '').get('hoursBack');
+  const hoursBack = hoursBackParam ? parsePositiveInteger(hoursBackParam) : undefined;
+
+  return {
+    projectId: decode(match[1]),
+    flagName: decode(match[2]),
+    hoursBack: Math.min(hoursBack ?? DEFAULT_METRICS_HOURS_BACK, MAX_METRICS_HOURS_BACK),
+  };
+}
+
+export function isEventsUri(uri: string): boolean {
+  return uri === EVENTS_RESOURCE_URI || uri.startsWith(`${EVENTS_RESOURCE_URI}?`);
+}
+
+/**
+ * Filters of the events resource. Dates that are not YYYY-MM-DD are ignored.
+ */
+export function parseEventsResourceOptions(uri: string): EventSearchOptions {
+  if (!isEventsUri(uri)) {
+    return {};
+  }
+
+  const queryIndex = uri.indexOf('?');
+  if (queryIndex === -1) {
+    return {};
+  }
+
+  const params = new URLSearchParams(uri.slice(queryIndex + 1));
+
+  return {
+    type: params.get('type') || undefined,
+    from: normalizeDate(params.get('from')),
+    to: normalizeDate(params.get('to')),
+  };
+}
+
+export function isEnvironmentsUri(uri: string): boolean {
+  return /^unleash:\/\/projects\/[^/]+\/environments$/.test(uri);
+}
+
+export function extractProjectIdFromEnvironmentsUri(uri: string): string | undefined {
+  const match = uri.match(/^unleash:\/\/projects\/([^/]+)\/environments$/);
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return match[1];
+  }
+}
+
 export function isFeatureFlagsUri(uri: string): boolean {
   return /^unleash:\/\/projects\/[^/]+\/feature-flags(?:\?.*)?$/.test(uri);
 }
@@ -166,9 +549,7 @@ export function extractProjectIdFromFeatureUri(uri: string): string | undefined
   }
 }
 
-export function parseFeatureFlagsResourceOptions(
-  uri: string
-): { limit?: number; order?: 'asc' | 'desc'; offset?: number } {
+export function parseFeatureFlagsResourceOptions(uri: string): FeatureFlagsResourceOptions {
   if (!isFeatureFlagsUri(uri)) {
     return {};
   }
@@ -193,12 +574,17 @@ export function parseFeatureFlagsResourceOptions(
     limit,
     order,
     offset,
+    query: params.get('query') || undefined,
+    type: params.get('type') || undefined,
+    tag: params.get('tag') || undefined,
+    state: normalizeSearchState(params.get('state')),
+    createdBy: params.get('createdBy') || undefined,
   };
 }
 
 export function buildFeatureFlagsUri(
   projectId: string,
-  options: { limit?: number; order?: 'asc' | 'desc'; offset?: number } = {}
+  options: FeatureFlagsResourceOptions = {}
 ): string {
   const base = `unleash://projects/${encodeURIComponent(projectId)}/feature-flags`;
   const params = new URLSearchParams();
@@ -215,10 +601,183 @@ export function buildFeatureFlagsUri(
     params.set('offset', String(options.offset));
   }
 
+  if (options.query) {
+    params.set('query', options.query);
+  }
+
+  if (options.type) {
+    params.set('type', options.type);
+  }
+
+  if (options.tag) {
+    params.set('tag', options.tag);
+  }
+
+  if (options.state) {
+    params.set('state', options.state);
+  }
+
+  if (options.createdBy) {
+    params.set('createdBy', options.createdBy);
+  }
+
   const query = params.toString();
   return query ? `${base}?${query}` : base;
 }
 
+function formatFeatureMarkdown(
+  feature: FeatureDetails,
+  projectId: string,
+  url: string
+): string {
+  const tags = (feature.tags ?? []).filter((tag) => tag.type && tag.value);
+  const details = [
+    ...(feature.dependencies && feature.dependencies.length > 0
+      ? [`Depends on: ${feature.dependencies.map(formatDependency).join(', ')}`]
+      : []),
+    ...(feature.children && feature.children.length > 0
+      ? [`Required by: ${feature.children.join(', ')}`]
+      : []),
+    ...(tags.length > 0
+      ? [`Tags: ${tags.map((tag) => formatTag({ type: tag.type!, value: tag.value! })).join(', ')}`]
+      : []),
+    ...(feature.links ?? []).map((link) => `Link: ${formatLink(link)}`),
+  ];
+
+  const environments = (feature.environments ?? []).map((env) => {
+    const strategies = env.strategies ?? [];
+    const variants = env.variants ?? [];
+    return pb.subsection(
+      `${env.environment ?? env.name}: ${env.enabled ? 'enabled' : 'disabled'}`,
+      [
+        strategies.length > 0
+          ? pb.list(strategies.map((strategy) => `${pb.inlineCode(strategy.id)} ${formatStrategy(strategy)}`))
+          : 'No strategies.\n\n',
+        variants.length > 0 ? `Variants: ${variants.map(formatVariant).join('; ')}\n\n` : '',
+      ]
+        .join('')
+        .trimEnd()
+    );
+  });
+
+  return [
+    pb.section(feature.name, 1),
+    feature.description ? `${feature.description}\n\n` : '',
+    pb.table(
+      ['Type', 'Project', 'Enabled', 'Stale', 'Archived', 'Created'],
+      [
+        [
+          feature.type ?? 'unknown',
+          feature.project ?? projectId,
+          feature.enabled ? 'yes' : 'no',
+          feature.stale ? 'yes' : 'no',
+          feature.archived ? 'yes' : 'no',
+          feature.createdAt ?? 'unknown',
+        ],
+      ]
+    ),
+    details.length > 0 ? pb.list(details) : '',
+    pb.section('Environments'),
+    environments.length > 0 ? environments.join('') : 'No environments.\n\n',
+    pb.link('View in Unleash', url),
+  ]
+    .join('')
+    .trimEnd();
+}
+
+function formatMetricsMarkdown(
+  flagName: string,
+  hoursBack: number,
+  environments: EnvironmentMetrics[]
+): string {
+  const formatVariants = (env: EnvironmentMetrics) =>
+    Object.entries(env.variants)
+      .map(([variant, count]) => `${variant}=${count}`)
+      .join(', ') || '-';
+
+  return [
+    pb.section(`Evaluations of ${flagName}`, 1),
+    `Last ${hoursBack} hours.\n\n`,
+    environments.length > 0
+      ? pb.table(
+          ['Environment', 'Evaluations', 'True', 'Yes', 'No', 'Variants', 'Applications', 'Last seen'],
+          environments.map((env) => [
+            env.environment,
+            String(env.total),
+            env.total > 0 ? `${percentTrue(env)}%` : '-',
+            String(env.yes),
+            String(env.no),
+            formatVariants(env),
+            env.applications.join(', ') || '-',
+            env.lastSeenAt ?? env.lastEvaluatedAt ?? 'never',
+          ])
+        )
+      : 'No environments.\n\n',
+    environments.every((env) => env.total === 0)
+      ? `${pb.emphasis('Not evaluated in this window.')} No deployed code checked the flag, or the services that do are not running or not reporting metrics.\n\n`
+      : '',
+  ]
+    .join('')
+    .trimEnd();
+}
+
+function formatEventsMarkdown(
+  events: UnleashEvent[],
+  total: number,
+  search: EventSearchOptions
+): string {
+  const scope = search.feature
+    ? `Events for ${search.feature}`
+    : search.project
+      ? `Events in project ${search.project}`
+      : 'Event log';
+  const filters = [
+    search.type ? `type ${pb.inlineCode(search.type)}` : '',
+    search.from ? `from ${search.from}` : '',
+    search.to ? `to ${search.to}` : '',
+  ].filter(Boolean);
+
+  const entries = events.map((event) => {
+    const changes = diffEventData(event);
+    const where = [
+      event.featureName
+        ? `${pb.inlineCode(event.featureName)}${event.project ? ` in ${event.project}` : ''}`
+        : event.project
+          ? `project ${event.project}`
+          : '',
+      event.environment ? `environment ${pb.inlineCode(event.environment)}` : '',
+    ].filter(Boolean);
+
+    return pb.subsection(
+      `#${event.id} ${event.type}`,
+      [
+        `${event.createdAt} by ${pb.emphasis(event.createdBy)}${where.length > 0 ? `, ${where.join(', ')}` : ''}\n\n`,
+        changes.length > 0
+          ? pb.table(
+              ['Field', 'Before', 'After'],
+              changes.map((change) => [
+                change.field,
+                formatEventValue(change.before),
+                formatEventValue(change.after),
+              ])
+            )
+          : '',
+      ]
+        .join('')
+        .trimEnd()
+    );
+  });
+
+  return [
+    pb.section(scope, 1),
+    filters.length > 0 ? `Filtered by ${filters.join(', ')}.\n\n` : '',
+    `Showing the newest ${events.length} of ${total} events.\n\n`,
+    entries.length > 0 ? entries.join('') : 'No events.\n\n',
+  ]
+    .join('')
+    .trimEnd();
+}
+
 function buildProjectsUri(options: { limit?: number; order?: 'asc' | 'desc'; offset?: number }): string {
   const params = new URLSearchParams();
 
@@ -270,31 +829,6 @@ function sortProjects(
   });
 }
 
-function sortFeatureFlags(
-  flags: FeatureFlagSummary[],
-  order: 'asc' | 'desc'
-): FeatureFlagSummary[] {
-  const direction = order === 'asc' ? 1 : -1;
-
-  return [...flags].sort((a, b) => {
-    const nameA = a.name ?? '';
-    const nameB = b.name ?? '';
-
-    if (nameA === nameB) {
-      const dateA = a.createdAt ? Date.parse(a.createdAt) : Number.NaN;
-      const dateB = b.createdAt ? Date.parse(b.createdAt) : Number.NaN;
-
-      if (Number.isFinite(dateA) && Number.isFinite(dateB)) {
-        return (dateA - dateB) * direction;
-      }
-
-      return 0;
-    }
-
-    return nameA.localeCompare(nameB) * direction;
-  });
-}
-
 function applyPagination<T>(
   items: T[],
   limit?: number,
@@ -340,90 +874,30 @@ function parseNonNegativeInteger(value: string): number | undefined {
   return undefined;
 }
 
-function normalizeOrder(value: string | null): 'asc' | 'desc' | undefined {
+function normalizeSearchState(value: string | null): FeatureSearchState | undefined {
   if (!value) {
     return undefined;
   }
 
   const lower = value.toLowerCase();
-  if (lower === 'asc' || lower === 'desc') {
-    return lower;
-  }
-
-  return undefined;
+  return (FEATURE_SEARCH_STATES as readonly string[]).includes(lower)
+    ? (lower as FeatureSearchState)
+    : undefined;
 }
 
-const PROJECTS_CACHE_TTL_MS = 60_000;
-let cachedProjects: {
-  data: UnleashProjectSummary[];
-  fetchedAt: number;
-} | null = null;
-
-const FEATURE_FLAGS_CACHE_TTL_MS = 60_000;
-const cachedFeatureFlags = new Map<
-  string,
-  {
-    data: FeatureFlagSummary[];
-    fetchedAt: number;
-  }
->();
-
-async function getCachedProjects(context: ServerContext): Promise<{
-  projects: UnleashProjectSummary[];
-  fetchedAt: number;
-  fromCache: boolean;
-}> {
-  const now = Date.now();
-
-  if (cachedProjects && now - cachedProjects.fetchedAt < PROJECTS_CACHE_TTL_MS) {
-    return {
-      projects: cachedProjects.data,
-      fetchedAt: cachedProjects.fetchedAt,
-      fromCache: true,
-    };
-  }
-
-  const data = await context.unleashClient.listProjects();
-  cachedProjects = {
-    data,
-    fetchedAt: now,
-  };
-
-  return {
-    projects: data,
-    fetchedAt: now,
-    fromCache: false,
-  };
+function normalizeDate(value: string | null): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
 }
 
-async function getCachedFeatureFlags(
-  context: ServerContext,
-  projectId: string
-): Promise<{
-  flags: FeatureFlagSummary[];
-  fetchedAt: number;
-  fromCache: boolean;
-}> {
-  const now = Date.now();
-  const cached = cachedFeatureFlags.get(projectId);
-
-  if (cached && now - cached.fetchedAt < FEATURE_FLAGS_CACHE_TTL_MS) {
-    return {
-      flags: cached.data,
-      fetchedAt: cached.fetchedAt,
-      fromCache: true,
-    };
+function normalizeOrder(value: string | null): 'asc' | 'desc' | undefined {
+  if (!value) {
+    return undefined;
   }
 
-  const data = await context.unleashClient.listFeatureFlags(projectId);
-  cachedFeatureFlags.set(projectId, {
-    data,
-    fetchedAt: now,
-  });
+  const lower = value.toLowerCase();
+  if (lower === 'asc' || lower === 'desc') {
+    return lower;
+  }
 
-  return {
-    flags: data,
-    fetchedAt: now,
-    fromCache: false,
-  };
+  return undefined;
 }
@@ -0,0 +1,334 @@
+import { mkdir, readFile, rename, stat, unlink, utimes, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import { z } from 'zod';
+
+import { CustomError } from '../utils/errors.js';
+import { table } from '../prompts/promptBuilder.js';
+
+/**
+ * One step of a staged rollout: the percentage to serve and how long it must
+ * run before the next stage may start.
+ */
+export interface RolloutStage {
+  percentage: number;
+  minDwellMinutes: number;
+}
+
+export type RolloutPlanStatus = 'pending' | 'in_progress' | 'completed' | 'halted';
+
+export interface RolloutPlanEvent {
+  stage: number;
+  percentage: number;
+  at: string;
+  note?: string;
+}
+
+/**
+ * A named multi-stage rollout for one flag in one environment.
+ */
+export interface RolloutPlan {
+  name: string;
+  baseUrl: string;
+  projectId: string;
+  featureName: string;
+  environment: string;
+  stages: RolloutStage[];
+  /** Index of the stage currently served, -1 before the first stage is applied */
+  currentStage: number;
+  status: RolloutPlanStatus;
+  /** The flexibleRollout strategy the plan drives */
+  strategyId?: string;
+  stageStartedAt?: string;
+  haltedReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  history: RolloutPlanEvent[];
+}
+
+const rolloutPlanSchema: z.ZodType<RolloutPlan> = z.object({
+  name: z.string(),
+  baseUrl: z.string(),
+  projectId: z.string(),
+  featureName: z.string(),
+  environment: z.string(),
+  stages: z
+    .array(
+      z.object({
+        percentage: z.number().min(0).max(100),
+        minDwellMinutes: z.number().min(0),
+      })
+    )
+    .min(1),
+  currentStage: z.number().int().min(-1),
+  status: z.enum(['pending', 'in_progress', 'completed', 'halted']),
+  strategyId: z.string().optional(),
+  stageStartedAt: z.string().optional(),
+  haltedReason: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  history: z.array(
+    z.object({
+      stage: z.number().int(),
+      percentage: z.number(),
+      at: z.string(),
+      note: z.string().optional(),
+    })
+  ),
+});
+
+const planFileSchema = z.object({
+  version: z.literal(1),
+  plans: z.record(rolloutPlanSchema),
+});
+
+type PlanFile = z.infer<typeof planFileSchema>;
+
+// How long update() waits for another process to release the lock file, and
+// when a lock whose holder stopped refreshing it is considered abandoned
+const LOCK_TIMEOUT_MS = 30_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_REFRESH_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+
+// Tail of the pending updates per state file (or in-memory store), so updates
+// made by this process run one at a time without waiting on the lock file
+const pendingUpdates = new Map<string | symbol, Promise<void>>();
+
+/**
+ * Persists rollout plans as JSON so they survive restarts.
+ *
+ * Plans are keyed by Unleash instance, project, flag and environment, not by
+ * user: over HTTP every session targeting the same instance sees and advances
+ * the same plans, while the strategy changes themselves still use each
+ * session's own token. update() runs one read-modify-write at a time, in this
+ * process and, through an exclusive `<file>.lock`, across server processes
+ * sharing one file, and replaces the file atomically. Without a file path
+ * (dry-run mode) plans only live in memory.
+ */
+export class RolloutPlanStore {
+  private readonly filePath?: string;
+  private readonly queueKey: string | symbol;
+  private memory: PlanFile = { version: 1, plans: {} };
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    this.queueKey = filePath ? resolve(filePath) : Symbol('memory');
+  }
+
+  async get(
+    baseUrl: string,
+    projectId: string,
+    featureName: string,
+    environment: string
+  ): Promise<RolloutPlan | undefined> {
+    return (await this.read()).plans[planKey(baseUrl, projectId, featureName, environment)];
+  }
+
+  async save(plan: RolloutPlan): Promise<RolloutPlan> {
+    return this.update(plan.baseUrl, plan.projectId, plan.featureName, plan.environment, async () => plan);
+  }
+
+  /**
+   * Read the plan for a flag and environment, let change() work out its new
+   * state (it may call Unleash) and store the result, all while holding the
+   * lock, so concurrent callers cannot act on the same stage twice. Nothing is
+   * stored when change() throws.
+   */
+  async update(
+    baseUrl: string,
+    projectId: string,
+    featureName: string,
+    environment: string,
+    change: (current: RolloutPlan | undefined) => Promise<RolloutPlan>
+  ): Promise<RolloutPlan> {
+    const key = planKey(baseUrl, projectId, featureName, environment);
+
+    return this.serialize(() =>
+      this.withLock(async () => {
+        const next = await change((await this.read()).plans[key]);
+        const stored = { ...next, updatedAt: new Date().toISOString() };
+
+        // Re-read so plans stored by other processes meanwhile are kept
+        const file = await this.read();
+        file.plans[key] = stored;
+        await this.write(file);
+
+        return stored;
+      })
+    );
+  }
+
+  private serialize<T>(run: () => Promise<T>): Promise<T> {
+    const previous = pendingUpdates.get(this.queueKey) ?? Promise.resolve();
+    const result = previous.then(run);
+    const tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+
+    pendingUpdates.set(this.queueKey, tail);
+    void tail.then(() => {
+      if (pendingUpdates.get(this.queueKey) === tail) {
+        pendingUpdates.delete(this.queueKey);
+      }
+    });
+
+    return result;
+  }
+
+  private async withLock<T>(run: () => Promise<T>): Promise<T> {
+    if (!this.filePath) {
+      return run();
+    }
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await writeFile(lockPath, String(process.pid), { flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await isStale(lockPath)) {
+        await unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new CustomError(
+          'ROLLOUT_STATE_LOCKED',
+          `Rollout state file ${this.filePath} is locked by another process`,
+          `Try again shortly. If no other unleash-mcp process is running, delete ${lockPath}.`
+        );
+      }
+      await delay(LOCK_RETRY_MS);
+    }
+
+    // Keep the lock fresh while change() waits on Unleash, so other processes
+    // do not mistake a slow update for a crashed one
+    const refresh = setInterval(() => {
+      const now = new Date();
+      void utimes(lockPath, now, now).catch(() => undefined);
+    }, LOCK_REFRESH_MS);
+    refresh.unref();
+
+    try {
+      return await run();
+    } finally {
+      clearInterval(refresh);
+      await unlink(lockPath).catch(() => undefined);
+    }
+  }
+
+  private async read(): Promise<PlanFile> {
+    if (!this.filePath) {
+      return structuredClone(this.memory);
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, plans: {} };
+      }
+      throw error;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new CustomError(
+        'ROLLOUT_STATE_INVALID',
+        `Rollout state file ${this.filePath} is not valid JSON`,
+        `Fix or remove ${this.filePath} (set UNLEASH_ROLLOUT_STATE_FILE to use a different location).`
+      );
+    }
+
+    const result = planFileSchema.safeParse(data);
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      throw new CustomError(
+        'ROLLOUT_STATE_INVALID',
+        `Rollout state file ${this.filePath} is not in the expected format (${
+          issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''
+        }${issue.message})`,
+        `Fix or remove ${this.filePath} (set UNLEASH_ROLLOUT_STATE_FILE to use a different location).`
+      );
+    }
+
+    return result.data;
+  }
+
+  private async write(file: PlanFile): Promise<void> {
+    if (!this.filePath) {
+      this.memory = file;
+      return;
+    }
+
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+}
+
+async function isStale(lockPath: string): Promise<boolean> {
+  try {
+    return Date.now() - (await stat(lockPath)).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Released in the meantime; the next attempt can take it
+    return false;
+  }
+}
+
+function planKey(baseUrl: string, projectId: string, featureName: string, environment: string): string {
+  return [baseUrl.replace(/\/$/, ''), projectId, featureName, environment.toLowerCase()].join('|');
+}
+
+/**
+ * Minutes left before the current stage has run for its minimum dwell time.
+ */
+export function remainingDwellMinutes(plan: RolloutPlan, now: Date = new Date()): number {
+  const stage = plan.stages[plan.currentStage];
+  if (!stage || !plan.stageStartedAt) {
+    return 0;
+  }
+
+  const elapsedMinutes = (now.getTime() - Date.parse(plan.stageStartedAt)) / 60_000;
+  return Math.max(0, Math.ceil(stage.minDwellMinutes - elapsedMinutes));
+}
+
+/**
+ * Render a plan as a markdown table showing the state of each stage.
+ */
+export function formatRolloutPlan(plan: RolloutPlan): string {
+  const rows = plan.stages.map((stage, index) => [
+    String(index + 1),
+    `${stage.percentage}%`,
+    `${stage.minDwellMinutes} min`,
+    stageState(plan, index),
+  ]);
+
+  return [
+    `Rollout plan "${plan.name}" for "${plan.featureName}" in "${plan.environment}" (${plan.status.replace('_', ' ')})`,
+    '',
+    table(['Stage', 'Rollout', 'Min dwell', 'State'], rows).trimEnd(),
+  ].join('\n');
+}
+
+function stageState(plan: RolloutPlan, index: number): string {
+  if (index < plan.currentStage || (index === plan.currentStage && plan.status === 'completed')) {
+    return 'done';
+  }
+  if (index === plan.currentStage) {
+    return plan.status === 'halted' ? 'halted' : 'current';
+  }
+  return 'upcoming';
+}
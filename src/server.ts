@@ -0,0 +1,376 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { Config } from './config.js';
+import { UnleashClient } from './unleash/client.js';
+import { Logger, ServerContext, handleToolError } from './context.js';
+import { createFlag, createFlagTool } from './tools/createFlag.js';
+import { evaluateChange, evaluateChangeTool } from './tools/evaluateChange.js';
+import { wrapChange, wrapChangeTool } from './tools/wrapChange.js';
+import { detectFlag, detectFlagTool } from './tools/detectFlag.js';
+import { cleanupFlag, cleanupFlagTool } from './tools/cleanupFlag.js';
+import { setFlagRollout, setFlagRolloutTool } from './tools/setFlagRollout.js';
+import { getFlagState, getFlagStateTool } from './tools/getFlagState.js';
+import { toggleFlagEnvironment, toggleFlagEnvironmentTool } from './tools/toggleFlagEnvironment.js';
+import { removeFlagStrategy, removeFlagStrategyTool } from './tools/removeFlagStrategy.js';
+import { updateFlag, updateFlagTool } from './tools/updateFlag.js';
+import { archiveFlag, archiveFlagTool } from './tools/archiveFlag.js';
+import { reviveFlag, reviveFlagTool } from './tools/reviveFlag.js';
+import { planRollout, planRolloutTool } from './tools/planRollout.js';
+import { advanceRollout, advanceRolloutTool } from './tools/advanceRollout.js';
+import { setFlagVariants, setFlagVariantsTool } from './tools/setFlagVariants.js';
+import { promoteFlag, promoteFlagTool } from './tools/promoteFlag.js';
+import { cloneFlag, cloneFlagTool } from './tools/cloneFlag.js';
+import { manageFlagTags, manageFlagTagsTool } from './tools/manageFlagTags.js';
+import { linkFlag, linkFlagTool } from './tools/linkFlag.js';
+import { setFlagDependency, setFlagDependencyTool } from './tools/setFlagDependency.js';
+import { listChangeRequests, listChangeRequestsTool } from './tools/listChangeRequests.js';
+import { submitChangeRequest, submitChangeRequestTool } from './tools/submitChangeRequest.js';
+import { getFlagMetrics, getFlagMetricsTool } from './tools/getFlagMetrics.js';
+import { RolloutPlanStore } from './rollout/planStore.js';
+import {
+  isProjectsUri,
+  parseProjectsResourceOptions,
+  extractProjectIdFromFeatureUri,
+  extractProjectIdFromEnvironmentsUri,
+  isFeatureFlagsUri,
+  isEnvironmentsUri,
+  isFeatureFlagUri,
+  parseFeatureFlagUri,
+  isFeatureFlagEventsUri,
+  parseFeatureFlagEventsUri,
+  isEventsUri,
+  parseEventsResourceOptions,
+  isFeatureFlagMetricsUri,
+  parseFeatureFlagMetricsUri,
+  listResourceTemplates,
+  listStaticResources,
+  parseFeatureFlagsResourceOptions,
+  readEnvironmentsResource,
+  readEventsResource,
+  readFeatureFlagMetricsResource,
+  readFeatureFlagResource,
+  readFeatureFlagsResource,
+  readProjectsResource,
+} from './resources/unleashResources.js';
+import { ResourceSubscriptions } from './resources/subscriptions.js';
+import { clearProgress } from './utils/streaming.js';
+
+const instructions = [
+  'Use this tool for local development to increase confidence by decoupling the change from deployments:',
+  '1) Call evaluate_change to get a risk assessment on the current code change.',
+  '2) The evaluate_change tool will automatically call detect_flag to search for existing flags to prevent duplicates.',
+  '3) If an existing flag is found, use it. If the code change is risky and no flag exists, create a feature flag with create_flag.',
+  '4) Use wrap_change to guard code with an Unleash flag.',
+  '5) When a flag is rolled out and ready to be removed, use cleanup_flag to safely remove the flag code while preserving the desired path, then archive it with archive_flag.',
+].join('\n');
+
+/**
+ * Build an MCP server with every tool and resource handler registered.
+ *
+ * A server instance can only be connected to a single transport, so the stdio
+ * entry point creates one and the HTTP transport creates one per session.
+ */
+export function createMcpServer(options: {
+  config: Config;
+  unleashClient: UnleashClient;
+  logger: Logger;
+}): { server: Server; context: ServerContext } {
+  const { config, unleashClient, logger } = options;
+
+  // Create MCP server
+  const server = new Server(
+    {
+      name: 'unleash-mcp',
+      version: '0.1.0',
+      description:
+        'Local development assistant. After making a code change follow this workflow: evaluate_change → create_flag → wrap_change to score risk and steer next steps.',
+    },
+    {
+      capabilities: {
+        tools: {},
+        logging: {},
+        notifications: {},
+        resources: { subscribe: true },
+        instructions,
+      },
+    }
+  );
+
+  // Build shared context
+  const context: ServerContext = {
+    server,
+    config,
+    unleashClient,
+    logger,
+    // Dry-run plans stay in memory so simulated rollouts never touch the state file
+    rolloutPlans: new RolloutPlanStore(
+      config.server.dryRun ? undefined : config.server.rolloutStateFile
+    ),
+  };
+
+  // Flag changes, our own and those spotted in the event log, are pushed to
+  // subscribers until the session closes
+  const subscriptions = new ResourceSubscriptions(context);
+  const stopListening = unleashClient.onChange((change) => {
+    void subscriptions.notifyChange(change);
+  });
+  server.onclose = () => {
+    stopListening();
+    subscriptions.close();
+  };
+
+  // Register tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        createFlagTool,
+        evaluateChangeTool,
+        detectFlagTool,
+        wrapChangeTool,
+        cleanupFlagTool,
+        setFlagRolloutTool,
+        getFlagStateTool,
+        toggleFlagEnvironmentTool,
+        removeFlagStrategyTool,
+        updateFlagTool,
+        archiveFlagTool,
+        reviveFlagTool,
+        planRolloutTool,
+        advanceRolloutTool,
+        setFlagVariantsTool,
+        promoteFlagTool,
+        cloneFlagTool,
+        manageFlagTagsTool,
+        linkFlagTool,
+        setFlagDependencyTool,
+        listChangeRequestsTool,
+        submitChangeRequestTool,
+        getFlagMetricsTool,
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: listStaticResources(),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+
+    logger.debug(`Resource read requested: ${uri}`);
+
+    if (isProjectsUri(uri)) {
+      const options = parseProjectsResourceOptions(uri);
+      return {
+        contents: [await readProjectsResource(context, options)],
+      };
+    }
+
+    if (isFeatureFlagsUri(uri)) {
+      const projectId = extractProjectIdFromFeatureUri(uri);
+      if (!projectId) {
+        throw new Error('Project ID missing from feature flags URI');
+      }
+
+      return {
+        contents: [
+          await readFeatureFlagsResource(
+            context,
+            projectId,
+            parseFeatureFlagsResourceOptions(uri)
+          ),
+        ],
+      };
+    }
+
+    if (isFeatureFlagUri(uri)) {
+      const flag = parseFeatureFlagUri(uri);
+      if (!flag) {
+        throw new Error('Project ID or flag name missing from feature flag URI');
+      }
+
+      return {
+        contents: await readFeatureFlagResource(context, flag.projectId, flag.flagName),
+      };
+    }
+
+    if (isFeatureFlagEventsUri(uri)) {
+      const flag = parseFeatureFlagEventsUri(uri);
+      if (!flag) {
+        throw new Error('Project ID or flag name missing from feature flag events URI');
+      }
+
+      return {
+        contents: await readEventsResource(context, uri, {
+          project: flag.projectId,
+          feature: flag.flagName,
+        }),
+      };
+    }
+
+    if (isFeatureFlagMetricsUri(uri)) {
+      const flag = parseFeatureFlagMetricsUri(uri);
+      if (!flag) {
+        throw new Error('Project ID or flag name missing from feature flag metrics URI');
+      }
+
+      return {
+        contents: await readFeatureFlagMetricsResource(
+          context,
+          flag.projectId,
+          flag.flagName,
+          flag.hoursBack
+        ),
+      };
+    }
+
+    if (isEventsUri(uri)) {
+      return {
+        contents: await readEventsResource(context, uri, parseEventsResourceOptions(uri)),
+      };
+    }
+
+    if (isEnvironmentsUri(uri)) {
+      const projectId = extractProjectIdFromEnvironmentsUri(uri);
+      if (!projectId) {
+        throw new Error('Project ID missing from environments URI');
+      }
+
+      return {
+        contents: [await readEnvironmentsResource(context, projectId)],
+      };
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: listResourceTemplates(),
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    logger.debug(`Resource subscription requested: ${request.params.uri}`);
+    subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    // Scope the context to this call so progress notifications are routed to
+    // the originating request (required by the Streamable HTTP transport) and
+    // Unleash requests are aborted if the client cancels the call.
+    const toolContext: ServerContext = {
+      ...context,
+      requestId: extra.requestId,
+      signal: extra.signal,
+    };
+
+    try {
+      const { name, arguments: args } = request.params;
+
+      logger.debug(`Tool called: ${name}`, args);
+
+      switch (name) {
+        case 'create_flag':
+          return await createFlag(toolContext, args, request.params._meta?.progressToken);
+
+        case 'evaluate_change':
+          return await evaluateChange(toolContext, args);
+
+        case 'detect_flag':
+          return await detectFlag(toolContext, args);
+
+        case 'wrap_change':
+          return await wrapChange(toolContext, args);
+
+        case 'cleanup_flag':
+          return await cleanupFlag(toolContext, args);
+
+        case 'set_flag_rollout':
+          return await setFlagRollout(toolContext, args, request.params._meta?.progressToken);
+
+        case 'get_flag_state':
+          return await getFlagState(toolContext, args, request.params._meta?.progressToken);
+
+        case 'toggle_flag_environment':
+          return await toggleFlagEnvironment(
+            toolContext,
+            args,
+            request.params._meta?.progressToken
+          );
+
+        case 'remove_flag_strategy':
+          return await removeFlagStrategy(toolContext, args, request.params._meta?.progressToken);
+
+        case 'update_flag':
+          return await updateFlag(toolContext, args, request.params._meta?.progressToken);
+
+        case 'archive_flag':
+          return await archiveFlag(toolContext, args, request.params._meta?.progressToken);
+
+        case 'revive_flag':
+          return await reviveFlag(toolContext, args, request.params._meta?.progressToken);
+
+        case 'plan_rollout':
+          return await planRollout(toolContext, args, request.params._meta?.progressToken);
+
+        case 'advance_rollout':
+          return await advanceRollout(toolContext, args, request.params._meta?.progressToken);
+
+        case 'set_flag_variants':
+          return await setFlagVariants(toolContext, args, request.params._meta?.progressToken);
+
+        case 'promote_flag':
+          return await promoteFlag(toolContext, args, request.params._meta?.progressToken);
+
+        case 'clone_flag':
+          return await cloneFlag(toolContext, args, request.params._meta?.progressToken);
+
+        case 'manage_flag_tags':
+          return await manageFlagTags(toolContext, args, request.params._meta?.progressToken);
+
+        case 'link_flag':
+          return await linkFlag(toolContext, args, request.params._meta?.progressToken);
+
+        case 'set_flag_dependency':
+          return await setFlagDependency(toolContext, args, request.params._meta?.progressToken);
+
+        case 'list_change_requests':
+          return await listChangeRequests(toolContext, args, request.params._meta?.progressToken);
+
+        case 'submit_change_request':
+          return await submitChangeRequest(toolContext, args, request.params._meta?.progressToken);
+
+        case 'get_flag_metrics':
+          return await getFlagMetrics(toolContext, args, request.params._meta?.progressToken);
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      const toolName = request.params.name || 'unknown';
+      return handleToolError(toolContext, error, toolName);
+    } finally {
+      clearProgress(server, request.params._meta?.progressToken);
+    }
+  });
+
+  return { server, context };
+}
@@ -0,0 +1,463 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import {
+  FeatureDetails,
+  FeatureStrategy,
+  MAX_METRICS_HOURS_BACK,
+  UnleashRequestOptions,
+} from '../unleash/client.js';
+import { findFeatureEnvironment } from '../unleash/environments.js';
+import { EnvironmentMetrics, loadFlagMetrics, percentTrue } from '../unleash/metrics.js';
+import { RolloutPlan, formatRolloutPlan, remainingDwellMinutes } from '../rollout/planStore.js';
+import { CustomError } from '../utils/errors.js';
+import { describeStrategy, findRolloutStrategy } from './setFlagRollout.js';
+
+const advanceRolloutSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  featureName: z.string().min(1).describe('Feature flag name'),
+  environment: z.string().min(1).describe('Environment the plan rolls out in'),
+  healthy: z
+    .boolean()
+    .describe('Whether the current stage is healthy (error rates, latency and business metrics look normal)'),
+  note: z
+    .string()
+    .optional()
+    .describe('What the health check looked at, or why the stage is unhealthy'),
+  resume: z
+    .boolean()
+    .optional()
+    .describe('Resume a halted plan once the problem has been fixed'),
+});
+
+type AdvanceRolloutInput = z.infer<typeof advanceRolloutSchema>;
+
+/**
+ * advance_rollout tool implementation.
+ * Moves a plan created by plan_rollout to its next stage once the current
+ * stage has run for its minimum dwell time and has been reported healthy.
+ * An unhealthy report halts the plan instead.
+ */
+export async function advanceRollout(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: AdvanceRolloutInput = advanceRolloutSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+
+    let action = 'advanced' as 'advanced' | 'halted';
+    let stageMetrics: EnvironmentMetrics | undefined;
+    let previous: RolloutPlan | undefined;
+
+    // Checked and applied under the plan lock, so two concurrent calls cannot
+    // both apply the same stage
+    const plan = await context.rolloutPlans.update(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName,
+      input.environment,
+      async (current) => {
+        if (!current) {
+          throw new CustomError(
+            'ROLLOUT_PLAN_NOT_FOUND',
+            `No rollout plan for ${input.featureName} in ${input.environment}`,
+            'Create one with plan_rollout first.'
+          );
+        }
+
+        if (current.status === 'completed') {
+          throw new CustomError(
+            'ROLLOUT_PLAN_COMPLETED',
+            `Rollout plan "${current.name}" for ${input.featureName} in ${input.environment} is already complete`,
+            'Use plan_rollout to start a new plan.'
+          );
+        }
+
+        if (!input.healthy) {
+          action = 'halted';
+          return {
+            ...current,
+            status: 'halted',
+            haltedReason: input.note ?? 'Reported unhealthy',
+            history: [
+              ...current.history,
+              {
+                stage: current.currentStage,
+                percentage: current.stages[current.currentStage]?.percentage ?? 0,
+                at: new Date().toISOString(),
+                note: `Halted: ${input.note ?? 'reported unhealthy'}`,
+              },
+            ],
+          };
+        }
+
+        if (current.status === 'halted' && !input.resume) {
+          throw new CustomError(
+            'ROLLOUT_PLAN_HALTED',
+            `Rollout plan "${current.name}" was halted: ${current.haltedReason ?? 'reported unhealthy'}`,
+            'Pass resume: true (with healthy: true) once the problem has been fixed.'
+          );
+        }
+
+        const remaining = remainingDwellMinutes(current);
+        if (remaining > 0) {
+          throw new CustomError(
+            'DWELL_TIME_NOT_MET',
+            `Stage ${current.currentStage + 1} (${currentPercentage(current)}%) needs ${remaining} more minute(s) before advancing`,
+            `The stage started at ${current.stageStartedAt} and has a minimum dwell time of ${
+              current.stages[current.currentStage].minDwellMinutes
+            } minutes. Keep monitoring and call advance_rollout again later.`
+          );
+        }
+
+        await notifyProgress(
+          context.server,
+          progressToken,
+          0,
+          100,
+          `Advancing "${input.featureName}" to stage ${current.currentStage + 2} of ${current.stages.length}...`,
+          context.requestId
+        );
+
+        previous = current;
+        // Measured before advancing: the traffic the health report was based on
+        stageMetrics = await loadStageMetrics(context, current, requestOptions);
+        return applyNextStage(context, current, requestOptions, input.note);
+      }
+    );
+
+    if (action === 'halted') {
+      context.logger.warn(`Rollout plan "${plan.name}" for ${input.featureName} halted`);
+
+      return buildResult(context, plan, projectId, 'halted', [
+        `Halted rollout plan "${plan.name}" at ${currentPercentage(plan)}%: ${plan.haltedReason}`,
+        'The rollout percentage was left unchanged. To roll back, lower it with set_flag_rollout or turn the environment off with toggle_flag_environment.',
+        'Once fixed, call advance_rollout with healthy: true and resume: true.',
+      ]);
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `"${input.featureName}" is at ${currentPercentage(plan)}% in "${input.environment}"`,
+      context.requestId
+    );
+
+    return buildResult(
+      context,
+      plan,
+      projectId,
+      'advanced',
+      [...describeStage(context, plan), ...describeStageMetrics(previous ?? plan, stageMetrics)],
+      stageMetrics
+    );
+  } catch (error) {
+    return handleToolError(context, error, 'advance_rollout');
+  }
+}
+
+/**
+ * Apply the stage after plan.currentStage and return the plan as it should be
+ * stored; the caller saves it (under the plan lock).
+ * The first stage takes over the environment's matching flexibleRollout
+ * strategy, or adds one titled after the plan when there is none; later
+ * stages update that same strategy in place.
+ */
+export async function applyNextStage(
+  context: ServerContext,
+  plan: RolloutPlan,
+  requestOptions: UnleashRequestOptions,
+  note?: string
+): Promise<RolloutPlan> {
+  const stageIndex = plan.currentStage + 1;
+  const stage = plan.stages[stageIndex];
+  const feature = await context.unleashClient.getFeature(
+    plan.projectId,
+    plan.featureName,
+    requestOptions
+  );
+  const strategies = findFeatureEnvironment(feature, plan.environment).strategies ?? [];
+
+  let existing: FeatureStrategy | undefined;
+  if (plan.strategyId) {
+    existing = strategies.find((strategy) => strategy.id === plan.strategyId);
+    if (!existing) {
+      throw new CustomError(
+        'ROLLOUT_STRATEGY_MISSING',
+        `Strategy ${plan.strategyId} used by rollout plan "${plan.name}" no longer exists on ${plan.featureName} in ${plan.environment}`,
+        'Call plan_rollout with replace: true to start the plan again.'
+      );
+    }
+  } else {
+    existing = findPlanStrategy(feature, plan);
+
+    const servesEveryone = strategies.find(servesAllUsers);
+    if (servesEveryone) {
+      throw new CustomError(
+        'ROLLOUT_ALREADY_FULL',
+        `${plan.featureName} in ${plan.environment} already serves every user through strategy ${describeStrategy(servesEveryone)}, so a ${stage.percentage}% stage would change nothing`,
+        'Remove that strategy with remove_flag_strategy (or narrow it with constraints) before starting a staged rollout.'
+      );
+    }
+  }
+
+  let strategyId: string;
+  if (existing) {
+    const { id, ...rest } = existing;
+    await context.unleashClient.updateFeatureStrategy(
+      plan.projectId,
+      plan.featureName,
+      plan.environment,
+      id,
+      {
+        ...rest,
+        parameters: { ...existing.parameters, rollout: stage.percentage.toString() },
+      },
+      requestOptions
+    );
+    strategyId = id;
+  } else {
+    const strategy = await context.unleashClient.setFlexibleRolloutStrategy(
+      plan.projectId,
+      plan.featureName,
+      plan.environment,
+      {
+        rolloutPercentage: stage.percentage,
+        title: `Rollout plan: ${plan.name}`,
+      },
+      requestOptions
+    );
+    strategyId = strategy.id;
+  }
+
+  const now = new Date().toISOString();
+
+  return {
+    ...plan,
+    strategyId,
+    currentStage: stageIndex,
+    status: stageIndex === plan.stages.length - 1 ? 'completed' : 'in_progress',
+    stageStartedAt: now,
+    haltedReason: undefined,
+    history: [...plan.history, { stage: stageIndex, percentage: stage.percentage, at: now, note }],
+  };
+}
+
+/**
+ * The flexibleRollout strategy a new plan should take over, matched the way
+ * set_flag_rollout matches one: by groupId, or the environment's only one.
+ */
+function findPlanStrategy(feature: FeatureDetails, plan: RolloutPlan): FeatureStrategy | undefined {
+  try {
+    return findRolloutStrategy(feature, {
+      featureName: plan.featureName,
+      environment: plan.environment,
+    });
+  } catch (error) {
+    if (error instanceof CustomError && error.code === 'NO_MATCHING_STRATEGY') {
+      return undefined;
+    }
+    if (error instanceof CustomError && error.code === 'AMBIGUOUS_STRATEGY') {
+      throw new CustomError(
+        error.code,
+        error.message,
+        'Remove the extra strategies with remove_flag_strategy so one is left for the plan to drive, then try again.'
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether an enabled strategy already turns the flag on for everyone: a
+ * standard strategy, or a flexibleRollout at 100%, without constraints or segments.
+ */
+function servesAllUsers(strategy: FeatureStrategy): boolean {
+  if (strategy.disabled || (strategy.constraints?.length ?? 0) > 0 || (strategy.segments?.length ?? 0) > 0) {
+    return false;
+  }
+
+  return (
+    strategy.name === 'default' ||
+    (strategy.name === 'flexibleRollout' && Number(strategy.parameters?.rollout) >= 100)
+  );
+}
+
+/**
+ * Describe the stage a plan has just moved to, including when it may advance.
+ */
+export function describeStage(context: ServerContext, plan: RolloutPlan): string[] {
+  const prefix = context.config.server.dryRun ? '[DRY RUN] Would move' : 'Moved';
+  const lines = [
+    `${prefix} "${plan.featureName}" in "${plan.environment}" to ${currentPercentage(plan)}% (stage ${
+      plan.currentStage + 1
+    } of ${plan.stages.length}).`,
+  ];
+
+  if (plan.status === 'completed') {
+    lines.push('The rollout plan is complete. Once the flag is no longer needed, use cleanup_flag.');
+  } else {
+    const stage = plan.stages[plan.currentStage];
+    const next = plan.stages[plan.currentStage + 1];
+    const wait =
+      stage.minDwellMinutes > 0 ? `Monitor for at least ${stage.minDwellMinutes} minutes, then call` : 'Call';
+    lines.push(
+      `${wait} advance_rollout with healthy: true to go to ${next.percentage}% (or healthy: false to halt).`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Best-effort evaluations in the plan's environment since the current stage
+ * started (rounded up to whole hours). Undefined before the first stage or
+ * when metrics cannot be loaded.
+ */
+async function loadStageMetrics(
+  context: ServerContext,
+  plan: RolloutPlan,
+  requestOptions: UnleashRequestOptions
+): Promise<EnvironmentMetrics | undefined> {
+  if (plan.currentStage < 0 || !plan.stageStartedAt) {
+    return undefined;
+  }
+
+  const hours = Math.ceil((Date.now() - Date.parse(plan.stageStartedAt)) / 3_600_000);
+  const hoursBack = Math.min(Math.max(hours, 1), MAX_METRICS_HOURS_BACK);
+
+  try {
+    const environments = await loadFlagMetrics(
+      context.unleashClient,
+      plan.projectId,
+      plan.featureName,
+      hoursBack,
+      requestOptions
+    );
+    return environments.find(
+      (env) => env.environment.toLowerCase() === plan.environment.toLowerCase()
+    );
+  } catch (error) {
+    context.logger.warn(`Could not load metrics for flag "${plan.featureName}"`, error);
+    return undefined;
+  }
+}
+
+function describeStageMetrics(plan: RolloutPlan, metrics?: EnvironmentMetrics): string[] {
+  if (!metrics) {
+    return [];
+  }
+
+  if (metrics.total === 0) {
+    return [
+      `Warning: "${plan.featureName}" was not evaluated in "${plan.environment}" during the previous stage, so its health check did not cover the flag. Make sure the services that use it are deployed and reporting metrics before relying on the next stage (get_flag_metrics).`,
+    ];
+  }
+
+  return [
+    `During the previous stage (${currentPercentage(plan)}%) it was evaluated ${metrics.total} times in "${plan.environment}", ${percentTrue(metrics)}% true.`,
+  ];
+}
+
+function currentPercentage(plan: RolloutPlan): number {
+  return plan.stages[plan.currentStage]?.percentage ?? 0;
+}
+
+function buildResult(
+  context: ServerContext,
+  plan: RolloutPlan,
+  projectId: string,
+  action: 'advanced' | 'halted',
+  messageLines: string[],
+  stageMetrics?: EnvironmentMetrics
+): CallToolResult {
+  const { url, resource } = createFlagResourceLink(
+    context.config.unleash.baseUrl,
+    projectId,
+    plan.featureName
+  );
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: [...messageLines, '', formatRolloutPlan(plan), '', `View feature: ${url}`].join('\n'),
+      },
+      {
+        type: 'resource_link',
+        name: plan.featureName,
+        uri: resource.uri,
+        mimeType: resource.mimeType,
+        text: resource.text,
+      },
+    ],
+    structuredContent: {
+      success: true,
+      dryRun: context.config.server.dryRun,
+      action,
+      rolloutPercentage: currentPercentage(plan),
+      plan,
+      stageMetrics,
+      links: {
+        ui: url,
+        resourceUri: resource.uri,
+      },
+    },
+  };
+}
+
+export const advanceRolloutTool = {
+  name: 'advance_rollout',
+  description: `Move a staged rollout plan (created with plan_rollout) to its next stage.
+
+Report the health of the current stage with healthy. If healthy is false the plan is halted and the rollout is left where it is. If healthy is true the next stage's percentage is applied, but only once the current stage has run for its minimum dwell time.
+
+The result reports how often the flag was evaluated in the environment during the stage just finished, and warns when it was not evaluated at all: a healthy report means little if no traffic reached the flag. Check with get_flag_metrics before reporting health.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      environment: {
+        type: 'string',
+        description: 'Environment the plan rolls out in',
+      },
+      healthy: {
+        type: 'boolean',
+        description:
+          'Whether the current stage is healthy (error rates, latency and business metrics look normal)',
+      },
+      note: {
+        type: 'string',
+        description: 'What the health check looked at, or why the stage is unhealthy',
+      },
+      resume: {
+        type: 'boolean',
+        description: 'Resume a halted plan once the problem has been fixed (defaults to false)',
+      },
+    },
+    required: ['featureName', 'environment', 'healthy'],
+  },
+};
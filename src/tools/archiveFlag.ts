@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { FeatureDetails, FeatureEnvironment, FeatureStrategy } from '../unleash/client.js';
+import { CustomError } from '../utils/errors.js';
+
+const archiveFlagSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)'),
+  featureName: z.string().min(1).describe('Feature flag name'),
+  force: z
+    .boolean()
+    .optional()
+    .describe('Archive even if the flag is still partially rolled out in some environment'),
+});
+
+type ArchiveFlagInput = z.infer<typeof archiveFlagSchema>;
+
+type EnvironmentRollout = 'on' | 'off' | 'partial';
+
+interface EnvironmentRolloutState {
+  environment: string;
+  enabled: boolean;
+  rollout: EnvironmentRollout;
+}
+
+/**
+ * archive_flag tool implementation.
+ * Archives a flag once it no longer gates anything: it must be fully on or
+ * fully off in every environment, so archiving (after which SDKs treat it as
+ * off) only changes behaviour that the code cleanup has already settled.
+ */
+export async function archiveFlag(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: ArchiveFlagInput = archiveFlagSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Checking that "${input.featureName}" is fully on or fully off...`,
+      context.requestId
+    );
+
+    const feature: FeatureDetails = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      requestOptions
+    );
+
+    const environments = (feature.environments ?? []).map(describeEnvironmentRollout);
+    const rolloutState = summarizeRollout(environments);
+
+    if (rolloutState === 'partial' && !input.force) {
+      const details = environments
+        .map((env) => `${env.environment}: ${env.rollout}`)
+        .join(', ');
+      throw new CustomError(
+        'FLAG_NOT_SETTLED',
+        `Feature ${input.featureName} is not fully on or fully off in every environment (${details})`,
+        'Finish the rollout or turn the flag off everywhere first (set_flag_rollout, toggle_flag_environment), or pass force: true to archive it anyway.'
+      );
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      50,
+      100,
+      `Archiving "${input.featureName}"...`,
+      context.requestId
+    );
+
+    await context.unleashClient.archiveFeatureFlag(projectId, input.featureName, requestOptions);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `Archived "${input.featureName}"`,
+      context.requestId
+    );
+
+    const { url } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+    const archiveUrl = `${context.config.unleash.baseUrl}/projects/${encodeURIComponent(
+      projectId
+    )}/archive`;
+    const apiUrl = `${context.config.unleash.baseUrl}/api/admin/projects/${encodeURIComponent(
+      projectId
+    )}/features/${encodeURIComponent(input.featureName)}`;
+
+    const messageLines = [
+      context.config.server.dryRun
+        ? `[DRY RUN] Would archive feature flag "${input.featureName}" in project "${projectId}".`
+        : `Archived feature flag "${input.featureName}" in project "${projectId}".`,
+      {
+        partial: `Warning: the flag was still partially rolled out (forced): ${environments
+          .filter((env) => env.rollout === 'partial')
+          .map((env) => env.environment)
+          .join(', ')}`,
+        mixed: `The flag was fully on or fully off in every environment (${environments
+          .map((env) => `${env.environment}: ${env.rollout}`)
+          .join(', ')}).`,
+        on: 'The flag was fully on in every environment.',
+        off: 'The flag was fully off in every environment.',
+      }[rolloutState],
+      'SDKs now evaluate this flag as disabled. Make sure no code still references it.',
+      `To undo, call revive_flag. View archived flags: ${archiveUrl}`,
+      `Admin API: ${apiUrl}`,
+    ];
+
+    const structuredContent = {
+      success: true,
+      dryRun: context.config.server.dryRun,
+      projectId,
+      featureName: input.featureName,
+      archived: true,
+      forced: rolloutState === 'partial',
+      rolloutState,
+      environments,
+      links: {
+        ui: url,
+        archive: archiveUrl,
+        api: apiUrl,
+      },
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+      ],
+      structuredContent,
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'archive_flag');
+  }
+}
+
+function describeEnvironmentRollout(env: FeatureEnvironment): EnvironmentRolloutState {
+  return {
+    environment: env.environment ?? env.name,
+    enabled: env.enabled,
+    rollout: classifyEnvironment(env),
+  };
+}
+
+function classifyEnvironment(env: FeatureEnvironment): EnvironmentRollout {
+  if (!env.enabled) {
+    return 'off';
+  }
+
+  const strategies = env.strategies ?? [];
+  const active = strategies.filter((strategy) => !strategy.disabled);
+
+  // An enabled environment without strategies is served to everyone
+  if (strategies.length === 0) {
+    return 'on';
+  }
+  if (active.length === 0) {
+    return 'off';
+  }
+
+  return active.some(servesEveryone) ? 'on' : 'partial';
+}
+
+function servesEveryone(strategy: FeatureStrategy): boolean {
+  if ((strategy.constraints?.length ?? 0) > 0 || (strategy.segments?.length ?? 0) > 0) {
+    return false;
+  }
+
+  return (
+    strategy.name === 'default' ||
+    (strategy.name === 'flexibleRollout' && Number(strategy.parameters?.rollout) === 100)
+  );
+}
+
+/**
+ * 'mixed' means fully on in some environments and fully off in the others,
+ * which is still safe to archive; 'partial' means some users get the flag
+ * somewhere and others do not.
+ */
+function summarizeRollout(
+  environments: EnvironmentRolloutState[]
+): 'on' | 'off' | 'mixed' | 'partial' {
+  if (environments.some((env) => env.rollout === 'partial')) {
+    return 'partial';
+  }
+  if (environments.every((env) => env.rollout === 'off')) {
+    return 'off';
+  }
+
+  return environments.every((env) => env.rollout === 'on') ? 'on' : 'mixed';
+}
+
+export const archiveFlagTool = {
+  name: 'archive_flag',
+  description: `Archive a feature flag in Unleash once its code has been removed.
+
+The flag must be fully on (served to everyone) or fully off in every environment; otherwise archiving would silently change behaviour for users who still get a partial rollout. Pass force: true to override this check.
+
+Archived flags are evaluated as disabled by SDKs and can be restored with revive_flag. Use this as the final step after cleanup_flag.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      force: {
+        type: 'boolean',
+        description:
+          'Archive even if the flag is still partially rolled out in some environment (defaults to false)',
+      },
+    },
+    required: ['featureName'],
+  },
+};
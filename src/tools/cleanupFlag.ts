@@ -12,17 +12,30 @@
  * 2. Tool returns comprehensive cleanup instructions
  * 3. LLM follows instructions to find and remove flag code
  * 4. LLM reports back with summary of changes
+ * 5. LLM calls cleanup_flag again with codeRemoved: true and is offered
+ *    archiving the flag in Unleash (archive_flag)
+ *
+ * When the project is known, the cleanup instructions report how often SDKs
+ * evaluated the flag in the last day, so the preserved path rests on actual
+ * usage. The other steps point to get_flag_metrics instead of fetching it.
  */
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ServerContext, handleToolError } from '../context.js';
+import { ServerContext, buildRequestOptions, handleToolError } from '../context.js';
 import {
   generateCleanupInstructions,
   generateImportCleanupGuidance,
   PreservePath,
 } from '../templates/cleanupGuidance.js';
 import { detectLanguage, SupportedLanguage } from '../templates/languages.js';
+import {
+  DEFAULT_METRICS_HOURS_BACK,
+  EnvironmentMetrics,
+  formatEnvironmentMetrics,
+  loadFlagMetrics,
+  percentTrue,
+} from '../unleash/metrics.js';
 
 /**
  * Input schema for the cleanup_flag tool
@@ -50,6 +63,18 @@ const cleanupFlagInputSchema = z.object({
     .describe(
       'Optional: Programming language hint for language-specific guidance (auto-detected from files if not provided)'
     ),
+  codeRemoved: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set to true once the flag code has been removed to get the final step: archiving the flag in Unleash'
+    ),
+  projectId: z
+    .string()
+    .optional()
+    .describe(
+      'Optional: Project ID of the flag, used to look up its usage and when offering to archive it'
+    ),
 });
 
 type CleanupFlagInput = z.infer<typeof cleanupFlagInputSchema>;
@@ -76,11 +101,20 @@ export async function cleanupFlag(
       language: input.language,
     });
 
+    const projectId = input.projectId ?? context.config.unleash.defaultProject;
+
+    // Code removal is done: the only step left is archiving the flag in Unleash
+    if (input.codeRemoved) {
+      return buildArchiveGuidance(input.flagName, projectId);
+    }
+
     // If preservePath not provided, return instructions to ask the user
     if (!input.preservePath) {
       return buildAskUserGuidance(input.flagName, input.files);
     }
 
+    const usage = await loadUsage(context, input.flagName, projectId);
+
     // Detect language if files provided and language not specified
     let detectedLanguage: SupportedLanguage | undefined;
     if (input.files && input.files.length > 0 && !input.language) {
@@ -110,7 +144,8 @@ export async function cleanupFlag(
       input.preservePath as PreservePath,
       cleanupInstructions,
       importGuidance,
-      input.files
+      input.files,
+      usage
     );
 
     context.logger.info(
@@ -130,6 +165,7 @@ export async function cleanupFlag(
         preservePath: input.preservePath,
         targetFiles: input.files,
         detectedLanguage,
+        usage: usage && summarizeUsage(usage),
       },
     };
   } catch (error) {
@@ -191,6 +227,7 @@ Before asking, you may want to:
 1. Search for the flag to see how it's being used
 2. Check recent commits to understand the flag's history
 3. Look at the code paths to explain what each choice means
+4. Call \`get_flag_metrics\` to see which value users currently get
 
 This context can help the user make an informed decision.
 `;
@@ -212,6 +249,134 @@ This context can help the user make an informed decision.
   };
 }
 
+/**
+ * Build guidance offering to archive the flag now that its code is gone
+ */
+function buildArchiveGuidance(flagName: string, projectId?: string): CallToolResult {
+  const archiveCall = `archive_flag({
+  featureName: "${flagName}",${projectId ? `\n  projectId: "${projectId}",` : ''}
+})`;
+
+  const guidance = `# Feature Flag Cleanup: "${flagName}"
+
+## Final Step: Archive the Flag in Unleash
+
+The code for **"${flagName}"** has been removed, but the flag still exists in Unleash. Archiving it keeps the flag list accurate and stops SDKs from fetching it.
+
+Before asking, call \`get_flag_metrics\` for the flag. If SDKs still evaluated it recently, deployed code still checks it, and once archived those checks return false: recommend **"Not yet"** until the cleanup has been deployed and the evaluations stop.
+
+---
+
+## Ask the User
+
+Use the **AskUserQuestion** tool to confirm:
+
+**Question**: "The '${flagName}' flag code is removed. Archive the flag in Unleash now?"
+
+**Options**:
+1. **"Archive now"** - Recommended once the cleanup has been merged and deployed everywhere the flag was evaluated
+2. **"Not yet"** - Keep the flag until the cleanup has been deployed; older deployments still evaluate it
+
+---
+
+## If the User Agrees
+
+\`\`\`
+${archiveCall}
+\`\`\`
+
+\`archive_flag\` checks that the flag is fully on or fully off in every environment before archiving. If it reports a partial rollout, finish the rollout (or turn the flag off) first so archiving does not change what users see. An archived flag can be restored with \`revive_flag\`.
+`;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: guidance,
+      },
+    ],
+    structuredContent: {
+      success: true,
+      requiresUserInput: true,
+      flagName,
+      projectId,
+      nextStep: 'Ask user whether to archive the flag, then call archive_flag',
+    },
+  };
+}
+
+/**
+ * Best-effort usage of the flag over the last day. Skipped when no project is
+ * known; a failure is logged and leaves the guidance without usage.
+ */
+async function loadUsage(
+  context: ServerContext,
+  flagName: string,
+  projectId?: string
+): Promise<EnvironmentMetrics[] | undefined> {
+  if (!projectId) {
+    return undefined;
+  }
+
+  try {
+    return await loadFlagMetrics(
+      context.unleashClient,
+      projectId,
+      flagName,
+      DEFAULT_METRICS_HOURS_BACK,
+      buildRequestOptions(context)
+    );
+  } catch (error) {
+    context.logger.warn(`Could not load metrics for flag "${flagName}"`, error);
+    return undefined;
+  }
+}
+
+function summarizeUsage(usage: EnvironmentMetrics[]) {
+  return {
+    hoursBack: DEFAULT_METRICS_HOURS_BACK,
+    totalEvaluations: usage.reduce((sum, env) => sum + env.total, 0),
+    environments: usage,
+  };
+}
+
+/**
+ * Per-environment evaluations and what they say about the path to keep. Warns
+ * when the flag still returns the other value.
+ */
+function formatUsageSection(usage: EnvironmentMetrics[], preservePath: PreservePath): string {
+  const evaluated = usage.filter((env) => env.total > 0);
+  const lines = usage.map((env) => `- ${formatEnvironmentMetrics(env)}`).join('\n');
+
+  let reading: string;
+  if (evaluated.length === 0) {
+    reading = `No SDK evaluated the flag in the last ${DEFAULT_METRICS_HOURS_BACK} hours, so no running service depends on either path right now.`;
+  } else if (evaluated.every((env) => percentTrue(env) >= 99)) {
+    reading = 'Every evaluation returned true: users currently get the **enabled** path.';
+  } else if (evaluated.every((env) => percentTrue(env) <= 1)) {
+    reading = 'Every evaluation returned false: users currently get the **disabled** path.';
+  } else {
+    reading =
+      'The flag still returns both true and false, so it is not fully rolled out. Removing it changes behaviour for some users; finish the rollout (or turn the flag off) first.';
+  }
+
+  const mismatched = evaluated.filter((env) =>
+    preservePath === 'enabled' ? percentTrue(env) < 99 : percentTrue(env) > 1
+  );
+  const warning =
+    mismatched.length > 0
+      ? `\n\n⚠️ **Check with the user**: you are preserving the **${preservePath}** path, but in ${mismatched
+          .map((env) => `"${env.environment}" ${percentTrue(env)}%`)
+          .join(', ')} of evaluations returned true. Users there will see different behaviour once the cleanup ships.`
+      : '';
+
+  return `### Usage in Unleash (last ${DEFAULT_METRICS_HOURS_BACK} hours)
+
+${lines}
+
+${reading}${warning}`;
+}
+
 /**
  * Build complete cleanup guidance document
  */
@@ -220,7 +385,8 @@ function buildCleanupGuidance(
   preservePath: PreservePath,
   cleanupInstructions: string,
   importGuidance: string,
-  files?: string[]
+  files?: string[],
+  usage?: EnvironmentMetrics[]
 ): string {
   const scope = files && files.length > 0
     ? `in ${files.length} specific file(s)`
@@ -240,7 +406,7 @@ You are removing the feature flag **"${flagName}"** ${scope}.
 **Preserve Path**: ${pathEmoji} **${preservePath.toUpperCase()}**
 
 This means ${preserveDescription}.
-
+${usage ? `\n${formatUsageSection(usage, preservePath)}\n` : ''}
 ---
 
 ${cleanupInstructions}
@@ -256,6 +422,7 @@ After completing the cleanup:
 2. **Test**: Run tests to ensure functionality is preserved
 3. **Review**: Check complex cases manually
 4. **Report**: Provide a summary of files changed and any issues found
+5. **Archive**: Call \`cleanup_flag\` again with \`codeRemoved: true\` to retire the flag in Unleash
 
 **Remember**: You're preserving the **${preservePath}** path and removing the **${preservePath === 'enabled' ? 'disabled' : 'enabled'}** path.
 
@@ -295,6 +462,7 @@ It guides you through:
 3. Follow the returned instructions to search and remove flag code
 4. Clean up imports and test the changes
 5. Report summary of changes
+6. Call this tool again with codeRemoved: true to be offered archiving the flag in Unleash (archive_flag)
 
 **Safety Features**:
 - Comprehensive pattern identification (handles if-else, ternary, guards, etc.)
@@ -302,6 +470,7 @@ It guides you through:
 - Post-cleanup verification steps
 - Test execution reminders
 - Import cleanup guidance
+- Usage from Unleash metrics: the cleanup instructions report how often the flag was evaluated in the last 24 hours and which value it returned, and warn when that is not the path being preserved
 
 This tool is inspired by the Unleash AI flag cleanup workflow used in production.
 See: https://github.com/Unleash/unleash/blob/main/.github/workflows/ai-flag-cleanup-pr.yml`,
@@ -329,6 +498,16 @@ See: https://github.com/Unleash/unleash/blob/main/.github/workflows/ai-flag-clea
         description:
           'Optional: Programming language for specialized guidance (e.g., "typescript", "python", "go"). Auto-detected from files if not provided.',
       },
+      codeRemoved: {
+        type: 'boolean',
+        description:
+          'Optional: Set to true after the flag code has been removed and the cleanup reported done. Returns the final step: archiving the flag in Unleash with archive_flag.',
+      },
+      projectId: {
+        type: 'string',
+        description:
+          'Optional: Project ID of the flag, used to report how often it is still evaluated and when offering to archive it (defaults to UNLEASH_DEFAULT_PROJECT)',
+      },
     },
     required: ['flagName'],
   },
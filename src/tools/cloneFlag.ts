@@ -0,0 +1,325 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import {
+  FeatureDetails,
+  FeatureFlagType,
+  FeatureTag,
+  UnleashRequestOptions,
+} from '../unleash/client.js';
+import { copyStrategy } from '../unleash/strategyDiff.js';
+import { CustomError, normalizeError } from '../utils/errors.js';
+
+const cloneFlagSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project of the flag to clone (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  featureName: z.string().min(1).describe('Name of the flag to clone'),
+  newName: z.string().min(1).describe('Name of the new flag'),
+  targetProjectId: z
+    .string()
+    .optional()
+    .describe('Project for the new flag (defaults to the source project)'),
+  description: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Description for the new flag (defaults to the source description)'),
+});
+
+type CloneFlagInput = z.infer<typeof cloneFlagSchema>;
+
+interface ClonedEnvironment {
+  environment: string;
+  strategies: number;
+  variants: number;
+}
+
+/**
+ * clone_flag tool implementation.
+ * Creates a new flag from an existing one's setup: type, description, tags,
+ * impression data and the strategies and variants of every environment. The
+ * clone starts disabled everywhere, like any new flag.
+ */
+export async function cloneFlag(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: CloneFlagInput = cloneFlagSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const targetProjectId = input.targetProjectId ?? projectId;
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Reading "${input.featureName}"...`,
+      context.requestId
+    );
+
+    const source = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      requestOptions
+    );
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      20,
+      100,
+      `${mode}Creating "${input.newName}" in project "${targetProjectId}"...`,
+      context.requestId
+    );
+
+    try {
+      await context.unleashClient.createFeatureFlag(
+        targetProjectId,
+        {
+          name: input.newName,
+          type: (source.type ?? 'release') as FeatureFlagType,
+          description: input.description ?? source.description ?? '',
+          impressionData: source.impressionData ?? false,
+        },
+        requestOptions
+      );
+    } catch (error) {
+      if (normalizeError(error).code === 'HTTP_409') {
+        throw new CustomError(
+          'HTTP_409',
+          `A feature flag named ${input.newName} already exists`,
+          'Flag names are unique across all projects, including archived flags. Try a different newName, or use get_flag_state to inspect the existing flag.'
+        );
+      }
+      throw error;
+    }
+
+    const tags = (source.tags ?? []).filter((tag): tag is FeatureTag =>
+      Boolean(tag.type && tag.value)
+    );
+    let environments: ClonedEnvironment[] = [];
+    let skipped: string[] = [];
+    try {
+      if (tags.length > 0) {
+        await context.unleashClient.updateFeatureTags(
+          targetProjectId,
+          input.newName,
+          { addedTags: tags, removedTags: [] },
+          requestOptions
+        );
+      }
+
+      await notifyProgress(
+        context.server,
+        progressToken,
+        50,
+        100,
+        `${mode}Copying strategies to "${input.newName}"...`,
+        context.requestId
+      );
+
+      ({ environments, skipped } = await copyEnvironments(
+        context,
+        source,
+        input,
+        targetProjectId,
+        requestOptions
+      ));
+    } catch (error) {
+      const { message } = normalizeError(error);
+      throw new CustomError(
+        'CLONE_INCOMPLETE',
+        `Created ${input.newName} in project ${targetProjectId}, but copying its configuration failed: ${message}`,
+        'Inspect the new flag with get_flag_state and finish the setup with set_flag_rollout or promote_flag, or archive it with archive_flag and clone again.'
+      );
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `${mode}Cloned "${input.featureName}" to "${input.newName}"`,
+      context.requestId
+    );
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      targetProjectId,
+      input.newName
+    );
+
+    const messageLines = [
+      context.config.server.dryRun
+        ? `[DRY RUN] Would clone "${input.featureName}" to "${input.newName}" in project "${targetProjectId}".`
+        : `Cloned "${input.featureName}" to "${input.newName}" in project "${targetProjectId}".`,
+      `Type: ${source.type ?? 'release'}, impression data: ${source.impressionData ? 'on' : 'off'}`,
+      ...(tags.length > 0
+        ? [`Tags: ${tags.map((tag) => `${tag.type}:${tag.value}`).join(', ')}`]
+        : []),
+      ...environments.map(
+        (env) =>
+          `- ${env.environment}: ${env.strategies} strategies${env.variants > 0 ? `, ${env.variants} variants` : ''}`
+      ),
+      ...(skipped.length > 0
+        ? [`Not copied (environment not available in project "${targetProjectId}"): ${skipped.join(', ')}`]
+        : []),
+      'The new flag is disabled in every environment; enable it with toggle_flag_environment when ready.',
+      `View feature: ${url}`,
+    ];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.newName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        source: { projectId, featureName: input.featureName },
+        feature: {
+          name: input.newName,
+          project: targetProjectId,
+          type: source.type ?? 'release',
+          impressionData: source.impressionData ?? false,
+          tags,
+        },
+        environments,
+        skippedEnvironments: skipped,
+        links: {
+          ui: url,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'clone_flag');
+  }
+}
+
+/**
+ * Recreate each source environment's strategies and variants on the clone.
+ * A groupId equal to the source flag name is switched to the new name so the
+ * clone buckets users independently of the original.
+ */
+async function copyEnvironments(
+  context: ServerContext,
+  source: FeatureDetails,
+  input: CloneFlagInput,
+  targetProjectId: string,
+  requestOptions: UnleashRequestOptions
+): Promise<{ environments: ClonedEnvironment[]; skipped: string[] }> {
+  const clone = await context.unleashClient.getFeature(
+    targetProjectId,
+    input.newName,
+    requestOptions
+  );
+
+  const environments: ClonedEnvironment[] = [];
+  const skipped: string[] = [];
+
+  for (const env of source.environments ?? []) {
+    const strategies = env.strategies ?? [];
+    const variants = env.variants ?? [];
+    if (strategies.length === 0 && variants.length === 0) {
+      continue;
+    }
+
+    const name = env.environment ?? env.name;
+    const target = clone.environments?.find(
+      (candidate) => (candidate.environment ?? candidate.name).toLowerCase() === name.toLowerCase()
+    );
+    if (!target) {
+      skipped.push(name);
+      continue;
+    }
+
+    for (const strategy of strategies) {
+      const copy = copyStrategy(strategy);
+      if (copy.parameters.groupId === input.featureName) {
+        copy.parameters.groupId = input.newName;
+      }
+      await context.unleashClient.addFeatureStrategy(
+        targetProjectId,
+        input.newName,
+        target.name,
+        copy,
+        requestOptions
+      );
+    }
+
+    if (variants.length > 0) {
+      await context.unleashClient.setEnvironmentVariants(
+        targetProjectId,
+        input.newName,
+        target.name,
+        variants,
+        requestOptions
+      );
+    }
+
+    environments.push({
+      environment: target.name,
+      strategies: strategies.length,
+      variants: variants.length,
+    });
+  }
+
+  return { environments, skipped };
+}
+
+export const cloneFlagTool = {
+  name: 'clone_flag',
+  description: `Create a new feature flag from an existing one's setup.
+
+Copies the type, description, tags, impression data and every environment's strategies (with constraints, segments and strategy variants) and variants to a new flag name, optionally in another project. The clone starts disabled in every environment. Fails with HTTP_409 if the new name is already taken.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project of the flag to clone (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Name of the flag to clone',
+      },
+      newName: {
+        type: 'string',
+        description: 'Name of the new flag',
+      },
+      targetProjectId: {
+        type: 'string',
+        description: 'Project for the new flag (defaults to the source project)',
+      },
+      description: {
+        type: 'string',
+        description: 'Description for the new flag (defaults to the source description)',
+      },
+    },
+    required: ['featureName', 'newName'],
+  },
+};
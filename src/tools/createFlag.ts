@@ -1,8 +1,18 @@
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ServerContext, ensureProjectId, handleToolError } from '../context.js';
-import { FeatureFlagType } from '../unleash/client.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { FeatureFlagType, FeatureTag } from '../unleash/client.js';
+import { featureTagSchema, formatTag } from '../unleash/tags.js';
+import { featureLinkSchema, formatLink } from '../unleash/links.js';
 import { notifyProgress, createFlagResourceLink, formatFlagCreatedMessage } from '../utils/streaming.js';
+import { CustomError, normalizeError } from '../utils/errors.js';
+import { ensureTagTypes } from './manageFlagTags.js';
+import { addFeatureLinks } from './linkFlag.js';
 
 /**
  * Input schema for the create_flag tool.
@@ -15,6 +25,8 @@ const createFeatureFlagSchema = z.object({
     .describe('Feature flag type - determines the lifecycle and usage pattern'),
   description: z.string().min(1).describe('Clear description of what this flag controls and why it exists'),
   impressionData: z.boolean().optional().describe('Enable impression data collection for analytics (optional)'),
+  tags: z.array(featureTagSchema).optional().describe('Tags to attach to the new flag, e.g. owning squad (optional)'),
+  links: z.array(featureLinkSchema).optional().describe('External links to attach, e.g. PR or ticket URL (optional)'),
 });
 
 type CreateFeatureFlagInput = z.infer<typeof createFeatureFlagSchema>;
@@ -46,6 +58,15 @@ export async function createFlag(
 
     // Ensure project ID is available
     const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const tags: FeatureTag[] = input.tags ?? [];
+    const links = input.links ?? [];
+
+    // Check tag types up front so a typo doesn't leave an untagged flag behind
+    if (tags.length > 0) {
+      const tagTypes = await context.unleashClient.listTagTypes(requestOptions);
+      await ensureTagTypes(context, tags, tagTypes, false, requestOptions);
+    }
 
     context.logger.info(`Creating feature flag "${input.name}" in project "${projectId}"`);
 
@@ -55,16 +76,43 @@ export async function createFlag(
       progressToken,
       0,
       100,
-      `Creating feature flag "${input.name}"...`
+      `Creating feature flag "${input.name}"...`,
+      context.requestId
     );
 
     // Call Unleash API to create the flag
-    const response = await context.unleashClient.createFeatureFlag(projectId, {
-      name: input.name,
-      type: input.type as FeatureFlagType,
-      description: input.description,
-      impressionData: input.impressionData,
-    });
+    const response = await context.unleashClient.createFeatureFlag(
+      projectId,
+      {
+        name: input.name,
+        type: input.type as FeatureFlagType,
+        description: input.description,
+        impressionData: input.impressionData,
+      },
+      requestOptions
+    );
+
+    // Tags and links are separate endpoints; attach them once the flag exists
+    try {
+      if (tags.length > 0) {
+        await context.unleashClient.updateFeatureTags(
+          projectId,
+          response.name,
+          { addedTags: tags, removedTags: [] },
+          requestOptions
+        );
+      }
+      if (links.length > 0) {
+        await addFeatureLinks(context, projectId, response.name, links, [], requestOptions);
+      }
+    } catch (error) {
+      const { message } = normalizeError(error);
+      throw new CustomError(
+        'FLAG_SETUP_INCOMPLETE',
+        `Created feature flag ${response.name} in project ${projectId}, but attaching its tags or links failed: ${message}`,
+        'Add them with manage_flag_tags and link_flag; the flag itself does not need to be created again.'
+      );
+    }
 
     // Notify progress: Complete
     await notifyProgress(
@@ -72,7 +120,8 @@ export async function createFlag(
       progressToken,
       100,
       100,
-      `Feature flag "${input.name}" created successfully`
+      `Feature flag "${input.name}" created successfully`,
+      context.requestId
     );
 
     // Create resource link
@@ -83,12 +132,11 @@ export async function createFlag(
     );
 
     // Format success message
-    const message = formatFlagCreatedMessage(
-      response.name,
-      projectId,
-      url,
-      context.config.server.dryRun
-    );
+    const message = [
+      formatFlagCreatedMessage(response.name, projectId, url, context.config.server.dryRun),
+      ...(tags.length > 0 ? [`Tags: ${tags.map(formatTag).join(', ')}`] : []),
+      ...(links.length > 0 ? [`Links: ${links.map(formatLink).join(', ')}`] : []),
+    ].join('\n');
 
     context.logger.info(message);
 
@@ -104,6 +152,8 @@ export async function createFlag(
         description: response.description,
         impressionData: response.impressionData,
         createdAt: response.createdAt,
+        tags,
+        links,
       },
       links: {
         ui: url,
@@ -180,6 +230,32 @@ See: https://docs.getunleash.io/topics/feature-flags/best-practices-using-featur
         type: 'boolean',
         description: 'Enable impression data collection for analytics (optional, defaults to false)',
       },
+      tags: {
+        type: 'array',
+        description:
+          'Tags to attach to the new flag (optional), e.g. [{"type": "simple", "value": "checkout"}]. Tag types must already exist; list them with manage_flag_tags.',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', description: 'Tag type, e.g. "simple"' },
+            value: { type: 'string', description: 'Tag value (2-50 characters)' },
+          },
+          required: ['type', 'value'],
+        },
+      },
+      links: {
+        type: 'array',
+        description:
+          'External links to attach (optional), e.g. the PR, ticket or file location for the change',
+        items: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', description: 'Absolute http(s) URL' },
+            title: { type: 'string', description: 'Short label, e.g. "PR #123" (optional)' },
+          },
+          required: ['url'],
+        },
+      },
     },
     required: ['name', 'type', 'description'],
   },
@@ -206,6 +206,11 @@ function buildParentFlagSection(): string {
         result: 'No new flag needed',
         reasoning: 'Code is already protected by existing flag',
       },
+      {
+        condition: 'Parent flag found, but this change must be rolled out or turned off on its own',
+        result: 'New flag with a dependency on the parent',
+        reasoning: 'Create the child flag, then call set_flag_dependency so Unleash only evaluates it when the parent is on. Check only the child in code instead of nesting flag checks',
+      },
       {
         condition: 'Surrounding code or lineNumber not provided',
         result: 'Cannot determine parent coverage',
@@ -219,6 +224,15 @@ function buildParentFlagSection(): string {
     ])
   );
 
+  content += pb.subsection(
+    'Nested Checks vs. Flag Dependencies',
+    pb.list([
+      `A nested check (${pb.inlineCode('if (parent) { if (child) { ... } }')}) hides the relationship in code: nobody toggling the parent in Unleash can see that the child relies on it, and cleanup has to untangle both.`,
+      `A formal dependency (${pb.inlineCode('set_flag_dependency')}) records it in Unleash: the child is only enabled when the parent is enabled (optionally on specific parent variants), the UI shows the link, and the code checks a single flag.`,
+      'Dependencies are one level deep and both flags must be in the same project.',
+    ])
+  );
+
   return content;
 }
 
@@ -303,6 +317,7 @@ function buildOutputFormatSection(): string {
       confidence: 'number (0.0 to 1.0, only for detect_flag_tool)',
     },
     suggestedFlag: 'string (descriptive flag name) | null',
+    parentFlag: 'string (existing flag the new flag should depend on) | null',
     riskLevel: 'low | medium | high | critical',
     riskScore: 'number (calculated score)',
     explanation: 'string (clear reasoning)',
@@ -320,6 +335,7 @@ function buildOutputFormatSection(): string {
       `${pb.inlineCode('recommendation')}: What action to take next (use_existing, create_new, or no_flag_needed)`,
       `${pb.inlineCode('existingFlag')}: If covered by parent flag OR found by detect_flag, provide details including detectionMethod`,
       `${pb.inlineCode('suggestedFlag')}: If new flag needed, suggest a descriptive name`,
+      `${pb.inlineCode('parentFlag')}: If the new flag only makes sense while an existing flag is on, name that flag so a dependency is created instead of a nested check`,
       `${pb.inlineCode('riskLevel')}: Assessed risk level`,
       `${pb.inlineCode('riskScore')}: Numerical risk score you calculated`,
       `${pb.inlineCode('explanation')}: Clear, detailed reasoning for your decision`,
@@ -365,6 +381,7 @@ function buildNextActionsSection(): string {
             `${pb.inlineCode('type')}: Choose based on the Flag Type Selection guidance below`,
             `${pb.inlineCode('description')}: Clear explanation of what this flag controls and why`,
           ], true) + '\n\n' +
+          `If ${pb.inlineCode('parentFlag')} is set, call ${pb.inlineCode('set_flag_dependency')} with the new flag as ${pb.inlineCode('featureName')} and ${pb.inlineCode('parentFlag')} as ${pb.inlineCode('parentFeature')}, and check only the new flag in code.\n\n` +
           `Then proceed to Step 2 with the newly created flag name.`,
       },
       {
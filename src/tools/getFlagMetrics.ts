@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { MAX_METRICS_HOURS_BACK } from '../unleash/client.js';
+import {
+  DEFAULT_METRICS_HOURS_BACK,
+  formatEnvironmentMetrics,
+  loadFlagMetrics,
+  metricsHoursBackSchema,
+} from '../unleash/metrics.js';
+
+const getFlagMetricsSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  featureName: z.string().min(1).describe('Feature flag name'),
+  environment: z
+    .string()
+    .optional()
+    .describe('Optional environment filter to focus on a single environment'),
+  hoursBack: metricsHoursBackSchema.default(DEFAULT_METRICS_HOURS_BACK),
+});
+
+type GetFlagMetricsInput = z.infer<typeof getFlagMetricsSchema>;
+
+/**
+ * get_flag_metrics tool implementation.
+ * Reports how often SDKs evaluated a flag per environment over the last hours:
+ * true/false counts, variants served and the applications asking.
+ */
+export async function getFlagMetrics(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: GetFlagMetricsInput = getFlagMetricsSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Fetching metrics for "${input.featureName}" over the last ${input.hoursBack} hours...`,
+      context.requestId
+    );
+
+    let environments = await loadFlagMetrics(
+      context.unleashClient,
+      projectId,
+      input.featureName,
+      input.hoursBack,
+      buildRequestOptions(context, progressToken)
+    );
+
+    if (input.environment) {
+      environments = environments.filter(
+        (env) => env.environment.toLowerCase() === input.environment!.toLowerCase()
+      );
+    }
+
+    const totalEvaluations = environments.reduce((sum, env) => sum + env.total, 0);
+    const evaluatedIn = environments.filter((env) => env.total > 0);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `"${input.featureName}" was evaluated ${totalEvaluations} times`,
+      context.requestId
+    );
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+
+    const messageLines = [
+      `${context.config.server.dryRun ? '[DRY RUN] ' : ''}Evaluations of "${input.featureName}" in the last ${input.hoursBack} hours:`,
+      ...(environments.length > 0
+        ? environments.map((env) => `- ${formatEnvironmentMetrics(env)}`)
+        : ['- No environments matched the provided filters.']),
+      '',
+      evaluatedIn.length > 0
+        ? `Evaluated in ${evaluatedIn.length} of ${environments.length} environment(s).`
+        : `No SDK evaluated "${input.featureName}" in this window. Either no deployed code checks it any more, or the services that do are not running or not reporting metrics; check lastSeenAt and the code before relying on it.`,
+      `View feature: ${url}`,
+    ];
+
+    context.logger.info(
+      `Retrieved metrics for "${input.featureName}" (${totalEvaluations} evaluations in ${input.hoursBack}h)`
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        projectId,
+        featureName: input.featureName,
+        environmentFilter: input.environment,
+        hoursBack: input.hoursBack,
+        evaluated: totalEvaluations > 0,
+        totalEvaluations,
+        environments,
+        links: {
+          ui: url,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'get_flag_metrics');
+  }
+}
+
+export const getFlagMetricsTool = {
+  name: 'get_flag_metrics',
+  description: `Show how often SDKs evaluated a feature flag, per environment, over the last hours (Unleash client metrics).
+
+Reports true/false counts, the variants served and the applications that evaluated the flag. Use it to check whether a flag is still in use before cleanup_flag or archive_flag, and whether a rollout stage actually received traffic before advance_rollout. A flag with no evaluations is either no longer checked by deployed code or only checked by services that are not running.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      environment: {
+        type: 'string',
+        description: 'Optional environment filter (case-insensitive)',
+      },
+      hoursBack: {
+        type: 'number',
+        minimum: 1,
+        maximum: MAX_METRICS_HOURS_BACK,
+        description: `How many hours of metrics to include (1-${MAX_METRICS_HOURS_BACK}, defaults to ${DEFAULT_METRICS_HOURS_BACK})`,
+      },
+    },
+    required: ['featureName'],
+  },
+};
@@ -1,8 +1,14 @@
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ServerContext, ensureProjectId, handleToolError } from '../context.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
 import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
 import { FeatureDetails, FeatureEnvironment } from '../unleash/client.js';
+import { formatDependency } from '../unleash/dependencies.js';
 
 const getFlagStateSchema = z.object({
   projectId: z
@@ -41,10 +47,15 @@ export async function getFlagState(
       progressToken,
       0,
       100,
-      `Fetching feature "${input.featureName}" in project "${projectId}"...`
+      `Fetching feature "${input.featureName}" in project "${projectId}"...`,
+      context.requestId
     );
 
-    const feature = await context.unleashClient.getFeature(projectId, input.featureName);
+    const feature = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      buildRequestOptions(context, progressToken)
+    );
 
     let environments = feature.environments ?? [];
 
@@ -61,7 +72,8 @@ export async function getFlagState(
       progressToken,
       100,
       100,
-      `Fetched feature "${input.featureName}" (${environments.length} environment${environments.length === 1 ? '' : 's'} considered)`
+      `Fetched feature "${input.featureName}" (${environments.length} environment${environments.length === 1 ? '' : 's'} considered)`,
+      context.requestId
     );
 
     const { url, resource } = createFlagResourceLink(
@@ -83,6 +95,12 @@ export async function getFlagState(
       `Feature "${feature.name}" (${feature.type ?? 'unknown type'})`,
       `Enabled: ${feature.enabled ? 'yes' : 'no'} • Archived: ${feature.archived ? 'yes' : 'no'} • Impression data: ${feature.impressionData ? 'on' : 'off'}`,
       `Project: ${feature.project ?? projectId}`,
+      ...(feature.dependencies && feature.dependencies.length > 0
+        ? [`Depends on: ${feature.dependencies.map(formatDependency).join(', ')}`]
+        : []),
+      ...(feature.children && feature.children.length > 0
+        ? [`Required by: ${feature.children.join(', ')}`]
+        : []),
       `Environments:\n${environmentSummaries}`,
       `View feature: ${url}`,
       `Admin API: ${apiUrl}`,
@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { FeatureLink, UnleashRequestOptions } from '../unleash/client.js';
+import { FeatureLinkInput, featureLinkSchema, formatLink } from '../unleash/links.js';
+
+const linkFlagSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  featureName: z.string().min(1).describe('Feature flag name'),
+  links: z
+    .array(featureLinkSchema)
+    .min(1)
+    .describe('Links to attach, e.g. the pull request, ticket or file location'),
+});
+
+type LinkFlagInput = z.infer<typeof linkFlagSchema>;
+
+/**
+ * link_flag tool implementation.
+ * Attaches external links (PR, ticket, file location) to a flag so people
+ * looking at it in Unleash can find the code and the decision behind it.
+ * URLs that are already linked are left alone.
+ */
+export async function linkFlag(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: LinkFlagInput = linkFlagSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Reading links of "${input.featureName}"...`,
+      context.requestId
+    );
+
+    const feature = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      requestOptions
+    );
+    const existing = feature.links ?? [];
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      30,
+      100,
+      `${mode}Linking ${input.links.length} URL(s) to "${input.featureName}"...`,
+      context.requestId
+    );
+
+    const { added, skipped } = await addFeatureLinks(
+      context,
+      projectId,
+      input.featureName,
+      input.links,
+      existing,
+      requestOptions
+    );
+
+    let links = existing;
+    if (added.length > 0) {
+      const updated = await context.unleashClient.getFeature(
+        projectId,
+        input.featureName,
+        requestOptions
+      );
+      links = updated.links ?? [];
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `${mode}Linked ${added.length} URL(s) to "${input.featureName}"`,
+      context.requestId
+    );
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+
+    const messageLines = [
+      added.length > 0
+        ? `${mode ? '[DRY RUN] Would link' : 'Linked'} ${added.length} URL(s) to "${input.featureName}":`
+        : `No new links for "${input.featureName}".`,
+      ...added.map((link) => `- ${formatLink(link)}`),
+      ...(skipped.length > 0
+        ? [`Already linked: ${skipped.map((link) => link.url).join(', ')}`]
+        : []),
+      `All links: ${links.length}`,
+      `View feature: ${url}`,
+    ];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        projectId,
+        featureName: input.featureName,
+        added,
+        skipped,
+        featureLinks: links,
+        links: {
+          ui: url,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'link_flag');
+  }
+}
+
+/**
+ * Add each link whose URL is not already on the flag, in order.
+ * Shared with create_flag, which links a brand-new flag.
+ */
+export async function addFeatureLinks(
+  context: ServerContext,
+  projectId: string,
+  featureName: string,
+  links: FeatureLinkInput[],
+  existing: FeatureLink[],
+  requestOptions: UnleashRequestOptions
+): Promise<{ added: FeatureLinkInput[]; skipped: FeatureLinkInput[] }> {
+  const seen = new Set(existing.map((link) => link.url));
+  const added: FeatureLinkInput[] = [];
+  const skipped: FeatureLinkInput[] = [];
+
+  for (const link of links) {
+    if (seen.has(link.url)) {
+      skipped.push(link);
+      continue;
+    }
+
+    await context.unleashClient.addFeatureLink(projectId, featureName, link, requestOptions);
+    seen.add(link.url);
+    added.push(link);
+  }
+
+  return { added, skipped };
+}
+
+export const linkFlagTool = {
+  name: 'link_flag',
+  description: `Attach external links to a feature flag, such as the pull request, the ticket or the file location of the code it guards.
+
+Links appear on the flag in Unleash, so whoever toggles or cleans up the flag can find the change behind it. URLs already linked to the flag are skipped. Use after create_flag and wrap_change, once the PR or ticket exists.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      links: {
+        type: 'array',
+        description: 'Links to attach',
+        items: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              description: 'Absolute http(s) URL, e.g. https://github.com/org/repo/pull/123',
+            },
+            title: {
+              type: 'string',
+              description: 'Short label, e.g. "PR #123" or "JIRA-42" (optional)',
+            },
+          },
+          required: ['url'],
+        },
+      },
+    },
+    required: ['featureName', 'links'],
+  },
+};
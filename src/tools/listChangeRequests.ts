@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress } from '../utils/streaming.js';
+import { changeRequestUrl, formatChangeRequest } from '../unleash/changeRequests.js';
+
+const listChangeRequestsSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  featureName: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only show change requests that touch this flag'),
+  state: z
+    .enum(['Draft', 'In review', 'Approved', 'Scheduled'])
+    .optional()
+    .describe('Only show change requests in this state'),
+});
+
+type ListChangeRequestsInput = z.infer<typeof listChangeRequestsSchema>;
+
+/**
+ * list_change_requests tool implementation.
+ * Shows the open change requests of a project and which environments require
+ * them, so drafted changes can be reviewed before they are submitted.
+ */
+export async function listChangeRequests(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: ListChangeRequestsInput = listChangeRequestsSchema.parse(args ?? {});
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Reading change requests of project "${projectId}"...`,
+      context.requestId
+    );
+
+    const config = await context.unleashClient.getChangeRequestConfig(projectId, requestOptions);
+    const protectedEnvironments = config.filter((entry) => entry.changeRequestEnabled);
+    const open =
+      protectedEnvironments.length > 0
+        ? await context.unleashClient.listChangeRequests(projectId, requestOptions)
+        : [];
+    const changeRequests = open.filter(
+      (changeRequest) =>
+        (!input.state || changeRequest.state === input.state) &&
+        (!input.featureName ||
+          (changeRequest.features ?? []).some((feature) => feature.name === input.featureName))
+    );
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `Found ${changeRequests.length} open change request(s)`,
+      context.requestId
+    );
+
+    const withUrls = changeRequests.map((changeRequest) => ({
+      ...changeRequest,
+      url: changeRequestUrl(context.config.unleash.baseUrl, projectId, changeRequest.id),
+    }));
+
+    const messageLines =
+      protectedEnvironments.length === 0
+        ? [`No environment in project "${projectId}" requires change requests; changes are applied directly.`]
+        : [
+            `Environments requiring change requests: ${protectedEnvironments
+              .map((entry) => `${entry.environment} (${entry.requiredApprovals ?? 1} approval(s))`)
+              .join(', ')}`,
+            withUrls.length > 0
+              ? `${withUrls.length} open change request(s)${input.featureName ? ` for "${input.featureName}"` : ''}:`
+              : `No open change requests${input.featureName ? ` for "${input.featureName}"` : ''}${input.state ? ` in state ${input.state}` : ''}.`,
+            ...withUrls.flatMap((changeRequest) => formatChangeRequest(changeRequest, changeRequest.url)),
+            ...(withUrls.some((changeRequest) => changeRequest.state === 'Draft')
+              ? ['Submit a draft for review with submit_change_request.']
+              : []),
+          ];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+      ],
+      structuredContent: {
+        success: true,
+        projectId,
+        environments: config,
+        changeRequests: withUrls,
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'list_change_requests');
+  }
+}
+
+export const listChangeRequestsTool = {
+  name: 'list_change_requests',
+  description: `List the open change requests of a project (drafts, in review, approved and scheduled) and which environments require change requests.
+
+Use it to review changes that toggle_flag_environment or set_flag_rollout drafted for a protected environment before submitting them with submit_change_request.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description: 'Project ID (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Only show change requests that touch this flag (optional)',
+      },
+      state: {
+        type: 'string',
+        enum: ['Draft', 'In review', 'Approved', 'Scheduled'],
+        description: 'Only show change requests in this state (optional)',
+      },
+    },
+  },
+};
@@ -0,0 +1,293 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { FeatureTag, TagType, UnleashRequestOptions } from '../unleash/client.js';
+import { featureTagSchema, formatTag, missingTagTypes } from '../unleash/tags.js';
+import { CustomError } from '../utils/errors.js';
+
+const manageFlagTagsSchema = z
+  .object({
+    projectId: z
+      .string()
+      .optional()
+      .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+    featureName: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Feature flag name (omit to only list the available tag types)'),
+    add: z.array(featureTagSchema).optional().describe('Tags to add to the flag'),
+    remove: z.array(featureTagSchema).optional().describe('Tags to remove from the flag'),
+    createMissingTypes: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Create tag types used by `add` that do not exist yet'),
+  })
+  .refine(
+    (input) =>
+      Boolean(input.featureName) ||
+      ((input.add?.length ?? 0) === 0 && (input.remove?.length ?? 0) === 0),
+    { message: 'featureName is required to add or remove tags', path: ['featureName'] }
+  );
+
+type ManageFlagTagsInput = z.infer<typeof manageFlagTagsSchema>;
+
+/**
+ * manage_flag_tags tool implementation.
+ * Lists tag types and a flag's tags, and adds or removes tags in one request.
+ * Tags are how teams record ownership (squad, epic, kill-switch class) and are
+ * what the feature-flags resource `tag` filter matches on.
+ */
+export async function manageFlagTags(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: ManageFlagTagsInput = manageFlagTagsSchema.parse(args);
+
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
+    const add = input.add ?? [];
+    const remove = input.remove ?? [];
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      'Reading tag types...',
+      context.requestId
+    );
+
+    let tagTypes = await context.unleashClient.listTagTypes(requestOptions);
+
+    if (!input.featureName) {
+      return {
+        content: [{ type: 'text', text: formatTagTypes(tagTypes) }],
+        structuredContent: {
+          success: true,
+          dryRun: context.config.server.dryRun,
+          tagTypes,
+        },
+      };
+    }
+
+    const featureName = input.featureName;
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+
+    const feature = await context.unleashClient.getFeature(projectId, featureName, requestOptions);
+    const previous = (feature.tags ?? []).filter((tag): tag is FeatureTag =>
+      Boolean(tag.type && tag.value)
+    );
+
+    let createdTypes: string[] = [];
+    let tags = previous;
+    if (add.length > 0 || remove.length > 0) {
+      createdTypes = await ensureTagTypes(
+        context,
+        add,
+        tagTypes,
+        input.createMissingTypes,
+        requestOptions
+      );
+      if (createdTypes.length > 0) {
+        tagTypes = await context.unleashClient.listTagTypes(requestOptions);
+      }
+
+      await notifyProgress(
+        context.server,
+        progressToken,
+        50,
+        100,
+        `${mode}Updating tags of "${featureName}"...`,
+        context.requestId
+      );
+
+      tags = await context.unleashClient.updateFeatureTags(
+        projectId,
+        featureName,
+        { addedTags: add, removedTags: remove },
+        requestOptions
+      );
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `${mode}Tags of "${featureName}" up to date`,
+      context.requestId
+    );
+
+    const has = (list: FeatureTag[], tag: FeatureTag) =>
+      list.some((candidate) => formatTag(candidate) === formatTag(tag));
+    const added = add.filter((tag) => !has(previous, tag));
+    const removed = remove.filter((tag) => has(previous, tag));
+    const notPresent = remove.filter((tag) => !has(previous, tag));
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      featureName
+    );
+
+    const changed = add.length > 0 || remove.length > 0;
+    const messageLines = [
+      ...(createdTypes.length > 0
+        ? [`${mode ? '[DRY RUN] Would create' : 'Created'} tag type(s): ${createdTypes.join(', ')}`]
+        : []),
+      ...(added.length > 0
+        ? [`${mode ? '[DRY RUN] Would add' : 'Added'}: ${added.map(formatTag).join(', ')}`]
+        : []),
+      ...(removed.length > 0
+        ? [`${mode ? '[DRY RUN] Would remove' : 'Removed'}: ${removed.map(formatTag).join(', ')}`]
+        : []),
+      ...(notPresent.length > 0
+        ? [`Not on the flag, nothing to remove: ${notPresent.map(formatTag).join(', ')}`]
+        : []),
+      ...(changed && added.length === 0 && removed.length === 0
+        ? ['No changes: the tags were already in the requested state.']
+        : []),
+      tags.length > 0
+        ? `Tags of "${featureName}": ${tags.map(formatTag).join(', ')}`
+        : `"${featureName}" has no tags.`,
+      `Available tag types: ${tagTypes.map((tagType) => tagType.name).join(', ') || 'none'}`,
+      `View feature: ${url}`,
+    ];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        projectId,
+        featureName,
+        previousTags: previous,
+        tags,
+        added,
+        removed,
+        createdTagTypes: createdTypes,
+        tagTypes,
+        links: {
+          ui: url,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'manage_flag_tags');
+  }
+}
+
+/**
+ * Make sure every tag type used by `tags` exists, creating the missing ones
+ * when allowed. Returns the names of the tag types that were created.
+ */
+export async function ensureTagTypes(
+  context: ServerContext,
+  tags: FeatureTag[],
+  tagTypes: TagType[],
+  createMissing: boolean,
+  requestOptions: UnleashRequestOptions
+): Promise<string[]> {
+  const missing = missingTagTypes(tags, tagTypes.map((tagType) => tagType.name));
+  if (missing.length === 0) {
+    return [];
+  }
+
+  if (!createMissing) {
+    throw new CustomError(
+      'TAG_TYPE_NOT_FOUND',
+      `Tag type(s) ${missing.join(', ')} do not exist`,
+      `Available tag types: ${tagTypes.map((tagType) => tagType.name).join(', ') || 'none'}. Use one of them, or call manage_flag_tags with createMissingTypes: true to create the missing types.`
+    );
+  }
+
+  for (const name of missing) {
+    await context.unleashClient.createTagType({ name }, requestOptions);
+  }
+  return missing;
+}
+
+function formatTagTypes(tagTypes: TagType[]): string {
+  if (tagTypes.length === 0) {
+    return 'No tag types are defined.';
+  }
+
+  return [
+    `${tagTypes.length} tag type(s):`,
+    ...tagTypes.map(
+      (tagType) => `- ${tagType.name}${tagType.description ? `: ${tagType.description}` : ''}`
+    ),
+  ].join('\n');
+}
+
+export const manageFlagTagsTool = {
+  name: 'manage_flag_tags',
+  description: `List, add and remove tags on a feature flag, and list the available tag types.
+
+Tags are "type:value" pairs (e.g. squad:payments, jira:PROJ-123, simple:checkout) used to record ownership and to filter flags; the unleash://projects/{projectId}/feature-flags resource accepts a tag filter in the same form. Without featureName, returns the tag types. With featureName and no changes, returns the flag's tags. Tag types must exist before they can be used; pass createMissingTypes: true to create them.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name (omit to only list the available tag types)',
+      },
+      add: {
+        type: 'array',
+        description: 'Tags to add to the flag',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', description: 'Tag type, e.g. "simple", "squad" or "jira"' },
+            value: { type: 'string', description: 'Tag value (2-50 characters)' },
+          },
+          required: ['type', 'value'],
+        },
+      },
+      remove: {
+        type: 'array',
+        description: 'Tags to remove from the flag',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string' },
+            value: { type: 'string' },
+          },
+          required: ['type', 'value'],
+        },
+      },
+      createMissingTypes: {
+        type: 'boolean',
+        description: 'Create tag types used by add that do not exist yet (defaults to false)',
+      },
+    },
+  },
+};
@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { RolloutPlan, RolloutStage, formatRolloutPlan } from '../rollout/planStore.js';
+import { requireProjectEnvironment } from '../unleash/environments.js';
+import { CustomError } from '../utils/errors.js';
+import { applyNextStage, describeStage } from './advanceRollout.js';
+
+const DEFAULT_STAGES: RolloutStage[] = [
+  { percentage: 5, minDwellMinutes: 60 },
+  { percentage: 25, minDwellMinutes: 240 },
+  { percentage: 50, minDwellMinutes: 1440 },
+  { percentage: 100, minDwellMinutes: 0 },
+];
+
+const stageSchema = z.object({
+  percentage: z.number().min(1).max(100).describe('Rollout percentage for this stage (1-100)'),
+  minDwellMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .describe('Minimum minutes to stay at this stage before advancing'),
+});
+
+const planRolloutSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  featureName: z.string().min(1).describe('Feature flag name'),
+  environment: z.string().min(1).describe('Environment to roll out in'),
+  name: z.string().min(1).optional().describe('Plan name (defaults to "<featureName>-<environment>")'),
+  stages: z
+    .array(stageSchema)
+    .min(1)
+    .optional()
+    .refine(
+      (stages) =>
+        !stages ||
+        stages.every((stage, index) => index === 0 || stage.percentage > stages[index - 1].percentage),
+      { message: 'Stage percentages must be strictly increasing' }
+    )
+    .describe('Ordered stages (defaults to 5% → 25% → 50% → 100%)'),
+  replace: z
+    .boolean()
+    .optional()
+    .describe('Replace an existing plan that has not completed yet'),
+  start: z
+    .boolean()
+    .optional()
+    .describe('Apply the first stage immediately'),
+});
+
+type PlanRolloutInput = z.infer<typeof planRolloutSchema>;
+
+/**
+ * plan_rollout tool implementation.
+ * Stores a named multi-stage rollout plan for one flag and environment.
+ * Stages are applied one at a time with advance_rollout.
+ */
+export async function planRollout(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: PlanRolloutInput = planRolloutSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const baseUrl = context.config.unleash.baseUrl;
+    input.environment = (
+      await requireProjectEnvironment(
+        context.unleashClient,
+        projectId,
+        input.environment,
+        requestOptions
+      )
+    ).name;
+
+    let existing: RolloutPlan | undefined;
+    const messageLines: string[] = [];
+
+    // The existing plan is checked and replaced under the plan lock
+    const plan = await context.rolloutPlans.update(
+      baseUrl,
+      projectId,
+      input.featureName,
+      input.environment,
+      async (current) => {
+        existing = current;
+        if (current && current.status !== 'completed' && !input.replace) {
+          throw new CustomError(
+            'ROLLOUT_PLAN_EXISTS',
+            `Rollout plan "${current.name}" for ${input.featureName} in ${input.environment} is ${current.status.replace('_', ' ')}`,
+            'Continue it with advance_rollout, or pass replace: true to discard it and start over.'
+          );
+        }
+
+        await notifyProgress(
+          context.server,
+          progressToken,
+          0,
+          100,
+          `Checking "${input.featureName}"...`,
+          context.requestId
+        );
+
+        // Make sure the flag exists before storing a plan for it
+        await context.unleashClient.getFeature(projectId, input.featureName, requestOptions);
+
+        const now = new Date().toISOString();
+        const pending: RolloutPlan = {
+          name: input.name ?? `${input.featureName}-${input.environment}`,
+          baseUrl,
+          projectId,
+          featureName: input.featureName,
+          environment: input.environment,
+          stages: input.stages ?? DEFAULT_STAGES,
+          currentStage: -1,
+          status: 'pending',
+          createdAt: now,
+          updatedAt: now,
+          history: [],
+        };
+
+        messageLines.push(
+          `${current ? 'Replaced the' : 'Saved a'} rollout plan "${pending.name}" for "${input.featureName}" in "${input.environment}".`
+        );
+
+        if (!input.start) {
+          messageLines.push(
+            `Call advance_rollout with healthy: true to apply stage 1 (${pending.stages[0].percentage}%).`
+          );
+          return pending;
+        }
+
+        await notifyProgress(
+          context.server,
+          progressToken,
+          50,
+          100,
+          `Applying stage 1 (${pending.stages[0].percentage}%)...`,
+          context.requestId
+        );
+
+        return applyNextStage(context, pending, requestOptions, 'Started by plan_rollout');
+      }
+    );
+
+    if (input.start) {
+      messageLines.push(...describeStage(context, plan));
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `Rollout plan "${plan.name}" saved`,
+      context.requestId
+    );
+
+    if (
+      existing?.strategyId &&
+      existing.strategyId !== plan.strategyId &&
+      existing.status !== 'completed'
+    ) {
+      messageLines.push(
+        `The previous plan's strategy (${existing.strategyId}) was left in place; remove it with remove_flag_strategy if it is no longer wanted.`
+      );
+    }
+
+    const { url, resource } = createFlagResourceLink(baseUrl, projectId, input.featureName);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: [...messageLines, '', formatRolloutPlan(plan), '', `View feature: ${url}`].join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        replaced: Boolean(existing),
+        plan,
+        links: {
+          ui: url,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'plan_rollout');
+  }
+}
+
+export const planRolloutTool = {
+  name: 'plan_rollout',
+  description: `Create a staged progressive rollout plan for a feature flag in one environment, e.g. 5% → 25% → 50% → 100% with a minimum dwell time at each stage.
+
+Plans are saved to a local state file so they survive restarts. Use advance_rollout to move through the stages once each has been healthy for its dwell time. The first stage takes over the environment's flexibleRollout strategy (matched by groupId, or the only one) or adds one titled "Rollout plan: <name>", and later stages update that strategy in place. Starting fails if another strategy already serves every user. The environment itself still has to be enabled with toggle_flag_environment.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      environment: {
+        type: 'string',
+        description: 'Environment to roll out in',
+      },
+      name: {
+        type: 'string',
+        description: 'Plan name (defaults to "<featureName>-<environment>")',
+      },
+      stages: {
+        type: 'array',
+        description:
+          'Ordered stages with strictly increasing percentages (defaults to 5% for 1h → 25% for 4h → 50% for 24h → 100%)',
+        items: {
+          type: 'object',
+          properties: {
+            percentage: {
+              type: 'number',
+              description: 'Rollout percentage for this stage (1-100)',
+            },
+            minDwellMinutes: {
+              type: 'number',
+              description: 'Minimum minutes to stay at this stage before advancing',
+            },
+          },
+          required: ['percentage', 'minDwellMinutes'],
+        },
+      },
+      replace: {
+        type: 'boolean',
+        description: 'Replace an existing plan that has not completed yet (defaults to false)',
+      },
+      start: {
+        type: 'boolean',
+        description: 'Apply the first stage immediately (defaults to false)',
+      },
+    },
+    required: ['featureName', 'environment'],
+  },
+};
@@ -0,0 +1,429 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { FeatureEnvironment, FeatureStrategy } from '../unleash/client.js';
+import {
+  StrategyChange,
+  copyStrategy,
+  diffStrategies,
+  formatChangeValue,
+  formatStrategy,
+  stableStringify,
+} from '../unleash/strategyDiff.js';
+import { FeatureVariant, formatVariant } from '../unleash/variants.js';
+import { findFeatureEnvironment, requireProjectEnvironment } from '../unleash/environments.js';
+
+const promoteFlagSchema = z
+  .object({
+    projectId: z
+      .string()
+      .optional()
+      .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+    featureName: z.string().min(1).describe('Feature flag name'),
+    sourceEnvironment: z.string().min(1).describe('Environment to copy from, e.g. "staging"'),
+    targetEnvironment: z.string().min(1).describe('Environment to copy to, e.g. "production"'),
+    includeVariants: z
+      .boolean()
+      .optional()
+      .describe('Also copy the environment variants (defaults to true)'),
+    keepTargetStrategies: z
+      .boolean()
+      .optional()
+      .describe('Keep target strategies that have no counterpart in the source'),
+    enable: z
+      .boolean()
+      .optional()
+      .describe('Enable the flag in the target environment after copying'),
+    confirm: z
+      .boolean()
+      .optional()
+      .describe('Apply the changes; without it only the preview is returned'),
+  })
+  .refine(
+    (input) => input.sourceEnvironment.toLowerCase() !== input.targetEnvironment.toLowerCase(),
+    { message: 'Source and target environments must differ', path: ['targetEnvironment'] }
+  );
+
+type PromoteFlagInput = z.infer<typeof promoteFlagSchema>;
+
+type StrategyOperation =
+  | { action: 'add'; strategy: Omit<FeatureStrategy, 'id'> }
+  | {
+      action: 'update';
+      targetId: string;
+      strategy: Omit<FeatureStrategy, 'id'>;
+      changes: StrategyChange[];
+    }
+  | { action: 'unchanged'; targetId: string; strategy: Omit<FeatureStrategy, 'id'> }
+  | { action: 'remove'; targetId: string; strategy: FeatureStrategy }
+  | { action: 'keep'; targetId: string; strategy: FeatureStrategy };
+
+interface PromotionPlan {
+  strategies: StrategyOperation[];
+  variants?: { before: FeatureVariant[]; after: FeatureVariant[] };
+  enable: boolean;
+}
+
+/**
+ * promote_flag tool implementation.
+ * Makes the target environment's strategies (and variants) match the source
+ * environment. The first call only previews the changes; pass confirm: true
+ * to apply them.
+ */
+export async function promoteFlag(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: PromoteFlagInput = promoteFlagSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    for (const key of ['sourceEnvironment', 'targetEnvironment'] as const) {
+      input[key] = (
+        await requireProjectEnvironment(
+          context.unleashClient,
+          projectId,
+          input[key],
+          requestOptions
+        )
+      ).name;
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Comparing "${input.sourceEnvironment}" and "${input.targetEnvironment}" for "${input.featureName}"...`,
+      context.requestId
+    );
+
+    const feature = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      requestOptions
+    );
+    const source = findFeatureEnvironment(feature, input.sourceEnvironment);
+    const target = findFeatureEnvironment(feature, input.targetEnvironment);
+    const plan = planPromotion(source, target, input);
+
+    const pending =
+      plan.strategies.some((op) => ['add', 'update', 'remove'].includes(op.action)) ||
+      plan.variants !== undefined ||
+      plan.enable;
+    const apply = Boolean(input.confirm) && pending;
+
+    if (apply) {
+      await applyPromotion(context, projectId, input.featureName, target.name, plan, progressToken);
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      apply ? `Promoted "${input.featureName}" to "${target.name}"` : 'Preview ready',
+      context.requestId
+    );
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+
+    const heading = !pending
+      ? `"${target.name}" already matches "${source.name}" for "${input.featureName}"; nothing to promote.`
+      : apply
+        ? context.config.server.dryRun
+          ? `[DRY RUN] Would promote "${input.featureName}" from "${source.name}" to "${target.name}":`
+          : `Promoted "${input.featureName}" from "${source.name}" to "${target.name}":`
+        : `Preview: promoting "${input.featureName}" from "${source.name}" to "${target.name}" would:`;
+
+    const messageLines = [
+      heading,
+      ...describePlan(plan),
+      ...(pending && !apply
+        ? ['', 'Nothing has been changed yet. Call promote_flag again with confirm: true to apply.']
+        : []),
+      ...(!target.enabled && !input.enable
+        ? [`"${target.name}" is disabled; pass enable: true or use toggle_flag_environment to turn it on.`]
+        : []),
+      `View feature: ${url}`,
+    ];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        applied: apply,
+        projectId,
+        featureName: input.featureName,
+        sourceEnvironment: source.name,
+        targetEnvironment: target.name,
+        plan,
+        links: {
+          ui: url,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'promote_flag');
+  }
+}
+
+/**
+ * Pair each source strategy with a target strategy of the same type and title
+ * (in order), so re-promoting updates strategies in place rather than adding
+ * duplicates. Unpaired source strategies are added and unpaired target
+ * strategies removed, unless keepTargetStrategies is set.
+ */
+function planPromotion(
+  source: FeatureEnvironment,
+  target: FeatureEnvironment,
+  input: PromoteFlagInput
+): PromotionPlan {
+  const available = [...(target.strategies ?? [])];
+  const strategies: StrategyOperation[] = [];
+
+  for (const strategy of source.strategies ?? []) {
+    const copy = copyStrategy(strategy);
+    const index = available.findIndex(
+      (candidate) =>
+        candidate.name === strategy.name && (candidate.title ?? null) === (strategy.title ?? null)
+    );
+
+    if (index === -1) {
+      strategies.push({ action: 'add', strategy: copy });
+      continue;
+    }
+
+    const [match] = available.splice(index, 1);
+    const changes = diffStrategies(match, copy);
+    strategies.push(
+      changes.length > 0
+        ? { action: 'update', targetId: match.id, strategy: copy, changes }
+        : { action: 'unchanged', targetId: match.id, strategy: copy }
+    );
+  }
+
+  for (const leftover of available) {
+    strategies.push({
+      action: input.keepTargetStrategies ? 'keep' : 'remove',
+      targetId: leftover.id,
+      strategy: leftover,
+    });
+  }
+
+  const before = target.variants ?? [];
+  const after = source.variants ?? [];
+  const variantsDiffer = stableStringify(before) !== stableStringify(after);
+
+  return {
+    strategies,
+    ...(input.includeVariants !== false && variantsDiffer ? { variants: { before, after } } : {}),
+    enable: Boolean(input.enable) && !target.enabled,
+  };
+}
+
+/**
+ * Apply the plan: strategies first, then variants, and only then enable the
+ * environment, so the target never serves a half-copied configuration.
+ */
+async function applyPromotion(
+  context: ServerContext,
+  projectId: string,
+  featureName: string,
+  environment: string,
+  plan: PromotionPlan,
+  progressToken?: string | number
+): Promise<void> {
+  const requestOptions = buildRequestOptions(context, progressToken);
+  const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
+
+  await notifyProgress(
+    context.server,
+    progressToken,
+    30,
+    100,
+    `${mode}Copying strategies to "${environment}"...`,
+    context.requestId
+  );
+
+  for (const op of plan.strategies) {
+    if (op.action === 'add') {
+      await context.unleashClient.addFeatureStrategy(
+        projectId,
+        featureName,
+        environment,
+        op.strategy,
+        requestOptions
+      );
+    } else if (op.action === 'update') {
+      await context.unleashClient.updateFeatureStrategy(
+        projectId,
+        featureName,
+        environment,
+        op.targetId,
+        op.strategy,
+        requestOptions
+      );
+    }
+  }
+
+  for (const op of plan.strategies) {
+    if (op.action === 'remove') {
+      await context.unleashClient.deleteFeatureStrategy(
+        projectId,
+        featureName,
+        environment,
+        op.targetId,
+        requestOptions
+      );
+    }
+  }
+
+  if (plan.variants) {
+    await notifyProgress(
+      context.server,
+      progressToken,
+      70,
+      100,
+      `${mode}Copying variants to "${environment}"...`,
+      context.requestId
+    );
+    await context.unleashClient.setEnvironmentVariants(
+      projectId,
+      featureName,
+      environment,
+      plan.variants.after,
+      requestOptions
+    );
+  }
+
+  if (plan.enable) {
+    await context.unleashClient.toggleFeatureEnvironment(
+      projectId,
+      featureName,
+      environment,
+      true,
+      requestOptions
+    );
+  }
+}
+
+function describePlan(plan: PromotionPlan): string[] {
+  const lines: string[] = [];
+
+  for (const op of plan.strategies) {
+    switch (op.action) {
+      case 'add':
+        lines.push(`+ Add ${formatStrategy(op.strategy)}`);
+        break;
+      case 'update':
+        lines.push(`~ Update ${op.targetId} (${formatStrategy(op.strategy)}):`);
+        lines.push(
+          ...op.changes.map(
+            (change) =>
+              `    ${change.field}: ${formatChangeValue(change.before)} → ${formatChangeValue(change.after)}`
+          )
+        );
+        break;
+      case 'remove':
+        lines.push(`- Remove ${op.targetId} (${formatStrategy(op.strategy)})`);
+        break;
+      case 'keep':
+        lines.push(`  Keep ${op.targetId} (${formatStrategy(op.strategy)}), not in source`);
+        break;
+      case 'unchanged':
+        lines.push(`  Unchanged ${op.targetId} (${formatStrategy(op.strategy)})`);
+        break;
+    }
+  }
+
+  if (plan.variants) {
+    const after = plan.variants.after;
+    lines.push(
+      after.length > 0
+        ? `~ Set variants: ${after.map(formatVariant).join('; ')}`
+        : '- Remove all variants'
+    );
+  }
+
+  if (plan.enable) {
+    lines.push('+ Enable the flag in the target environment');
+  }
+
+  return lines;
+}
+
+export const promoteFlagTool = {
+  name: 'promote_flag',
+  description: `Promote a flag's configuration from one environment to another (e.g. staging → production).
+
+Copies the source environment's strategies (with their constraints, segments and strategy variants) and environment variants to the target. Matching strategies (same type and title) are updated in place, missing ones are added, and target strategies without a counterpart are removed unless keepTargetStrategies is set.
+
+The first call returns a preview diff without changing anything, in both dry-run and normal mode. Call again with confirm: true to apply. Pass enable: true to turn the flag on in the target once everything is copied.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      sourceEnvironment: {
+        type: 'string',
+        description: 'Environment to copy from, e.g. "staging"',
+      },
+      targetEnvironment: {
+        type: 'string',
+        description: 'Environment to copy to, e.g. "production"',
+      },
+      includeVariants: {
+        type: 'boolean',
+        description: 'Also copy the environment variants (defaults to true)',
+      },
+      keepTargetStrategies: {
+        type: 'boolean',
+        description:
+          'Keep target strategies that have no counterpart in the source (defaults to false)',
+      },
+      enable: {
+        type: 'boolean',
+        description: 'Enable the flag in the target environment after copying (defaults to false)',
+      },
+      confirm: {
+        type: 'boolean',
+        description: 'Apply the changes; without it only the preview is returned (defaults to false)',
+      },
+    },
+    required: ['featureName', 'sourceEnvironment', 'targetEnvironment'],
+  },
+};
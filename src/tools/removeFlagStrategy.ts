@@ -1,8 +1,14 @@
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ServerContext, ensureProjectId, handleToolError } from '../context.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
 import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
 import { FeatureDetails } from '../unleash/client.js';
+import { requireProjectEnvironment } from '../unleash/environments.js';
 
 const removeFlagStrategySchema = z.object({
   projectId: z
@@ -25,25 +31,37 @@ export async function removeFlagStrategy(
     const input: RemoveFlagStrategyInput = removeFlagStrategySchema.parse(args);
 
     const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    input.environment = (
+      await requireProjectEnvironment(
+        context.unleashClient,
+        projectId,
+        input.environment,
+        requestOptions
+      )
+    ).name;
 
     await notifyProgress(
       context.server,
       progressToken,
       0,
       100,
-      `Removing strategy "${input.strategyId}" from "${input.featureName}" in "${input.environment}"...`
+      `Removing strategy "${input.strategyId}" from "${input.featureName}" in "${input.environment}"...`,
+      context.requestId
     );
 
     await context.unleashClient.deleteFeatureStrategy(
       projectId,
       input.featureName,
       input.environment,
-      input.strategyId
+      input.strategyId,
+      requestOptions
     );
 
     const feature: FeatureDetails = await context.unleashClient.getFeature(
       projectId,
-      input.featureName
+      input.featureName,
+      requestOptions
     );
 
     await notifyProgress(
@@ -51,7 +69,8 @@ export async function removeFlagStrategy(
       progressToken,
       100,
       100,
-      `Removed strategy "${input.strategyId}" from "${input.featureName}" in "${input.environment}".`
+      `Removed strategy "${input.strategyId}" from "${input.featureName}" in "${input.environment}".`,
+      context.requestId
     );
 
     const matchingEnvironment =
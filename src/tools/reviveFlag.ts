@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { FeatureDetails } from '../unleash/client.js';
+
+const reviveFlagSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)'),
+  featureName: z.string().min(1).describe('Name of the archived feature flag'),
+});
+
+type ReviveFlagInput = z.infer<typeof reviveFlagSchema>;
+
+export async function reviveFlag(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: ReviveFlagInput = reviveFlagSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Reviving "${input.featureName}"...`,
+      context.requestId
+    );
+
+    await context.unleashClient.reviveFeatureFlags(projectId, [input.featureName], requestOptions);
+
+    const feature: FeatureDetails = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      requestOptions
+    );
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `Revived "${input.featureName}"`,
+      context.requestId
+    );
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+    const apiUrl = `${context.config.unleash.baseUrl}/api/admin/projects/${encodeURIComponent(
+      projectId
+    )}/revive`;
+
+    const messageLines = [
+      context.config.server.dryRun
+        ? `[DRY RUN] Would revive feature flag "${input.featureName}" in project "${projectId}".`
+        : `Revived feature flag "${input.featureName}" in project "${projectId}".`,
+      'Revived flags are disabled in every environment. Use toggle_flag_environment to turn it back on where needed.',
+      `View feature: ${url}`,
+      `Admin API: ${apiUrl}`,
+    ];
+
+    const structuredContent = {
+      success: true,
+      dryRun: context.config.server.dryRun,
+      projectId,
+      featureName: feature.name,
+      feature,
+      links: {
+        ui: url,
+        api: apiUrl,
+        resourceUri: resource.uri,
+      },
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: feature.name,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent,
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'revive_flag');
+  }
+}
+
+export const reviveFlagTool = {
+  name: 'revive_flag',
+  description:
+    'Restore an archived feature flag. The revived flag keeps its strategies but is disabled in every environment; enable it again with toggle_flag_environment.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Name of the archived feature flag',
+      },
+    },
+    required: ['featureName'],
+  },
+};
@@ -0,0 +1,304 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { FeatureDependency, FeatureDetails } from '../unleash/client.js';
+import { formatDependency } from '../unleash/dependencies.js';
+import { CustomError } from '../utils/errors.js';
+
+const setFlagDependencySchema = z
+  .object({
+    projectId: z
+      .string()
+      .optional()
+      .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+    featureName: z.string().min(1).describe('Child flag that should depend on the parent'),
+    parentFeature: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Parent flag in the same project (when removing, omit to remove every dependency)'),
+    enabled: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe('Whether the parent must be enabled (true) or disabled (false)'),
+    variants: z
+      .array(z.string().min(1))
+      .min(1)
+      .optional()
+      .describe('Only evaluate the child when the parent resolves to one of these variants'),
+    remove: z.boolean().optional().default(false).describe('Remove the dependency instead of adding it'),
+  })
+  .refine((input) => input.remove || Boolean(input.parentFeature), {
+    message: 'parentFeature is required when adding a dependency',
+    path: ['parentFeature'],
+  })
+  .refine((input) => !input.variants || input.enabled, {
+    message: 'variants can only be required when the parent must be enabled',
+    path: ['variants'],
+  })
+  .refine((input) => input.parentFeature !== input.featureName, {
+    message: 'A flag cannot depend on itself',
+    path: ['parentFeature'],
+  });
+
+type SetFlagDependencyInput = z.infer<typeof setFlagDependencySchema>;
+
+/**
+ * set_flag_dependency tool implementation.
+ * Makes a flag depend on a parent flag, so the child is only evaluated when
+ * the parent is on (or off, or on a given variant). This replaces nested flag
+ * checks in code with a relationship Unleash knows about. Unleash allows one
+ * level of dependencies; an existing parent is replaced.
+ */
+export async function setFlagDependency(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: SetFlagDependencyInput = setFlagDependencySchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Reading dependencies of "${input.featureName}"...`,
+      context.requestId
+    );
+
+    const child = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      requestOptions
+    );
+    const previous = child.dependencies ?? [];
+
+    let added: FeatureDependency | undefined;
+    let removed: FeatureDependency[];
+
+    if (input.remove) {
+      removed = previous.filter(
+        (dependency) => !input.parentFeature || dependency.feature === input.parentFeature
+      );
+    } else {
+      const parentName = input.parentFeature!;
+      const parent = await context.unleashClient.getFeature(projectId, parentName, requestOptions);
+      validateDependency(child, parent, input.variants);
+
+      added = {
+        feature: parent.name,
+        enabled: input.enabled,
+        ...(input.variants ? { variants: input.variants } : {}),
+      };
+      removed = previous.filter((dependency) => dependency.feature !== parent.name);
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      40,
+      100,
+      `${mode}Updating dependencies of "${input.featureName}"...`,
+      context.requestId
+    );
+
+    for (const dependency of removed) {
+      await context.unleashClient.deleteFeatureDependency(
+        projectId,
+        input.featureName,
+        dependency.feature,
+        requestOptions
+      );
+    }
+    if (added) {
+      await context.unleashClient.addFeatureDependency(
+        projectId,
+        input.featureName,
+        added,
+        requestOptions
+      );
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `${mode}Dependencies of "${input.featureName}" updated`,
+      context.requestId
+    );
+
+    const dependencies = added
+      ? [added]
+      : previous.filter((dependency) => !removed.includes(dependency));
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+
+    const replaced = previous.find((dependency) => dependency.feature === added?.feature);
+    const messageLines = [
+      ...(added
+        ? [
+            `${mode ? '[DRY RUN] Would make' : 'Made'} "${input.featureName}" depend on ${formatDependency(added)}${replaced ? `, previously ${formatDependency(replaced)}` : ''}.`,
+          ]
+        : []),
+      ...(removed.length > 0
+        ? [
+            `${mode ? '[DRY RUN] Would remove' : 'Removed'} dependency on ${removed.map(formatDependency).join(', ')}.`,
+          ]
+        : []),
+      ...(!added && removed.length === 0
+        ? [
+            input.parentFeature
+              ? `"${input.featureName}" does not depend on ${input.parentFeature}; nothing to remove.`
+              : `"${input.featureName}" has no dependencies; nothing to remove.`,
+          ]
+        : []),
+      ...(added
+        ? [
+            `"${input.featureName}" is only evaluated when ${added.feature} is ${added.enabled ? 'enabled' : 'disabled'}${added.variants ? ` and resolves to ${added.variants.join(' or ')}` : ''}; code only needs to check "${input.featureName}".`,
+          ]
+        : []),
+      `View feature: ${url}`,
+    ];
+
+    context.logger.info(messageLines[0]);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        projectId,
+        featureName: input.featureName,
+        previousDependencies: previous,
+        dependencies,
+        added: added ?? null,
+        removed,
+        links: {
+          ui: url,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'set_flag_dependency');
+  }
+}
+
+/**
+ * Check the rules Unleash enforces before sending the request, so the caller
+ * gets an explanation instead of a bare 403.
+ */
+function validateDependency(
+  child: FeatureDetails,
+  parent: FeatureDetails,
+  variants: string[] | undefined
+): void {
+  const grandparent = parent.dependencies?.[0];
+  if (grandparent) {
+    throw new CustomError(
+      'TRANSITIVE_DEPENDENCY',
+      `${parent.name} already depends on ${grandparent.feature} and cannot be a parent`,
+      `Unleash supports one level of dependencies. Make ${child.name} depend on ${grandparent.feature} instead, or remove that dependency from ${parent.name} first.`
+    );
+  }
+
+  const children = (child.children ?? []).filter((name) => name !== parent.name);
+  if (children.length > 0) {
+    throw new CustomError(
+      'TRANSITIVE_DEPENDENCY',
+      `${child.name} is the parent of ${children.join(', ')} and cannot depend on another flag`,
+      'Unleash supports one level of dependencies. Make those flags depend on the new parent directly, or remove their dependencies first.'
+    );
+  }
+
+  if (variants) {
+    const known = new Set(
+      (parent.environments ?? []).flatMap((env) => [
+        ...(env.variants ?? []).map((variant) => variant.name),
+        ...(env.strategies ?? []).flatMap((strategy) =>
+          (strategy.variants ?? []).map((variant) => variant.name)
+        ),
+      ])
+    );
+    const unknown = variants.filter((variant) => !known.has(variant));
+    if (unknown.length > 0) {
+      throw new CustomError(
+        'VARIANT_NOT_FOUND',
+        `${parent.name} has no variant(s) named ${unknown.join(', ')}`,
+        known.size > 0
+          ? `Variants of ${parent.name}: ${[...known].join(', ')}`
+          : `${parent.name} has no variants; add them with set_flag_variants or drop the variants condition.`
+      );
+    }
+  }
+}
+
+export const setFlagDependencyTool = {
+  name: 'set_flag_dependency',
+  description: `Make a feature flag depend on a parent flag, or remove that dependency.
+
+A child flag is only evaluated when its parent is enabled (or disabled, with enabled: false) and, optionally, when the parent resolves to one of the given variants. Use this instead of nesting one flag check inside another in code. Parent and child must be in the same project, dependencies are one level deep, and setting a new parent replaces the existing one. Pass remove: true to remove the dependency on parentFeature, or on every parent when parentFeature is omitted.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where both flags reside (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Child flag that should depend on the parent',
+      },
+      parentFeature: {
+        type: 'string',
+        description:
+          'Parent flag in the same project (required when adding; when removing, omit to remove every dependency)',
+      },
+      enabled: {
+        type: 'boolean',
+        description: 'Whether the parent must be enabled (true, default) or disabled (false)',
+      },
+      variants: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+          'Optional: only evaluate the child when the parent resolves to one of these variants',
+      },
+      remove: {
+        type: 'boolean',
+        description: 'Remove the dependency instead of adding it (defaults to false)',
+      },
+    },
+    required: ['featureName'],
+  },
+};
@@ -1,13 +1,29 @@
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ServerContext, ensureProjectId, handleToolError } from '../context.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
 import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
-import { StrategyVariant, StrategyVariantPayload } from '../unleash/client.js';
-
-const variantPayloadSchema = z.object({
-  type: z.enum(['json', 'csv', 'string', 'number']).describe('Payload type'),
-  value: z.string().min(1).describe('Serialized payload value'),
-}) satisfies z.ZodType<StrategyVariantPayload>;
+import {
+  FeatureDetails,
+  FeatureStrategy,
+  SetFlagRolloutOptions,
+  StrategyVariant,
+  buildFlexibleRolloutStrategy,
+} from '../unleash/client.js';
+import {
+  CONSTRAINT_OPERATORS,
+  formatConstraint,
+  strategyConstraintSchema,
+} from '../unleash/constraints.js';
+import { variantPayloadSchema } from '../unleash/variants.js';
+import { StrategyChange, diffStrategies, formatChangeValue } from '../unleash/strategyDiff.js';
+import { findFeatureEnvironment, requireProjectEnvironment } from '../unleash/environments.js';
+import { CustomError } from '../utils/errors.js';
+import { draftChangeRequest } from './submitChangeRequest.js';
 
 const variantSchema = z
   .object({
@@ -55,10 +71,35 @@ const setFlagRolloutSchema = z.object({
     .array(variantSchema)
     .optional()
     .describe('Optional list of strategy-level variants'),
+  constraints: z
+    .array(strategyConstraintSchema)
+    .optional()
+    .describe('Constraints that must all match for the rollout to apply'),
+  segments: z
+    .array(z.number().int().positive())
+    .optional()
+    .describe('IDs of segments to attach to the strategy'),
+  strategyId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('ID of the flexibleRollout strategy to update (found by title/groupId when omitted)'),
+  createNew: z
+    .boolean()
+    .optional()
+    .describe('Add a new strategy instead of updating an existing one'),
+}).refine((input) => !(input.strategyId && input.createNew), {
+  message: 'Pass either strategyId (update) or createNew (add), not both',
 });
 
 type SetFlagRolloutInput = z.infer<typeof setFlagRolloutSchema>;
 
+/**
+ * set_flag_rollout tool implementation.
+ * Updates the environment's existing flexibleRollout strategy in place (PUT)
+ * so that moving from 10% to 25% does not leave two overlapping strategies.
+ * Adding another strategy is only done when createNew is set.
+ */
 export async function setFlagRollout(
   context: ServerContext,
   args: unknown,
@@ -68,6 +109,15 @@ export async function setFlagRollout(
     const input: SetFlagRolloutInput = setFlagRolloutSchema.parse(args);
 
     const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    input.environment = (
+      await requireProjectEnvironment(
+        context.unleashClient,
+        projectId,
+        input.environment,
+        requestOptions
+      )
+    ).name;
 
     const rolloutDisplay = `${input.rolloutPercentage}%`;
     const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
@@ -77,7 +127,8 @@ export async function setFlagRollout(
       progressToken,
       0,
       100,
-      `${mode}Configuring flexibleRollout strategy for "${input.featureName}" (${rolloutDisplay})...`
+      `${mode}Configuring flexibleRollout strategy for "${input.featureName}" (${rolloutDisplay})...`,
+      context.requestId
     );
 
     const variants: StrategyVariant[] | undefined = input.variants?.map((variant) => ({
@@ -88,26 +139,102 @@ export async function setFlagRollout(
       ...(variant.payload ? { payload: variant.payload } : {}),
     }));
 
-    const strategy = await context.unleashClient.setFlexibleRolloutStrategy(
-      projectId,
-      input.featureName,
-      input.environment,
-      {
-        rolloutPercentage: input.rolloutPercentage,
-        groupId: input.groupId,
-        stickiness: input.stickiness,
-        title: input.title,
-        disabled: input.disabled,
-        variants,
-      }
+    const existing = input.createNew
+      ? undefined
+      : findRolloutStrategy(
+          await context.unleashClient.getFeature(projectId, input.featureName, requestOptions),
+          input
+        );
+    const updated = existing ? mergeStrategy(existing, input, variants) : undefined;
+    const changes: StrategyChange[] = existing && updated ? diffStrategies(existing, updated) : [];
+    const rolloutOptions: SetFlagRolloutOptions = {
+      rolloutPercentage: input.rolloutPercentage,
+      groupId: input.groupId,
+      stickiness: input.stickiness,
+      title: input.title,
+      disabled: input.disabled,
+      variants,
+      constraints: input.constraints,
+      segments: input.segments,
+    };
+
+    if (
+      (!existing || changes.length > 0) &&
+      (await context.unleashClient.changeRequestsEnabled(
+        projectId,
+        input.environment,
+        requestOptions
+      ))
+    ) {
+      return await draftChangeRequest(
+        context,
+        {
+          projectId,
+          featureName: input.featureName,
+          environment: input.environment,
+          changes: [
+            existing && updated
+              ? {
+                  action: 'updateStrategy',
+                  feature: input.featureName,
+                  payload: { id: existing.id, ...updated },
+                }
+              : {
+                  action: 'addStrategy',
+                  feature: input.featureName,
+                  payload: { ...buildFlexibleRolloutStrategy(input.featureName, rolloutOptions) },
+                },
+          ],
+          summary: `${existing ? 'update' : 'add'} ${input.featureName} rollout to ${rolloutDisplay}`,
+        },
+        requestOptions
+      );
+    }
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      30,
+      100,
+      existing
+        ? `${mode}Updating strategy "${existing.id}" in "${input.environment}"...`
+        : `${mode}Adding a flexibleRollout strategy in "${input.environment}"...`,
+      context.requestId
     );
 
+    let strategy: FeatureStrategy;
+
+    if (existing && updated) {
+      strategy =
+        changes.length > 0
+          ? await context.unleashClient.updateFeatureStrategy(
+              projectId,
+              input.featureName,
+              input.environment,
+              existing.id,
+              updated,
+              requestOptions
+            )
+          : existing;
+    } else {
+      strategy = await context.unleashClient.setFlexibleRolloutStrategy(
+        projectId,
+        input.featureName,
+        input.environment,
+        rolloutOptions,
+        requestOptions
+      );
+    }
+
+    const action = !existing ? 'created' : changes.length > 0 ? 'updated' : 'unchanged';
+
     await notifyProgress(
       context.server,
       progressToken,
       100,
       100,
-      `${mode}Strategy configured for "${input.featureName}" in "${input.environment}"`
+      `${mode}Strategy ${action} for "${input.featureName}" in "${input.environment}"`,
+      context.requestId
     );
 
     const { url, resource } = createFlagResourceLink(
@@ -116,25 +243,48 @@ export async function setFlagRollout(
       input.featureName
     );
 
-    const apiUrl = `${context.config.unleash.baseUrl}/api/admin/projects/${encodeURIComponent(
+    const strategiesUrl = `${context.config.unleash.baseUrl}/api/admin/projects/${encodeURIComponent(
       projectId
     )}/features/${encodeURIComponent(input.featureName)}/environments/${encodeURIComponent(
       input.environment
     )}/strategies`;
+    const apiUrl = existing ? `${strategiesUrl}/${encodeURIComponent(existing.id)}` : strategiesUrl;
 
-    const message = context.config.server.dryRun
-      ? `[DRY RUN] Would configure flexibleRollout strategy for "${input.featureName}" in "${input.environment}" at ${rolloutDisplay}.`
-      : `Configured flexibleRollout strategy for "${input.featureName}" in "${input.environment}" at ${rolloutDisplay}.`;
+    const target = `flexibleRollout strategy for "${input.featureName}" in "${input.environment}"`;
+    const message = {
+      created: context.config.server.dryRun
+        ? `[DRY RUN] Would add a new ${target} at ${rolloutDisplay}.`
+        : `Added a new ${target} at ${rolloutDisplay}.`,
+      updated: context.config.server.dryRun
+        ? `[DRY RUN] Would update the existing ${target} (${strategy.id}):`
+        : `Updated the existing ${target} (${strategy.id}):`,
+      unchanged: `The existing ${target} (${strategy.id}) already matches; nothing changed.`,
+    }[action];
 
     context.logger.info(
       `${message}${input.disabled ? ' Strategy is marked as disabled.' : ''}`
     );
 
+    const detailLines =
+      action === 'created'
+        ? [
+            ...(input.constraints && input.constraints.length > 0
+              ? [`Only for: ${input.constraints.map(formatConstraint).join(' AND ')}`]
+              : []),
+            ...(input.segments && input.segments.length > 0
+              ? [`Segments: ${input.segments.join(', ')}`]
+              : []),
+          ]
+        : changes.map(
+            (change) =>
+              `- ${change.field}: ${formatChangeValue(change.before)} → ${formatChangeValue(change.after)}`
+          );
+
     return {
       content: [
         {
           type: 'text',
-          text: `${message}\nView feature: ${url}\nAdmin API: ${apiUrl}`,
+          text: [message, ...detailLines, `View feature: ${url}`, `Admin API: ${apiUrl}`].join('\n'),
         },
         {
           type: 'resource_link',
@@ -151,6 +301,9 @@ export async function setFlagRollout(
         featureName: input.featureName,
         environment: input.environment,
         rolloutPercentage: input.rolloutPercentage,
+        action,
+        changes,
+        previousStrategy: existing ?? null,
         strategy,
         links: {
           ui: url,
@@ -164,9 +317,108 @@ export async function setFlagRollout(
   }
 }
 
+/**
+ * Pick the flexibleRollout strategy to update: the one with the given ID, else
+ * the one whose title (or groupId, defaulting to the flag name) matches. When
+ * neither title nor groupId is given, a lone flexibleRollout strategy is used.
+ */
+export function findRolloutStrategy(
+  feature: FeatureDetails,
+  input: Pick<SetFlagRolloutInput, 'featureName' | 'environment' | 'strategyId' | 'title' | 'groupId'>
+): FeatureStrategy {
+  const strategies = findFeatureEnvironment(feature, input.environment).strategies ?? [];
+
+  if (input.strategyId) {
+    const match = strategies.find((strategy) => strategy.id === input.strategyId);
+    if (!match || match.name !== 'flexibleRollout') {
+      throw new CustomError(
+        'STRATEGY_NOT_FOUND',
+        `No flexibleRollout strategy ${input.strategyId} on ${input.featureName} in ${input.environment}`,
+        strategies.length > 0
+          ? `Strategies in this environment: ${strategies.map(describeStrategy).join(', ')}`
+          : 'This environment has no strategies. Pass createNew: true to add one.'
+      );
+    }
+    return match;
+  }
+
+  const rollouts = strategies.filter((strategy) => strategy.name === 'flexibleRollout');
+  const matches = input.title
+    ? rollouts.filter((strategy) => strategy.title === input.title)
+    : rollouts.filter(
+        (strategy) => strategy.parameters?.groupId === (input.groupId ?? input.featureName)
+      );
+  const candidates =
+    matches.length === 0 && !input.title && !input.groupId && rollouts.length === 1
+      ? rollouts
+      : matches;
+
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  if (candidates.length > 1) {
+    throw new CustomError(
+      'AMBIGUOUS_STRATEGY',
+      `${candidates.length} flexibleRollout strategies on ${input.featureName} in ${input.environment} match`,
+      `Pass strategyId to choose one: ${candidates.map(describeStrategy).join(', ')}`
+    );
+  }
+
+  throw new CustomError(
+    'NO_MATCHING_STRATEGY',
+    `No existing flexibleRollout strategy on ${input.featureName} in ${input.environment} matches ${
+      input.title ? `title "${input.title}"` : `groupId "${input.groupId ?? input.featureName}"`
+    }`,
+    rollouts.length > 0
+      ? `Pass strategyId to update one of: ${rollouts.map(describeStrategy).join(', ')}; or createNew: true to add another strategy.`
+      : 'This environment has no flexibleRollout strategy yet, and set_flag_rollout only adds one when asked. Call set_flag_rollout again with the same arguments plus createNew: true.'
+  );
+}
+
+/**
+ * One-line summary of a strategy for error hints, e.g. `abc ("Beta", flexibleRollout 25%)`.
+ */
+export function describeStrategy(strategy: FeatureStrategy): string {
+  const rollout = strategy.parameters?.rollout;
+  return `${strategy.id} (${strategy.title ? `"${strategy.title}", ` : ''}${strategy.name}${
+    rollout !== undefined ? ` ${rollout}%` : ''
+  })`;
+}
+
+/**
+ * Apply the requested settings on top of an existing strategy; anything not
+ * supplied keeps its current value.
+ */
+function mergeStrategy(
+  existing: FeatureStrategy,
+  input: SetFlagRolloutInput,
+  variants: StrategyVariant[] | undefined
+): Omit<FeatureStrategy, 'id'> {
+  const rollout = Math.min(100, Math.max(0, input.rolloutPercentage));
+
+  return {
+    name: existing.name,
+    title: input.title ?? existing.title ?? null,
+    disabled: input.disabled ?? existing.disabled ?? false,
+    sortOrder: existing.sortOrder,
+    parameters: {
+      ...existing.parameters,
+      rollout: rollout.toString(),
+      groupId: input.groupId ?? existing.parameters?.groupId ?? input.featureName,
+      stickiness: input.stickiness ?? existing.parameters?.stickiness ?? 'default',
+    },
+    constraints: input.constraints ?? existing.constraints ?? [],
+    segments: input.segments ?? existing.segments ?? [],
+    variants: variants ?? existing.variants ?? [],
+  };
+}
+
 export const setFlagRolloutTool = {
   name: 'set_flag_rollout',
-  description: `Configure or update a flexibleRollout strategy for a feature flag environment with an optional rollout percentage and variants. This does NOT enable the feature; call toggle_flag_environment to turn environments on or off.`,
+  description: `Configure or update a flexibleRollout strategy for a feature flag environment with an optional rollout percentage and variants. This does NOT enable the feature; call toggle_flag_environment to turn environments on or off. In environments that require change requests, the change is drafted as a change request to submit with submit_change_request.
+
+The existing flexibleRollout strategy (chosen by strategyId, else by title or groupId) is updated in place. No strategy is added unless createNew: true is passed: without it the call fails with NO_MATCHING_STRATEGY when nothing matches, including in an environment that has no strategy yet.`,
   inputSchema: {
     type: 'object',
     properties: {
@@ -181,7 +433,7 @@ export const setFlagRolloutTool = {
       },
       environment: {
         type: 'string',
-        description: 'Target environment',
+        description: 'Target environment (see unleash://projects/{projectId}/environments for valid names)',
       },
       rolloutPercentage: {
         type: 'number',
@@ -228,6 +480,56 @@ export const setFlagRolloutTool = {
           required: ['name', 'weight'],
         },
       },
+      constraints: {
+        type: 'array',
+        description: 'Constraints that must all match for the rollout to apply',
+        items: {
+          type: 'object',
+          properties: {
+            contextName: {
+              type: 'string',
+              description: 'Context field to match, e.g. "userId", "email" or "region"',
+            },
+            operator: {
+              type: 'string',
+              enum: [...CONSTRAINT_OPERATORS],
+            },
+            values: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Values for list operators (IN, NOT_IN, STR_*)',
+            },
+            value: {
+              type: 'string',
+              description: 'Value for NUM_*, DATE_* and SEMVER_* operators',
+            },
+            caseInsensitive: {
+              type: 'boolean',
+              description: 'Ignore case (STR_* operators only)',
+            },
+            inverted: {
+              type: 'boolean',
+              description: 'Negate the constraint',
+            },
+          },
+          required: ['contextName', 'operator'],
+        },
+      },
+      segments: {
+        type: 'array',
+        items: { type: 'number' },
+        description: 'IDs of segments to attach to the strategy',
+      },
+      strategyId: {
+        type: 'string',
+        description:
+          'ID of the flexibleRollout strategy to update (see get_flag_state). When omitted, the strategy is matched by title or groupId.',
+      },
+      createNew: {
+        type: 'boolean',
+        description:
+          'Add a new strategy instead of updating an existing one (required when the environment has no flexibleRollout strategy yet)',
+      },
     },
     required: ['featureName', 'environment', 'rolloutPercentage'],
   },
@@ -0,0 +1,350 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import {
+  FeatureVariant,
+  VARIANT_WEIGHT_TOTAL,
+  distributeVariantWeights,
+  formatVariant,
+  variantOverrideSchema,
+  variantPayloadSchema,
+} from '../unleash/variants.js';
+import { findFeatureEnvironment, requireProjectEnvironment } from '../unleash/environments.js';
+
+const variantInputSchema = z.object({
+  name: z.string().min(1).describe('Variant name (unique within this environment)'),
+  weight: z
+    .number()
+    .int()
+    .min(0)
+    .max(VARIANT_WEIGHT_TOTAL)
+    .optional()
+    .describe('Fixed weight out of 1000 (omit to share the remaining weight equally)'),
+  payload: variantPayloadSchema.optional(),
+  overrides: z
+    .array(variantOverrideSchema)
+    .optional()
+    .describe('Context values that always receive this variant'),
+});
+
+const setFlagVariantsSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  featureName: z.string().min(1).describe('Feature flag name'),
+  environment: z.string().min(1).describe('Environment whose variants are replaced'),
+  stickiness: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Context field used to assign variants (defaults to the current stickiness or "default")'),
+  variants: z
+    .array(variantInputSchema)
+    .superRefine((variants, ctx) => {
+      const seen = new Set<string>();
+      variants.forEach((variant, index) => {
+        if (seen.has(variant.name)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, 'name'],
+            message: `Variant name "${variant.name}" is used more than once`,
+          });
+        }
+        seen.add(variant.name);
+      });
+
+      const overridden = new Map<string, string>();
+      variants.forEach((variant, index) => {
+        for (const override of variant.overrides ?? []) {
+          for (const value of override.values) {
+            const key = `${override.contextName}=${value}`;
+            const owner = overridden.get(key);
+            if (owner && owner !== variant.name) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: [index, 'overrides'],
+                message: `${key} is already overridden to variant "${owner}"`,
+              });
+            }
+            overridden.set(key, variant.name);
+          }
+        }
+      });
+
+      const fixedTotal = variants.reduce((sum, variant) => sum + (variant.weight ?? 0), 0);
+      const shared = variants.filter((variant) => variant.weight === undefined).length;
+      if (variants.length > 0 && shared === 0 && fixedTotal !== VARIANT_WEIGHT_TOTAL) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Variant weights must add up to ${VARIANT_WEIGHT_TOTAL}, got ${fixedTotal}`,
+        });
+      } else if (shared > 0 && fixedTotal + shared > VARIANT_WEIGHT_TOTAL) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Fixed weights add up to ${fixedTotal} of ${VARIANT_WEIGHT_TOTAL}, leaving too little for the ${shared} variant(s) without a weight`,
+        });
+      }
+    })
+    .describe('The complete list of variants (an empty list removes all variants)'),
+});
+
+type SetFlagVariantsInput = z.infer<typeof setFlagVariantsSchema>;
+
+/**
+ * set_flag_variants tool implementation.
+ * Replaces the feature variants of one environment, for A/B experiments.
+ * Variants with a weight keep it; the rest share what is left, which is how
+ * Unleash distributes "fix" and "variable" weights.
+ */
+export async function setFlagVariants(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: SetFlagVariantsInput = setFlagVariantsSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
+    input.environment = (
+      await requireProjectEnvironment(
+        context.unleashClient,
+        projectId,
+        input.environment,
+        requestOptions
+      )
+    ).name;
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Reading variants of "${input.featureName}" in "${input.environment}"...`,
+      context.requestId
+    );
+
+    const feature = await context.unleashClient.getFeature(
+      projectId,
+      input.featureName,
+      requestOptions
+    );
+    const environment = findFeatureEnvironment(feature, input.environment);
+
+    const previous = environment.variants ?? [];
+    const stickiness = input.stickiness ?? previous[0]?.stickiness ?? 'default';
+    const requested = toFeatureVariants(input, stickiness);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      40,
+      100,
+      `${mode}Saving ${requested.length} variant(s) for "${input.featureName}" in "${input.environment}"...`,
+      context.requestId
+    );
+
+    const variants = await context.unleashClient.setEnvironmentVariants(
+      projectId,
+      input.featureName,
+      environment.name,
+      requested,
+      requestOptions
+    );
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `${mode}Variants saved for "${input.featureName}" in "${input.environment}"`,
+      context.requestId
+    );
+
+    const removed = previous
+      .map((variant) => variant.name)
+      .filter((name) => !variants.some((variant) => variant.name === name));
+    const strategiesWithVariants = (environment.strategies ?? []).filter(
+      (strategy) => (strategy.variants?.length ?? 0) > 0
+    );
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+    const apiUrl = `${context.config.unleash.baseUrl}/api/admin/projects/${encodeURIComponent(
+      projectId
+    )}/features/${encodeURIComponent(input.featureName)}/environments/${encodeURIComponent(
+      environment.name
+    )}/variants`;
+
+    const messageLines = [
+      variants.length === 0
+        ? `${mode ? '[DRY RUN] Would remove' : 'Removed'} all variants of "${input.featureName}" in "${environment.name}".`
+        : `${mode ? '[DRY RUN] Would set' : 'Set'} ${variants.length} variant(s) for "${input.featureName}" in "${environment.name}" (stickiness: ${stickiness}):`,
+      ...variants.map((variant) => `- ${formatVariant(variant)}`),
+      ...(removed.length > 0 ? [`Removed: ${removed.join(', ')}`] : []),
+      ...(strategiesWithVariants.length > 0
+        ? [
+            `Note: ${strategiesWithVariants.length} strategy(ies) in this environment define their own variants, which take precedence for users matched by those strategies.`,
+          ]
+        : []),
+      ...(!environment.enabled
+        ? ['The environment is disabled; enable it with toggle_flag_environment to start serving variants.']
+        : []),
+      `View feature: ${url}`,
+      `Admin API: ${apiUrl}`,
+    ];
+
+    context.logger.info(messageLines[0]);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        projectId,
+        featureName: input.featureName,
+        environment: environment.name,
+        stickiness,
+        previousVariants: previous,
+        variants,
+        removed,
+        links: {
+          ui: url,
+          api: apiUrl,
+          resourceUri: resource.uri,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'set_flag_variants');
+  }
+}
+
+/**
+ * Map the tool input to Admin API variants. A given weight becomes a "fix"
+ * weight; when every variant has one, the last is sent as "variable" because
+ * Unleash requires at least one, and it receives exactly its share anyway.
+ */
+function toFeatureVariants(input: SetFlagVariantsInput, stickiness: string): FeatureVariant[] {
+  const allFixed = input.variants.every((variant) => variant.weight !== undefined);
+
+  const variants = input.variants.map((variant, index): FeatureVariant => {
+    const fixed =
+      variant.weight !== undefined && !(allFixed && index === input.variants.length - 1);
+    return {
+      name: variant.name,
+      weight: variant.weight ?? 0,
+      weightType: fixed ? 'fix' : 'variable',
+      stickiness,
+      ...(variant.payload ? { payload: variant.payload } : {}),
+      ...(variant.overrides && variant.overrides.length > 0 ? { overrides: variant.overrides } : {}),
+    };
+  });
+
+  return distributeVariantWeights(variants);
+}
+
+export const setFlagVariantsTool = {
+  name: 'set_flag_variants',
+  description: `Replace the feature variants of a flag in one environment, e.g. for an A/B experiment.
+
+Weights are out of 1000 (500 = 50%). Give a variant a weight to fix its share; variants without a weight split the rest equally. When every variant has a weight they must add up to 1000. Names must be unique, payloads must be valid for their type (json, csv, number, string), and overrides pin specific context values (e.g. userId) to a variant. Pass an empty list to remove all variants.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      environment: {
+        type: 'string',
+        description: 'Environment whose variants are replaced',
+      },
+      stickiness: {
+        type: 'string',
+        description:
+          'Context field used to assign variants, e.g. "userId" (defaults to the current stickiness or "default")',
+      },
+      variants: {
+        type: 'array',
+        description: 'The complete list of variants (an empty list removes all variants)',
+        items: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Variant name (unique within this environment)',
+            },
+            weight: {
+              type: 'number',
+              description:
+                'Fixed weight out of 1000 (omit to share the remaining weight equally)',
+            },
+            payload: {
+              type: 'object',
+              properties: {
+                type: {
+                  type: 'string',
+                  enum: ['json', 'csv', 'string', 'number'],
+                },
+                value: {
+                  type: 'string',
+                  description: 'Serialized payload value',
+                },
+              },
+              required: ['type', 'value'],
+            },
+            overrides: {
+              type: 'array',
+              description: 'Context values that always receive this variant',
+              items: {
+                type: 'object',
+                properties: {
+                  contextName: {
+                    type: 'string',
+                    description: 'Context field, e.g. "userId"',
+                  },
+                  values: {
+                    type: 'array',
+                    items: { type: 'string' },
+                  },
+                },
+                required: ['contextName', 'values'],
+              },
+            },
+          },
+          required: ['name'],
+        },
+      },
+    },
+    required: ['featureName', 'environment', 'variants'],
+  },
+};
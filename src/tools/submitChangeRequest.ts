@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+import { ChangeRequestChange, UnleashRequestOptions } from '../unleash/client.js';
+import { changeRequestUrl, formatChangeRequest } from '../unleash/changeRequests.js';
+import { CustomError } from '../utils/errors.js';
+
+const submitChangeRequestSchema = z.object({
+  projectId: z
+    .string()
+    .optional()
+    .describe('Project ID (optional if UNLEASH_DEFAULT_PROJECT is configured)'),
+  changeRequestId: z.number().int().positive().describe('ID of the draft change request'),
+  cancel: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Cancel the change request instead of submitting it'),
+});
+
+type SubmitChangeRequestInput = z.infer<typeof submitChangeRequestSchema>;
+
+/**
+ * submit_change_request tool implementation.
+ * Sends a draft change request to review, or cancels an open one. Approving
+ * and applying stay with the reviewers in Unleash.
+ */
+export async function submitChangeRequest(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: SubmitChangeRequestInput = submitChangeRequestSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const mode = context.config.server.dryRun ? '[DRY RUN] ' : '';
+    const url = changeRequestUrl(context.config.unleash.baseUrl, projectId, input.changeRequestId);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Reading change request #${input.changeRequestId}...`,
+      context.requestId
+    );
+
+    const current = await context.unleashClient.getChangeRequest(
+      projectId,
+      input.changeRequestId,
+      requestOptions
+    );
+
+    if (!input.cancel && current.state !== 'Draft') {
+      throw new CustomError(
+        'CHANGE_REQUEST_NOT_DRAFT',
+        `Change request #${current.id} is ${current.state}, not a draft`,
+        current.state === 'In review'
+          ? `It is already waiting for approval: ${url}`
+          : `Only drafts can be submitted. Review it in Unleash: ${url}`
+      );
+    }
+
+    const state = input.cancel ? 'Cancelled' : 'In review';
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      50,
+      100,
+      `${mode}Moving change request #${current.id} to ${state}...`,
+      context.requestId
+    );
+
+    await context.unleashClient.updateChangeRequestState(
+      projectId,
+      current.id,
+      state,
+      requestOptions
+    );
+    const changeRequest = await context.unleashClient.getChangeRequest(
+      projectId,
+      current.id,
+      requestOptions
+    );
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      `${mode}Change request #${current.id} is ${changeRequest.state}`,
+      context.requestId
+    );
+
+    const approvals = changeRequest.minApprovals ?? 1;
+    const messageLines = [
+      input.cancel
+        ? `${mode ? '[DRY RUN] Would cancel' : 'Cancelled'} change request #${current.id}.`
+        : `${mode ? '[DRY RUN] Would submit' : 'Submitted'} change request #${current.id} for review. It needs ${approvals} approval${approvals === 1 ? '' : 's'} before it can be applied in Unleash.`,
+      ...formatChangeRequest(changeRequest, url),
+    ];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+      ],
+      structuredContent: {
+        success: true,
+        dryRun: context.config.server.dryRun,
+        projectId,
+        previousState: current.state,
+        changeRequest,
+        links: {
+          ui: url,
+        },
+      },
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'submit_change_request');
+  }
+}
+
+/**
+ * Draft changes as a change request instead of applying them, for tools whose
+ * target environment requires change requests. The result tells the caller
+ * the change is pending and how to submit it.
+ */
+export async function draftChangeRequest(
+  context: ServerContext,
+  draft: {
+    projectId: string;
+    featureName: string;
+    environment: string;
+    changes: ChangeRequestChange[];
+    summary: string;
+  },
+  requestOptions: UnleashRequestOptions
+): Promise<CallToolResult> {
+  const changeRequest = await context.unleashClient.createChangeRequest(
+    draft.projectId,
+    draft.environment,
+    draft.changes,
+    requestOptions
+  );
+  const url = changeRequestUrl(context.config.unleash.baseUrl, draft.projectId, changeRequest.id);
+  const { resource } = createFlagResourceLink(
+    context.config.unleash.baseUrl,
+    draft.projectId,
+    draft.featureName
+  );
+
+  const messageLines = [
+    `${context.config.server.dryRun ? '[DRY RUN] ' : ''}"${draft.environment}" requires change requests, so "${draft.summary}" ${context.config.server.dryRun ? 'would be' : 'was'} added to draft change request #${changeRequest.id} instead of being applied.`,
+    ...formatChangeRequest(changeRequest, url),
+    `Submit it for review with submit_change_request (changeRequestId: ${changeRequest.id}).`,
+  ];
+
+  context.logger.info(messageLines[0]);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: messageLines.join('\n'),
+      },
+      {
+        type: 'resource_link',
+        name: draft.featureName,
+        uri: resource.uri,
+        mimeType: resource.mimeType,
+        text: resource.text,
+      },
+    ],
+    structuredContent: {
+      success: true,
+      dryRun: context.config.server.dryRun,
+      applied: false,
+      projectId: draft.projectId,
+      featureName: draft.featureName,
+      environment: draft.environment,
+      changeRequest: {
+        id: changeRequest.id,
+        state: changeRequest.state,
+        url,
+      },
+      links: {
+        ui: url,
+        resourceUri: resource.uri,
+      },
+    },
+  };
+}
+
+export const submitChangeRequestTool = {
+  name: 'submit_change_request',
+  description: `Submit a draft change request for review, or cancel it.
+
+Tools that change a flag in an environment protected by change requests (toggle_flag_environment, set_flag_rollout) add the change to a draft instead of applying it and return the draft's ID. Review the draft with list_change_requests, then call this tool to send it to the approvers. Approving and applying happen in Unleash.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID of the change request (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      changeRequestId: {
+        type: 'number',
+        description: 'ID of the draft change request',
+      },
+      cancel: {
+        type: 'boolean',
+        description: 'Cancel the change request instead of submitting it (defaults to false)',
+      },
+    },
+    required: ['changeRequestId'],
+  },
+};
@@ -1,8 +1,15 @@
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ServerContext, ensureProjectId, handleToolError } from '../context.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
 import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
 import { FeatureDetails } from '../unleash/client.js';
+import { requireProjectEnvironment } from '../unleash/environments.js';
+import { draftChangeRequest } from './submitChangeRequest.js';
 
 const toggleFlagEnvironmentSchema = z.object({
   projectId: z
@@ -25,21 +32,58 @@ export async function toggleFlagEnvironment(
     const input: ToggleFlagEnvironmentInput = toggleFlagEnvironmentSchema.parse(args);
 
     const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    input.environment = (
+      await requireProjectEnvironment(
+        context.unleashClient,
+        projectId,
+        input.environment,
+        requestOptions
+      )
+    ).name;
     const action = input.enabled ? 'Enabling' : 'Disabling';
 
+    if (
+      await context.unleashClient.changeRequestsEnabled(
+        projectId,
+        input.environment,
+        requestOptions
+      )
+    ) {
+      return await draftChangeRequest(
+        context,
+        {
+          projectId,
+          featureName: input.featureName,
+          environment: input.environment,
+          changes: [
+            {
+              action: 'updateEnabled',
+              feature: input.featureName,
+              payload: { enabled: input.enabled },
+            },
+          ],
+          summary: `${input.enabled ? 'enable' : 'disable'} ${input.featureName}`,
+        },
+        requestOptions
+      );
+    }
+
     await notifyProgress(
       context.server,
       progressToken,
       0,
       100,
-      `${action} "${input.featureName}" in "${input.environment}"...`
+      `${action} "${input.featureName}" in "${input.environment}"...`,
+      context.requestId
     );
 
     const feature: FeatureDetails = await context.unleashClient.toggleFeatureEnvironment(
       projectId,
       input.featureName,
       input.environment,
-      input.enabled
+      input.enabled,
+      requestOptions
     );
 
     await notifyProgress(
@@ -47,7 +91,8 @@ export async function toggleFlagEnvironment(
       progressToken,
       100,
       100,
-      `${input.enabled ? 'Enabled' : 'Disabled'} "${input.featureName}" in "${input.environment}"`
+      `${input.enabled ? 'Enabled' : 'Disabled'} "${input.featureName}" in "${input.environment}"`,
+      context.requestId
     );
 
     const { url, resource } = createFlagResourceLink(
@@ -121,7 +166,7 @@ export async function toggleFlagEnvironment(
 export const toggleFlagEnvironmentTool = {
   name: 'toggle_flag_environment',
   description:
-    'Enable or disable a feature flag in a specific environment using the Unleash Admin API. For gradual rollouts, configure a flexibleRollout strategy first via set_flag_rollout.',
+    'Enable or disable a feature flag in a specific environment using the Unleash Admin API. For gradual rollouts, configure a flexibleRollout strategy first via set_flag_rollout. In environments that require change requests, the toggle is drafted as a change request to submit with submit_change_request.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -136,7 +181,7 @@ export const toggleFlagEnvironmentTool = {
       },
       environment: {
         type: 'string',
-        description: 'Environment to toggle',
+        description: 'Environment to toggle (see unleash://projects/{projectId}/environments for valid names)',
       },
       enabled: {
         type: 'boolean',
@@ -0,0 +1,275 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ServerContext,
+  buildRequestOptions,
+  ensureProjectId,
+  handleToolError,
+} from '../context.js';
+import { FeatureDetails, FeatureFlagPatchOperation } from '../unleash/client.js';
+import { notifyProgress, createFlagResourceLink } from '../utils/streaming.js';
+
+const updateFlagSchema = z
+  .object({
+    projectId: z
+      .string()
+      .optional()
+      .describe('Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)'),
+    featureName: z.string().min(1).describe('Feature flag name'),
+    description: z.string().min(1).optional().describe('New description for the flag'),
+    type: z
+      .enum(['release', 'experiment', 'operational', 'kill-switch', 'permission'])
+      .optional()
+      .describe('New flag type'),
+    impressionData: z.boolean().optional().describe('Enable or disable impression data'),
+    stale: z.boolean().optional().describe('Mark the flag as stale (true) or active again (false)'),
+  })
+  .refine(
+    (input) =>
+      input.description !== undefined ||
+      input.type !== undefined ||
+      input.impressionData !== undefined ||
+      input.stale !== undefined,
+    { message: 'Provide at least one of description, type, impressionData or stale' }
+  );
+
+type UpdateFlagInput = z.infer<typeof updateFlagSchema>;
+
+const METADATA_FIELDS = ['description', 'type', 'impressionData'] as const;
+
+interface FlagMetadata {
+  description: string;
+  type: string | null;
+  impressionData: boolean;
+  stale: boolean;
+}
+
+type MetadataField = keyof FlagMetadata;
+
+interface MetadataChange {
+  field: MetadataField;
+  before: FlagMetadata[MetadataField];
+  after: FlagMetadata[MetadataField];
+}
+
+/**
+ * update_flag tool implementation.
+ * Edits a flag's description, type, impression data and stale mark.
+ *
+ * Metadata is changed with a JSON Patch so fields that were not supplied are
+ * left untouched; the stale mark has its own endpoint. The flag is read before
+ * and after the update so the caller gets an exact diff.
+ */
+export async function updateFlag(
+  context: ServerContext,
+  args: unknown,
+  progressToken?: string | number
+): Promise<CallToolResult> {
+  try {
+    const input: UpdateFlagInput = updateFlagSchema.parse(args);
+
+    const projectId = ensureProjectId(input.projectId, context.config.unleash.defaultProject);
+    const requestOptions = buildRequestOptions(context, progressToken);
+    const dryRun = context.config.server.dryRun;
+
+    context.logger.info(`Updating feature flag "${input.featureName}" in project "${projectId}"`);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      0,
+      100,
+      `Loading current metadata for "${input.featureName}"...`,
+      context.requestId
+    );
+
+    const before = toMetadata(
+      await context.unleashClient.getFeature(projectId, input.featureName, requestOptions)
+    );
+
+    const operations: FeatureFlagPatchOperation[] = METADATA_FIELDS.filter(
+      (field) => input[field] !== undefined && input[field] !== before[field]
+    ).map((field) => ({ op: 'replace', path: `/${field}`, value: input[field] }));
+    const staleChanged = input.stale !== undefined && input.stale !== before.stale;
+
+    let after = before;
+
+    if (operations.length > 0 || staleChanged) {
+      if (operations.length > 0) {
+        await notifyProgress(
+          context.server,
+          progressToken,
+          30,
+          100,
+          `Updating ${operations.map((operation) => operation.path.slice(1)).join(', ')}...`,
+          context.requestId
+        );
+
+        await context.unleashClient.patchFeatureFlag(
+          projectId,
+          input.featureName,
+          operations,
+          requestOptions
+        );
+      }
+
+      if (staleChanged) {
+        await notifyProgress(
+          context.server,
+          progressToken,
+          60,
+          100,
+          `Marking "${input.featureName}" as ${input.stale ? 'stale' : 'active'}...`,
+          context.requestId
+        );
+
+        await context.unleashClient.markFeaturesStale(
+          projectId,
+          [input.featureName],
+          input.stale!,
+          requestOptions
+        );
+      }
+
+      after = toMetadata(
+        await context.unleashClient.getFeature(projectId, input.featureName, requestOptions)
+      );
+    }
+
+    const changes = diffMetadata(before, after);
+
+    await notifyProgress(
+      context.server,
+      progressToken,
+      100,
+      100,
+      changes.length > 0
+        ? `Updated "${input.featureName}"`
+        : `"${input.featureName}" is already up to date`,
+      context.requestId
+    );
+
+    const { url, resource } = createFlagResourceLink(
+      context.config.unleash.baseUrl,
+      projectId,
+      input.featureName
+    );
+    const apiUrl = `${context.config.unleash.baseUrl}/api/admin/projects/${encodeURIComponent(
+      projectId
+    )}/features/${encodeURIComponent(input.featureName)}`;
+
+    const heading =
+      changes.length === 0
+        ? `No changes needed: "${input.featureName}" already has the requested metadata.`
+        : dryRun
+          ? `[DRY RUN] Would update feature flag "${input.featureName}" in project "${projectId}":`
+          : `Updated feature flag "${input.featureName}" in project "${projectId}":`;
+
+    const messageLines = [
+      heading,
+      ...changes.map(
+        (change) =>
+          `- ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`
+      ),
+      `View feature: ${url}`,
+      `Admin API: ${apiUrl}`,
+    ];
+
+    context.logger.info(heading);
+
+    const structuredContent = {
+      success: true,
+      dryRun,
+      projectId,
+      featureName: input.featureName,
+      changed: changes.length > 0,
+      changes,
+      before,
+      after,
+      links: {
+        ui: url,
+        api: apiUrl,
+        resourceUri: resource.uri,
+      },
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: messageLines.join('\n'),
+        },
+        {
+          type: 'resource_link',
+          name: input.featureName,
+          uri: resource.uri,
+          mimeType: resource.mimeType,
+          text: resource.text,
+        },
+      ],
+      structuredContent,
+    };
+  } catch (error) {
+    return handleToolError(context, error, 'update_flag');
+  }
+}
+
+function toMetadata(feature: FeatureDetails): FlagMetadata {
+  return {
+    description: feature.description ?? '',
+    type: feature.type ?? null,
+    impressionData: feature.impressionData ?? false,
+    stale: feature.stale ?? false,
+  };
+}
+
+function diffMetadata(before: FlagMetadata, after: FlagMetadata): MetadataChange[] {
+  return (Object.keys(before) as MetadataField[])
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+export const updateFlagTool = {
+  name: 'update_flag',
+  description: `Update an existing feature flag's metadata: description, type, impression data, or stale status.
+
+Only the fields you pass are changed. Returns a before/after diff of the flag's metadata.
+
+Use this to keep descriptions accurate as a flag's purpose evolves, to correct a flag type, or to mark a flag stale once it is fully rolled out and ready for cleanup (see cleanup_flag).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      projectId: {
+        type: 'string',
+        description:
+          'Project ID where the feature flag resides (optional if UNLEASH_DEFAULT_PROJECT is set)',
+      },
+      featureName: {
+        type: 'string',
+        description: 'Feature flag name',
+      },
+      description: {
+        type: 'string',
+        description: 'New description for the flag',
+      },
+      type: {
+        type: 'string',
+        enum: ['release', 'experiment', 'operational', 'kill-switch', 'permission'],
+        description: 'New flag type',
+      },
+      impressionData: {
+        type: 'boolean',
+        description: 'Enable or disable impression data collection',
+      },
+      stale: {
+        type: 'boolean',
+        description: 'Mark the flag as stale (true) or active again (false)',
+      },
+    },
+    required: ['featureName'],
+  },
+};
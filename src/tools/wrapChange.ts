@@ -255,6 +255,7 @@ ${t.usage}
     '3. **Use default templates** if no patterns exist',
     '4. **Test your implementation** to ensure it works',
     '5. **Consider cleanup** - plan for flag removal after rollout',
+    '6. **Link the change** - once the PR or ticket exists, attach it (and the file location) to the flag with `link_flag`',
     '',
     '---',
     '',
@@ -343,6 +344,7 @@ Usage:
 2. Follow the search instructions to find existing patterns
 3. Use the recommended template or match detected patterns
 4. Test your implementation
+5. Attach the PR or ticket to the flag with link_flag
 
 Best suited for use after evaluate_change recommends a flag and create_flag creates it.`,
   inputSchema: {
@@ -0,0 +1,318 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+import { SessionCredentials } from '../config.js';
+import { Logger } from '../context.js';
+import { CustomError, normalizeError } from '../utils/errors.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Options for serving MCP over the Streamable HTTP transport.
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  logger: Logger;
+  /** Close sessions that received no request for this long; 0 keeps them open */
+  sessionIdleTimeoutMs: number;
+  /**
+   * Host headers to accept, e.g. `mcp.example.com:3000`. Defaults to the bind
+   * address and the loopback names on the listening port.
+   */
+  allowedHosts: string[];
+  /** Origin headers to accept; when set, requests without one are rejected */
+  allowedOrigins: string[];
+  /**
+   * Build a fresh MCP server for a new session. Each session owns its own
+   * server instance because a server can only be connected to one transport.
+   * Throws when the supplied credentials cannot be used.
+   */
+  createSessionServer: (credentials: SessionCredentials) => Server;
+}
+
+/**
+ * A running HTTP transport.
+ */
+export interface HttpTransportHandle {
+  /** The port actually listened on (useful when port 0 was requested) */
+  port: number;
+  /** Close every open session and stop listening */
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Start an HTTP listener that serves the MCP Streamable HTTP transport on /mcp.
+ *
+ * Sessions are keyed by the Mcp-Session-Id header issued on initialize. Server
+ * notifications (progress, logging) are streamed back over SSE. Each session is
+ * bound to the Unleash credentials presented when it was initialized, and is
+ * closed, together with its MCP server, once it has been idle for
+ * sessionIdleTimeoutMs. Requests whose Host (or, when configured, Origin)
+ * header is not allowed are rejected to guard against DNS rebinding.
+ */
+export async function startHttpTransport(
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const { host, logger } = options;
+  const sessions = new Map<string, HttpSession>();
+  // Defaults depend on the port actually bound, so they are filled in once listening
+  let allowedHosts = options.allowedHosts;
+
+  const httpServer = createServer((req, res) => {
+    handleHttpRequest(req, res).catch((error) => {
+      logger.error('Failed to handle MCP HTTP request', error);
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path !== MCP_HTTP_PATH) {
+      writeJsonRpcError(res, 404, -32000, `Not found. The MCP endpoint is ${MCP_HTTP_PATH}`);
+      return;
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        writeJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+        return;
+      }
+
+      touchSession(sessionId, session);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      writeJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    // No session yet: the transport only accepts an initialize request here and
+    // rejects anything else, in which case the session is never registered.
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      writeJsonRpcError(res, 400, -32700, 'Parse error: request body must be valid JSON');
+      return;
+    }
+
+    let server: Server;
+    try {
+      server = options.createSessionServer(extractSessionCredentials(req, body));
+    } catch (error) {
+      const normalized = normalizeError(error);
+      logger.warn(`Rejected MCP HTTP session: ${normalized.message}`);
+      writeJsonRpcError(
+        res,
+        401,
+        -32001,
+        normalized.hint ? `${normalized.message}. ${normalized.hint}` : normalized.message
+      );
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        const session: HttpSession = { server, transport };
+        sessions.set(newSessionId, session);
+        touchSession(newSessionId, session);
+        logger.info(`MCP HTTP session started: ${newSessionId}`);
+      },
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins: options.allowedOrigins,
+    });
+
+    // Closing the transport also closes the session's MCP server, which stops
+    // its event-log polling
+    transport.onclose = () => {
+      const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+      if (session) {
+        clearTimeout(session.idleTimer);
+        sessions.delete(transport.sessionId!);
+        logger.info(`MCP HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  function touchSession(sessionId: string, session: HttpSession): void {
+    clearTimeout(session.idleTimer);
+    if (options.sessionIdleTimeoutMs <= 0) {
+      return;
+    }
+
+    session.idleTimer = setTimeout(() => {
+      logger.info(
+        `MCP HTTP session expired after ${options.sessionIdleTimeoutMs}ms idle: ${sessionId}`
+      );
+      session.transport.close().catch((error) => {
+        logger.warn(`Failed to close expired MCP HTTP session ${sessionId}`, error);
+      });
+    }, options.sessionIdleTimeoutMs);
+    session.idleTimer.unref();
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = address && typeof address === 'object' ? address.port : options.port;
+  if (allowedHosts.length === 0) {
+    allowedHosts = defaultAllowedHosts(host, port);
+  }
+
+  logger.info(`Streamable HTTP transport listening on http://${host}:${port}${MCP_HTTP_PATH}`);
+
+  return {
+    port,
+    close: async () => {
+      await Promise.all([...sessions.values()].map((session) => session.transport.close()));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+/**
+ * Host headers a local client may send: the bind address and, for loopback or
+ * wildcard binds, the usual loopback names.
+ */
+function defaultAllowedHosts(host: string, port: number): string[] {
+  const hosts = [host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`];
+  if (['127.0.0.1', 'localhost', '::1', '0.0.0.0', '::'].includes(host)) {
+    hosts.push(`localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`);
+  }
+
+  return [...new Set(hosts)];
+}
+
+/**
+ * Read Unleash credentials for a new session from the request headers
+ * (X-Unleash-PAT or Authorization, X-Unleash-Base-URL) or, failing that, from
+ * the initialize request's _meta (unleashPat, unleashBaseUrl).
+ */
+export function extractSessionCredentials(req: IncomingMessage, body: unknown): SessionCredentials {
+  const meta = getInitializeMeta(body);
+
+  return {
+    pat:
+      getHeader(req, 'x-unleash-pat') ??
+      parseAuthorization(getHeader(req, 'authorization')) ??
+      (typeof meta?.unleashPat === 'string' ? meta.unleashPat : undefined),
+    baseUrl:
+      getHeader(req, 'x-unleash-base-url') ??
+      (typeof meta?.unleashBaseUrl === 'string' ? meta.unleashBaseUrl : undefined),
+  };
+}
+
+/**
+ * Accept `Authorization: Bearer <PAT>` or, as Unleash itself does, a bare PAT.
+ */
+function parseAuthorization(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = /^(\S+)\s+(\S+)$/.exec(value);
+  if (!match) {
+    return value;
+  }
+
+  if (match[1].toLowerCase() !== 'bearer') {
+    throw new CustomError(
+      'SESSION_AUTHORIZATION_UNSUPPORTED',
+      `Unsupported Authorization scheme: ${match[1]}`,
+      'Send "Authorization: Bearer <PAT>" or use the X-Unleash-PAT header.'
+    );
+  }
+
+  return match[2];
+}
+
+function getInitializeMeta(body: unknown): Record<string, unknown> | undefined {
+  const messages = Array.isArray(body) ? body : [body];
+  for (const message of messages) {
+    if (
+      message &&
+      typeof message === 'object' &&
+      (message as { method?: unknown }).method === 'initialize'
+    ) {
+      const meta = (message as { params?: { _meta?: unknown } }).params?._meta;
+      return meta && typeof meta === 'object' ? (meta as Record<string, unknown>) : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first && first.trim().length > 0 ? first.trim() : undefined;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function writeJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    })
+  );
+}
@@ -0,0 +1,46 @@
+import type { ChangeRequest, FeatureStrategy } from './client.js';
+import { formatStrategy } from './strategyDiff.js';
+
+/**
+ * Link to a change request in the Unleash UI.
+ */
+export function changeRequestUrl(baseUrl: string, projectId: string, changeRequestId: number): string {
+  return `${baseUrl}/projects/${encodeURIComponent(projectId)}/change-requests/${changeRequestId}`;
+}
+
+/**
+ * Render one drafted change, e.g. `enable` or `add strategy flexibleRollout (rollout=25, ...)`.
+ */
+export function describeChange(change: { action: string; payload: unknown }): string {
+  const payload = (change.payload ?? {}) as Record<string, unknown>;
+
+  switch (change.action) {
+    case 'updateEnabled':
+      return payload.enabled ? 'enable' : 'disable';
+    case 'addStrategy':
+      return `add strategy ${formatStrategy(payload as unknown as Omit<FeatureStrategy, 'id'>)}`;
+    case 'updateStrategy':
+      return `update strategy ${payload.id}: ${formatStrategy(payload as unknown as FeatureStrategy)}`;
+    case 'deleteStrategy':
+      return `delete strategy ${payload.id}`;
+    case 'patchVariant':
+      return `set ${Array.isArray(payload.variants) ? payload.variants.length : 0} variant(s)`;
+    default:
+      return change.action;
+  }
+}
+
+/**
+ * Render a change request as a heading line followed by one line per change.
+ */
+export function formatChangeRequest(changeRequest: ChangeRequest, url: string): string[] {
+  return [
+    `#${changeRequest.id} (${changeRequest.state}) in ${changeRequest.environment}${
+      changeRequest.title ? `: ${changeRequest.title}` : ''
+    }`,
+    ...(changeRequest.features ?? []).flatMap((feature) =>
+      feature.changes.map((change) => `  - ${feature.name}: ${describeChange(change)}`)
+    ),
+    `  ${url}`,
+  ];
+}
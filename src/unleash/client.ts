@@ -1,5 +1,8 @@
-import { CustomError } from '../utils/errors.js';
+import { CustomError, getHttpErrorHint } from '../utils/errors.js';
 import { VERSION } from '../version.js';
+import { DryRunSeed, DryRunStore } from './dryRunStore.js';
+import { StrategyConstraint } from './constraints.js';
+import { FeatureVariant } from './variants.js';
 
 /**
  * Feature flag types supported by Unleash.
@@ -30,6 +33,24 @@ export interface CreateFeatureFlagResponse {
   impressionData: boolean;
 }
 
+/**
+ * Editable flag metadata; update_flag changes it with patchFeatureFlag.
+ */
+export interface UpdateFeatureFlagRequest {
+  description?: string;
+  type?: FeatureFlagType;
+  impressionData?: boolean;
+}
+
+/**
+ * JSON Patch (RFC 6902) operation accepted by PATCH on a feature flag.
+ */
+export interface FeatureFlagPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
 export interface UnleashProjectSummary {
   id: string;
   name: string;
@@ -39,6 +60,17 @@ export interface UnleashProjectSummary {
   url: string;
 }
 
+/**
+ * An environment enabled in a project, as listed by the environments endpoint.
+ */
+export interface ProjectEnvironment {
+  name: string;
+  type: string;
+  sortOrder: number;
+  enabled: boolean;
+  protected?: boolean;
+}
+
 export interface FeatureFlagSummary {
   name: string;
   description?: string;
@@ -46,10 +78,102 @@ export interface FeatureFlagSummary {
   type?: FeatureFlagType;
   archived?: boolean;
   impressionData?: boolean;
+  stale?: boolean;
   createdAt?: string;
+  createdBy?: { id?: number; name?: string };
+  tags?: Array<{ type?: string; value?: string }>;
   url: string;
 }
 
+/**
+ * Lifecycle states accepted by the feature search "state" filter.
+ */
+export const FEATURE_SEARCH_STATES = [
+  'enabled',
+  'disabled',
+  'stale',
+  'active',
+  'potentially-stale',
+] as const;
+
+export type FeatureSearchState = (typeof FEATURE_SEARCH_STATES)[number];
+
+/**
+ * Filters and paging for the feature search endpoint.
+ */
+export interface FeatureFlagSearchOptions {
+  query?: string;
+  type?: string;
+  /** Tag in "type:value" form */
+  tag?: string;
+  state?: FeatureSearchState;
+  /** Unleash user ID of the creator */
+  createdBy?: string;
+  limit?: number;
+  offset?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface FeatureFlagSearchResult {
+  flags: FeatureFlagSummary[];
+  total: number;
+}
+
+/**
+ * One entry of the Unleash event log. `preData` and `data` hold the state
+ * before and after the change; which fields they carry depends on the type.
+ */
+export interface UnleashEvent {
+  id: number;
+  type: string;
+  createdAt: string;
+  createdBy: string;
+  project?: string | null;
+  featureName?: string | null;
+  environment?: string | null;
+  preData?: unknown;
+  data?: unknown;
+}
+
+export interface EventSearchOptions {
+  project?: string;
+  feature?: string;
+  /** Event type, e.g. feature-environment-disabled */
+  type?: string;
+  /** Earliest day to include (YYYY-MM-DD) */
+  from?: string;
+  /** Latest day to include (YYYY-MM-DD) */
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EventSearchResult {
+  /** Newest first */
+  events: UnleashEvent[];
+  total: number;
+}
+
+/**
+ * Evaluations SDKs reported for a flag in one environment and application
+ * during one hour. `variants` counts the variant names handed out.
+ */
+export interface FeatureMetricsBucket {
+  featureName: string;
+  appName: string;
+  environment: string;
+  /** Start of the hour */
+  timestamp: string;
+  yes: number;
+  no: number;
+  variants?: Record<string, number>;
+}
+
+/**
+ * Unleash keeps hourly client metrics for two days.
+ */
+export const MAX_METRICS_HOURS_BACK = 48;
+
 export interface StrategyVariantPayload {
   type: 'json' | 'csv' | 'string' | 'number';
   value: string;
@@ -71,6 +195,9 @@ export interface SetFlagRolloutOptions {
   title?: string;
   disabled?: boolean;
   variants?: StrategyVariant[];
+  constraints?: StrategyConstraint[];
+  /** IDs of segments whose constraints must also match */
+  segments?: number[];
 }
 
 export interface FeatureStrategy {
@@ -81,7 +208,7 @@ export interface FeatureStrategy {
   featureName?: string;
   sortOrder?: number;
   segments?: number[];
-  constraints?: Array<Record<string, unknown>>;
+  constraints?: StrategyConstraint[];
   variants?: StrategyVariant[];
   parameters: Record<string, string>;
 }
@@ -95,7 +222,7 @@ export interface FeatureEnvironment {
   sortOrder?: number;
   variantCount?: number;
   strategies?: FeatureStrategy[];
-  variants?: StrategyVariant[];
+  variants?: FeatureVariant[];
   lastSeenAt?: string | null;
   hasStrategies?: boolean;
   hasEnabledStrategies?: boolean;
@@ -115,10 +242,171 @@ export interface FeatureDetails {
   archivedAt?: string | null;
   environments?: FeatureEnvironment[];
   tags?: Array<{ type?: string; value?: string }>;
-  links?: Array<{ id: string; url: string; title?: string | null }>;
+  links?: FeatureLink[];
+  dependencies?: FeatureDependency[];
+  children?: string[];
+  [key: string]: unknown;
+}
+
+export interface FeatureTag {
+  type: string;
+  value: string;
+}
+
+/**
+ * An external link (PR, ticket, file location) attached to a flag.
+ */
+export interface FeatureLink {
+  id: string;
+  url: string;
+  title?: string | null;
+}
+
+/**
+ * A parent flag this flag depends on. The child is only evaluated when the
+ * parent is enabled (or disabled, when `enabled` is false) and, if `variants`
+ * is set, when the parent resolves to one of those variants.
+ */
+export interface FeatureDependency {
+  feature: string;
+  enabled?: boolean;
+  variants?: string[];
+}
+
+/**
+ * Change request settings of one environment in a project (Unleash Enterprise).
+ */
+export interface ChangeRequestEnvironmentConfig {
+  environment: string;
+  type?: string;
+  changeRequestEnabled: boolean;
+  requiredApprovals?: number | null;
+}
+
+export type ChangeRequestAction =
+  | 'updateEnabled'
+  | 'addStrategy'
+  | 'updateStrategy'
+  | 'deleteStrategy'
+  | 'patchVariant';
+
+/**
+ * One change to a flag inside a change request, in the shape the Admin API
+ * expects when drafting, e.g. `{ action: 'updateEnabled', feature, payload: { enabled: true } }`.
+ */
+export interface ChangeRequestChange {
+  action: ChangeRequestAction;
+  feature: string;
+  payload: Record<string, unknown>;
+}
+
+export type ChangeRequestState =
+  | 'Draft'
+  | 'In review'
+  | 'Approved'
+  | 'Scheduled'
+  | 'Applied'
+  | 'Rejected'
+  | 'Cancelled';
+
+export interface ChangeRequest {
+  id: number;
+  title?: string;
+  environment: string;
+  project?: string;
+  state: ChangeRequestState;
+  minApprovals?: number;
+  createdAt?: string;
+  createdBy?: { username?: string | null; imageUrl?: string | null };
+  features?: Array<{
+    name: string;
+    changes: Array<{ id?: number; action: ChangeRequestAction | string; payload: unknown }>;
+  }>;
   [key: string]: unknown;
 }
 
+export interface TagType {
+  name: string;
+  description?: string;
+  icon?: string | null;
+}
+
+/**
+ * Retry behaviour for transient Unleash API failures (429, 502-504, network errors).
+ */
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface UnleashClientOptions {
+  retry?: Partial<RetryOptions>;
+  /**
+   * Abort a single HTTP attempt that takes longer than this (0 disables the timeout).
+   */
+  timeoutMs?: number;
+  /**
+   * How long read-only responses are served from memory before being
+   * revalidated with If-None-Match (0 disables the cache).
+   */
+  cacheTtlMs?: number;
+  /**
+   * Initial projects, environments and flags for the dry-run simulator.
+   */
+  dryRunSeed?: DryRunSeed;
+}
+
+/**
+ * Details about a retry that is about to happen, reported through onRetry.
+ */
+export interface RetryAttempt {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+  method: string;
+  path: string;
+}
+
+/**
+ * Flags changed by a successful mutation, reported through onChange.
+ */
+export interface FeatureChange {
+  projectId: string;
+  featureNames: string[];
+}
+
+/**
+ * Per-call options accepted by every public UnleashClient method.
+ */
+export interface UnleashRequestOptions {
+  onRetry?: (attempt: RetryAttempt) => void | Promise<void>;
+  /**
+   * Cancels the in-flight request (and any pending retry) when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_CACHE_TTL_MS = 30_000;
+
+interface CacheEntry {
+  body: unknown;
+  etag?: string;
+  storedAt: number;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+
 /**
  * Minimal Unleash Admin API client focused on feature flag creation.
  * Uses native fetch (Node 18+) for HTTP requests.
@@ -126,13 +414,51 @@ export interface FeatureDetails {
 export class UnleashClient {
   private readonly baseUrl: string;
   private readonly pat: string;
-  private readonly dryRun: boolean;
+  private readonly retry: RetryOptions;
+  private readonly timeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly dryRunStore?: DryRunStore;
+  private readonly changeListeners = new Set<(change: FeatureChange) => void>();
 
-  constructor(baseUrl: string, pat: string, dryRun: boolean = false) {
+  constructor(
+    baseUrl: string,
+    pat: string,
+    dryRun: boolean = false,
+    options: UnleashClientOptions = {}
+  ) {
     // Ensure baseUrl doesn't have trailing slash
     this.baseUrl = baseUrl.replace(/\/$/, '');
     this.pat = pat;
-    this.dryRun = dryRun;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+
+    if (dryRun) {
+      // Dry-run calls are served by an in-memory model instead of the API
+      this.dryRunStore = new DryRunStore(this.baseUrl, options.dryRunSeed);
+    }
+  }
+
+  /**
+   * Be told about every flag this client changes, in dry-run mode too.
+   * Returns a function that removes the listener.
+   */
+  onChange(listener: (change: FeatureChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget cached reads of flags that were changed outside this client, e.g.
+   * by a teammate in the Unleash UI.
+   */
+  invalidateFeatures(change: FeatureChange): void {
+    this.invalidateCache(
+      change.featureNames.flatMap((featureName) => featureCacheKeys(change.projectId, featureName))
+    );
   }
 
   /**
@@ -146,19 +472,13 @@ export class UnleashClient {
    */
   async createFeatureFlag(
     projectId: string,
-    request: CreateFeatureFlagRequest
+    request: CreateFeatureFlagRequest,
+    requestOptions: UnleashRequestOptions = {}
   ): Promise<CreateFeatureFlagResponse> {
-    if (this.dryRun) {
-      // In dry-run mode, return a mock response
-      return {
-        name: request.name,
-        type: request.type,
-        description: request.description,
-        project: projectId,
-        createdAt: new Date().toISOString(),
-        archived: false,
-        impressionData: request.impressionData ?? false,
-      };
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [request.name] }, (store) =>
+        store.createFeature(projectId, request)
+      );
     }
 
     return this.requestJson<CreateFeatureFlagResponse>(
@@ -168,23 +488,17 @@ export class UnleashClient {
         body: JSON.stringify(request),
       },
       {
+        ...requestOptions,
+        changed: { projectId, featureNames: [request.name] },
+        invalidates: [featureListCacheKey(projectId)],
         errorMessage: 'Failed to create feature flag',
       }
     );
   }
 
-  async listProjects(): Promise<UnleashProjectSummary[]> {
-    if (this.dryRun) {
-      return [
-        {
-          id: 'default',
-          name: 'Default (dry run)',
-          description:
-            'Dry-run mode placeholder. Set UNLEASH_BASE_URL and UNLEASH_PAT to fetch real projects.',
-          createdAt: new Date().toISOString(),
-          url: `${this.baseUrl}/projects/default`,
-        },
-      ];
+  async listProjects(requestOptions: UnleashRequestOptions = {}): Promise<UnleashProjectSummary[]> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.listProjects();
     }
 
     const data = await this.requestJson<{
@@ -200,6 +514,8 @@ export class UnleashClient {
       '/api/admin/projects',
       { method: 'GET' },
       {
+        ...requestOptions,
+        cacheKey: 'projects',
         errorMessage: 'Failed to list projects',
         networkErrorMessage: 'Failed to connect to Unleash API while listing projects',
       }
@@ -222,58 +538,111 @@ export class UnleashClient {
     });
   }
 
-  async listFeatureFlags(projectId: string): Promise<FeatureFlagSummary[]> {
-    if (this.dryRun) {
-      return [
-        {
-          name: 'dry-run-placeholder-flag',
-          description:
-            'Dry-run mode placeholder. Set UNLEASH_BASE_URL and UNLEASH_PAT to fetch real feature flags.',
-          project: projectId,
-          type: 'release',
-          archived: false,
-          impressionData: false,
-          url: `${this.baseUrl}/projects/${encodeURIComponent(projectId)}/features/dry-run-placeholder-flag`,
-        },
-      ];
+  /**
+   * Environments enabled in a project, in the order Unleash shows them.
+   * Endpoint: GET /api/admin/environments/project/{projectId}
+   */
+  async listProjectEnvironments(
+    projectId: string,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<ProjectEnvironment[]> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.listProjectEnvironments(projectId);
+    }
+
+    const data = await this.requestJson<{ environments?: ProjectEnvironment[] }>(
+      `/api/admin/environments/project/${encodeURIComponent(projectId)}`,
+      { method: 'GET' },
+      {
+        ...requestOptions,
+        cacheKey: projectEnvironmentsCacheKey(projectId),
+        errorMessage: `Failed to list environments of project ${projectId}`,
+        networkErrorMessage: `Failed to connect to Unleash API while listing environments of project ${projectId}`,
+      }
+    );
+
+    return (data.environments ?? [])
+      .filter((environment) => environment.enabled !== false)
+      .map((environment) => ({
+        name: environment.name,
+        type: environment.type,
+        sortOrder: environment.sortOrder,
+        enabled: true,
+        ...(environment.protected !== undefined ? { protected: environment.protected } : {}),
+      }))
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Search feature flags in a project, one page at a time.
+   * Endpoint: GET /api/admin/search/features
+   */
+  async listFeatureFlags(
+    projectId: string,
+    search: FeatureFlagSearchOptions = {},
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<FeatureFlagSearchResult> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.searchFeatures(projectId, search);
+    }
+
+    return this.searchProjectFeatureFlags(projectId, search, requestOptions);
+  }
+
+  /**
+   * Search the event log, newest first. Not cached: callers use it to notice
+   * changes.
+   * Endpoint: GET /api/admin/search/events
+   */
+  async searchEvents(
+    search: EventSearchOptions = {},
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<EventSearchResult> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.searchEvents(search);
+    }
+
+    // Filters take the same operator prefix as the feature search
+    const params = new URLSearchParams();
+    for (const key of ['project', 'feature', 'type', 'from', 'to'] as const) {
+      if (search[key]) {
+        params.set(key, `IS:${search[key]}`);
+      }
+    }
+    if (typeof search.limit === 'number') {
+      params.set('limit', String(search.limit));
     }
+    if (typeof search.offset === 'number') {
+      params.set('offset', String(search.offset));
+    }
+
+    const data = await this.requestJson<{ events?: UnleashEvent[]; total?: number }>(
+      `/api/admin/search/events?${params.toString()}`,
+      { method: 'GET' },
+      {
+        ...requestOptions,
+        errorMessage: 'Failed to search the event log',
+        networkErrorMessage: 'Failed to connect to Unleash API while searching the event log',
+      }
+    );
 
-    return this.fetchProjectFeatureFlags(projectId);
+    const events = data.events ?? [];
+    return { events, total: typeof data.total === 'number' ? data.total : events.length };
   }
 
   async setFlexibleRolloutStrategy(
     projectId: string,
     featureName: string,
     environment: string,
-    options: SetFlagRolloutOptions
+    options: SetFlagRolloutOptions,
+    requestOptions: UnleashRequestOptions = {}
   ): Promise<FeatureStrategy> {
-    const rollout = Math.min(100, Math.max(0, options.rolloutPercentage));
-    const parameters: Record<string, string> = {
-      rollout: rollout.toString(),
-      groupId: options.groupId ?? featureName,
-      stickiness: options.stickiness ?? 'default',
-    };
+    const payload = buildFlexibleRolloutStrategy(featureName, options);
 
-    const payload = {
-      name: 'flexibleRollout',
-      title: options.title,
-      disabled: options.disabled,
-      parameters,
-      ...(options.variants && options.variants.length > 0
-        ? { variants: options.variants }
-        : {}),
-    };
-
-    if (this.dryRun) {
-      return {
-        id: 'dry-run-strategy',
-        name: payload.name,
-        title: payload.title ?? null,
-        disabled: payload.disabled ?? false,
-        featureName,
-        parameters,
-        variants: payload.variants ?? [],
-      };
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.addStrategy(projectId, featureName, environment, payload)
+      );
     }
 
     return this.requestJson<FeatureStrategy>(
@@ -283,40 +652,56 @@ export class UnleashClient {
         body: JSON.stringify(payload),
       },
       {
+        ...requestOptions,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
         errorMessage: `Failed to configure flexibleRollout strategy for feature ${featureName} in ${environment}`,
         networkErrorMessage: `Failed to connect to Unleash API while configuring strategy for feature ${featureName}`,
       }
     );
   }
 
+  /**
+   * Add a strategy of any type to an environment, e.g. when copying strategies
+   * between environments or flags.
+   * Endpoint: POST /api/admin/projects/{projectId}/features/{featureName}/environments/{environment}/strategies
+   */
+  async addFeatureStrategy(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    strategy: Omit<FeatureStrategy, 'id'>,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<FeatureStrategy> {
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.addStrategy(projectId, featureName, environment, strategy)
+      );
+    }
+
+    return this.requestJson<FeatureStrategy>(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/environments/${encodeURIComponent(environment)}/strategies`,
+      {
+        method: 'POST',
+        body: JSON.stringify(strategy),
+      },
+      {
+        ...requestOptions,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to add ${strategy.name} strategy to feature ${featureName} in ${environment}`,
+        networkErrorMessage: `Failed to connect to Unleash API while adding strategy to feature ${featureName}`,
+      }
+    );
+  }
+
   async getFeature(
     projectId: string,
-    featureName: string
+    featureName: string,
+    requestOptions: UnleashRequestOptions = {}
   ): Promise<FeatureDetails> {
-    if (this.dryRun) {
-      return {
-        name: featureName,
-        project: projectId,
-        type: 'release',
-        description: `Dry-run feature summary for ${featureName}`,
-        enabled: false,
-        archived: false,
-        impressionData: false,
-        stale: false,
-        createdAt: new Date().toISOString(),
-        environments: [
-          {
-            name: 'development',
-            environment: 'development',
-            featureName,
-            enabled: false,
-            strategies: [],
-            variants: [],
-            hasStrategies: false,
-            hasEnabledStrategies: false,
-          },
-        ],
-      };
+    if (this.dryRunStore) {
+      return this.dryRunStore.getFeature(projectId, featureName);
     }
 
     return this.requestJson<FeatureDetails>(
@@ -325,105 +710,117 @@ export class UnleashClient {
         method: 'GET',
       },
       {
+        ...requestOptions,
+        cacheKey: featureCacheKey(projectId, featureName),
         errorMessage: `Failed to fetch feature ${featureName} in project ${projectId}`,
         networkErrorMessage: `Failed to connect to Unleash API while fetching feature ${featureName}`,
       }
     );
   }
 
-  async deleteFeatureStrategy(
-    projectId: string,
+  /**
+   * Hourly evaluation counts SDKs reported for a flag over the last hoursBack
+   * hours (1-48), per environment and application.
+   * Endpoint: GET /api/admin/client-metrics/features/{featureName}/raw
+   */
+  async getFeatureMetrics(
     featureName: string,
-    environment: string,
-    strategyId: string
-  ): Promise<void> {
-    if (this.dryRun) {
-      return;
+    hoursBack: number = 24,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<FeatureMetricsBucket[]> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.getFeatureMetrics(featureName, hoursBack);
     }
 
-    const path = `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/environments/${encodeURIComponent(environment)}/strategies/${encodeURIComponent(strategyId)}`;
-    const url = `${this.baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
-    const headers = this.buildRequestHeaders();
-
-    try {
-      const response = await fetch(url, {
-        method: 'DELETE',
-        headers,
-      });
-
-      if (!response.ok) {
-        const rawBody = await response.text();
-        let message = `Failed to delete strategy ${strategyId} from feature ${featureName} in ${environment}: ${response.status} ${response.statusText}`;
-
-        try {
-          const parsed = JSON.parse(rawBody) as {
-            message?: string;
-            details?: Array<{ message?: string }>;
-          };
-
-          if (parsed.message) {
-            message = parsed.message;
-          } else if (parsed.details && Array.isArray(parsed.details)) {
-            const detailMessages = parsed.details
-              .map((detail) => detail.message)
-              .filter((detail): detail is string => Boolean(detail));
-
-            if (detailMessages.length > 0) {
-              message = detailMessages.join(', ');
-            }
-          }
-        } catch {
-          if (rawBody && rawBody.length < 200) {
-            message += `: ${rawBody}`;
-          }
-        }
-
-        throw new CustomError(`HTTP_${response.status}`, message);
-      }
-    } catch (error) {
-      if (error instanceof CustomError) {
-        throw error;
+    const data = await this.requestJson<{ data?: FeatureMetricsBucket[] }>(
+      `/api/admin/client-metrics/features/${encodeURIComponent(featureName)}/raw?hoursBack=${hoursBack}`,
+      { method: 'GET' },
+      {
+        ...requestOptions,
+        cacheKey: featureMetricsCacheKey(featureName, hoursBack),
+        errorMessage: `Failed to fetch metrics for feature ${featureName}`,
+        networkErrorMessage: `Failed to connect to Unleash API while fetching metrics for feature ${featureName}`,
       }
+    );
+
+    return data.data ?? [];
+  }
 
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        const hint = `Check that UNLEASH_BASE_URL (${this.baseUrl}) is reachable.`;
+  /**
+   * Replace an existing strategy in place, keeping its ID and position.
+   * Endpoint: PUT /api/admin/projects/{projectId}/features/{featureName}/environments/{environment}/strategies/{strategyId}
+   */
+  async updateFeatureStrategy(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    strategyId: string,
+    strategy: Omit<FeatureStrategy, 'id'>,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<FeatureStrategy> {
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.updateStrategy(projectId, featureName, environment, strategyId, strategy)
+      );
+    }
 
-        throw new CustomError(
-          'NETWORK_ERROR',
-          `Failed to connect to Unleash API while deleting strategy for feature ${featureName}`,
-          hint
-        );
+    return this.requestJson<FeatureStrategy>(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/environments/${encodeURIComponent(environment)}/strategies/${encodeURIComponent(strategyId)}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(strategy),
+      },
+      {
+        ...requestOptions,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to update strategy ${strategyId} for feature ${featureName} in ${environment}`,
+        networkErrorMessage: `Failed to connect to Unleash API while updating strategy for feature ${featureName}`,
       }
+    );
+  }
 
-      throw error;
+  async deleteFeatureStrategy(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    strategyId: string,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.deleteStrategy(projectId, featureName, environment, strategyId)
+      );
+      return;
     }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/environments/${encodeURIComponent(environment)}/strategies/${encodeURIComponent(strategyId)}`,
+      {
+        method: 'DELETE',
+      },
+      {
+        ...requestOptions,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to delete strategy ${strategyId} from feature ${featureName} in ${environment}`,
+        networkErrorMessage: `Failed to connect to Unleash API while deleting strategy for feature ${featureName}`,
+      },
+      async () => undefined
+    );
   }
 
   async toggleFeatureEnvironment(
     projectId: string,
     featureName: string,
     environment: string,
-    enabled: boolean
+    enabled: boolean,
+    requestOptions: UnleashRequestOptions = {}
   ): Promise<FeatureDetails> {
-    if (this.dryRun) {
-      const feature = await this.getFeature(projectId, featureName);
-      const environments = feature.environments ?? [];
-      const updatedEnvironments = environments.map((env) =>
-        env.environment?.toLowerCase() === environment.toLowerCase() ||
-        env.name.toLowerCase() === environment.toLowerCase()
-          ? {
-              ...env,
-              enabled,
-              hasEnabledStrategies: enabled ? env.hasEnabledStrategies ?? true : false,
-            }
-          : env
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.toggleEnvironment(projectId, featureName, environment, enabled)
       );
-
-      return {
-        ...feature,
-        enabled: feature.enabled ?? enabled,
-        environments: updatedEnvironments,
-      };
     }
 
     const path = `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/environments/${encodeURIComponent(environment)}/${enabled ? 'on' : 'off'}`;
@@ -434,35 +831,611 @@ export class UnleashClient {
         method: 'POST',
       },
       {
+        ...requestOptions,
+        // Turning an environment on or off is idempotent, so replaying is safe
+        retrySafe: true,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
         errorMessage: `Failed to turn ${enabled ? 'on' : 'off'} feature ${featureName} in ${environment}`,
         networkErrorMessage: `Failed to connect to Unleash API while toggling feature ${featureName}`,
       }
     );
   }
 
-  private async fetchProjectFeatureFlags(
-    projectId: string
-  ): Promise<FeatureFlagSummary[]> {
+  /**
+   * Replace all feature variants of one environment.
+   * Endpoint: PUT /api/admin/projects/{projectId}/features/{featureName}/environments/{environment}/variants
+   *
+   * Unleash recalculates the weights of variable variants, so the returned
+   * list is the authoritative result.
+   */
+  async setEnvironmentVariants(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    variants: FeatureVariant[],
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<FeatureVariant[]> {
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.setEnvironmentVariants(projectId, featureName, environment, variants)
+      );
+    }
+
+    const response = await this.requestJson<{ version: number; variants: FeatureVariant[] }>(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/environments/${encodeURIComponent(environment)}/variants`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(variants),
+      },
+      {
+        ...requestOptions,
+        // The whole list is replaced, so replaying the request is safe
+        retrySafe: true,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to set variants for feature ${featureName} in ${environment}`,
+        networkErrorMessage: `Failed to connect to Unleash API while setting variants for feature ${featureName}`,
+      }
+    );
+
+    return response.variants;
+  }
+
+  /**
+   * Apply JSON Patch operations to a feature flag's metadata.
+   * Endpoint: PATCH /api/admin/projects/{projectId}/features/{featureName}
+   */
+  async patchFeatureFlag(
+    projectId: string,
+    featureName: string,
+    operations: FeatureFlagPatchOperation[],
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<FeatureDetails> {
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.patchFeature(projectId, featureName, operations)
+      );
+    }
+
+    return this.requestJson<FeatureDetails>(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(operations),
+      },
+      {
+        ...requestOptions,
+        // Replacing a value is idempotent; add/remove on arrays is not
+        retrySafe: operations.every((operation) => operation.op === 'replace'),
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to update feature ${featureName} in project ${projectId}`,
+        networkErrorMessage: `Failed to connect to Unleash API while updating feature ${featureName}`,
+      }
+    );
+  }
+
+  /**
+   * Mark feature flags as stale, or clear the stale mark.
+   * Endpoint: POST /api/admin/projects/{projectId}/stale
+   */
+  async markFeaturesStale(
+    projectId: string,
+    featureNames: string[],
+    stale: boolean,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.simulate({ projectId, featureNames }, (store) =>
+        store.markStale(projectId, featureNames, stale)
+      );
+      return;
+    }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/stale`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ features: featureNames, stale }),
+      },
+      {
+        ...requestOptions,
+        // Setting the stale flag to a fixed value is idempotent
+        retrySafe: true,
+        changed: { projectId, featureNames },
+        invalidates: [
+          featureListCacheKey(projectId),
+          ...featureNames.map((featureName) => featureCacheKey(projectId, featureName)),
+        ],
+        errorMessage: `Failed to mark ${featureNames.join(', ')} as ${stale ? 'stale' : 'active'}`,
+        networkErrorMessage: `Failed to connect to Unleash API while updating stale state in project ${projectId}`,
+      },
+      async () => undefined
+    );
+  }
+
+  /**
+   * Archive a feature flag. Archived flags stop being served to SDKs but can be revived.
+   * Endpoint: DELETE /api/admin/projects/{projectId}/features/{featureName}
+   */
+  async archiveFeatureFlag(
+    projectId: string,
+    featureName: string,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.archiveFeature(projectId, featureName)
+      );
+      return;
+    }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}`,
+      {
+        method: 'DELETE',
+      },
+      {
+        ...requestOptions,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to archive feature ${featureName} in project ${projectId}`,
+        networkErrorMessage: `Failed to connect to Unleash API while archiving feature ${featureName}`,
+      },
+      async () => undefined
+    );
+  }
+
+  /**
+   * Restore archived feature flags. Unleash revives them disabled in every environment.
+   * Endpoint: POST /api/admin/projects/{projectId}/revive
+   */
+  async reviveFeatureFlags(
+    projectId: string,
+    featureNames: string[],
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.simulate({ projectId, featureNames }, (store) =>
+        store.reviveFeatures(projectId, featureNames)
+      );
+      return;
+    }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/revive`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ features: featureNames }),
+      },
+      {
+        ...requestOptions,
+        changed: { projectId, featureNames },
+        invalidates: [
+          featureListCacheKey(projectId),
+          ...featureNames.map((featureName) => featureCacheKey(projectId, featureName)),
+        ],
+        errorMessage: `Failed to revive ${featureNames.join(', ')} in project ${projectId}`,
+        networkErrorMessage: `Failed to connect to Unleash API while reviving features in project ${projectId}`,
+      },
+      async () => undefined
+    );
+  }
+
+  /**
+   * Add and remove tags on a feature flag in one request.
+   * Endpoint: PUT /api/admin/features/{featureName}/tags
+   *
+   * The endpoint is not project-scoped; projectId is only used to invalidate
+   * cached reads of the flag.
+   */
+  async updateFeatureTags(
+    projectId: string,
+    featureName: string,
+    changes: { addedTags: FeatureTag[]; removedTags: FeatureTag[] },
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<FeatureTag[]> {
+    if (this.dryRunStore) {
+      return this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.updateTags(featureName, changes.addedTags, changes.removedTags)
+      );
+    }
+
+    const response = await this.requestJson<{ version: number; tags: FeatureTag[] }>(
+      `/api/admin/features/${encodeURIComponent(featureName)}/tags`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(changes),
+      },
+      {
+        ...requestOptions,
+        // Adding a tag that is present or removing one that is gone is a no-op
+        retrySafe: true,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to update tags of feature ${featureName}`,
+        networkErrorMessage: `Failed to connect to Unleash API while updating tags of feature ${featureName}`,
+      }
+    );
+
+    return response.tags;
+  }
+
+  /**
+   * Attach an external link to a feature flag.
+   * Endpoint: POST /api/admin/projects/{projectId}/features/{featureName}/link
+   */
+  async addFeatureLink(
+    projectId: string,
+    featureName: string,
+    link: { url: string; title?: string },
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.simulate({ projectId, featureNames: [featureName] }, (store) =>
+        store.addLink(projectId, featureName, link)
+      );
+      return;
+    }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/link`,
+      {
+        method: 'POST',
+        body: JSON.stringify(link),
+      },
+      {
+        ...requestOptions,
+        changed: { projectId, featureNames: [featureName] },
+        invalidates: featureCacheKeys(projectId, featureName),
+        errorMessage: `Failed to add link to feature ${featureName}`,
+        networkErrorMessage: `Failed to connect to Unleash API while adding link to feature ${featureName}`,
+      },
+      async () => undefined
+    );
+  }
+
+  /**
+   * Make a flag depend on a parent flag in the same project.
+   * Endpoint: POST /api/admin/projects/{projectId}/features/{featureName}/dependencies
+   */
+  async addFeatureDependency(
+    projectId: string,
+    featureName: string,
+    dependency: FeatureDependency,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.simulate({ projectId, featureNames: [featureName, dependency.feature] }, (store) =>
+        store.addDependency(projectId, featureName, dependency)
+      );
+      return;
+    }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/dependencies`,
+      {
+        method: 'POST',
+        body: JSON.stringify(dependency),
+      },
+      {
+        ...requestOptions,
+        // Re-adding the same dependency is an upsert
+        retrySafe: true,
+        changed: { projectId, featureNames: [featureName, dependency.feature] },
+        invalidates: [
+          ...featureCacheKeys(projectId, featureName),
+          featureCacheKey(projectId, dependency.feature),
+        ],
+        errorMessage: `Failed to add dependency on ${dependency.feature} to feature ${featureName}`,
+        networkErrorMessage: `Failed to connect to Unleash API while adding a dependency to feature ${featureName}`,
+      },
+      async () => undefined
+    );
+  }
+
+  /**
+   * Remove a flag's dependency on one parent flag.
+   * Endpoint: DELETE /api/admin/projects/{projectId}/features/{featureName}/dependencies/{parent}
+   */
+  async deleteFeatureDependency(
+    projectId: string,
+    featureName: string,
+    parent: string,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.simulate({ projectId, featureNames: [featureName, parent] }, (store) =>
+        store.deleteDependency(projectId, featureName, parent)
+      );
+      return;
+    }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}/dependencies/${encodeURIComponent(parent)}`,
+      {
+        method: 'DELETE',
+      },
+      {
+        ...requestOptions,
+        changed: { projectId, featureNames: [featureName, parent] },
+        invalidates: [
+          ...featureCacheKeys(projectId, featureName),
+          featureCacheKey(projectId, parent),
+        ],
+        errorMessage: `Failed to remove dependency on ${parent} from feature ${featureName}`,
+        networkErrorMessage: `Failed to connect to Unleash API while removing a dependency from feature ${featureName}`,
+      },
+      async () => undefined
+    );
+  }
+
+  /**
+   * List the tag types that tags can be created with.
+   * Endpoint: GET /api/admin/tag-types
+   */
+  async listTagTypes(requestOptions: UnleashRequestOptions = {}): Promise<TagType[]> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.listTagTypes();
+    }
+
+    const data = await this.requestJson<{ version: number; tagTypes?: TagType[] }>(
+      '/api/admin/tag-types',
+      { method: 'GET' },
+      {
+        ...requestOptions,
+        cacheKey: TAG_TYPES_CACHE_KEY,
+        errorMessage: 'Failed to list tag types',
+        networkErrorMessage: 'Failed to connect to Unleash API while listing tag types',
+      }
+    );
+
+    return data.tagTypes ?? [];
+  }
+
+  /**
+   * Create a tag type so that tags of that type can be added to flags.
+   * Endpoint: POST /api/admin/tag-types
+   */
+  async createTagType(
+    tagType: { name: string; description?: string },
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<TagType> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.createTagType(tagType);
+    }
+
+    return this.requestJson<TagType>(
+      '/api/admin/tag-types',
+      {
+        method: 'POST',
+        body: JSON.stringify(tagType),
+      },
+      {
+        ...requestOptions,
+        invalidates: [TAG_TYPES_CACHE_KEY],
+        errorMessage: `Failed to create tag type ${tagType.name}`,
+        networkErrorMessage: `Failed to connect to Unleash API while creating tag type ${tagType.name}`,
+      }
+    );
+  }
+
+  /**
+   * Change request settings for every environment of a project.
+   * Endpoint: GET /api/admin/projects/{projectId}/change-requests/config
+   *
+   * Change requests are an Unleash Enterprise feature; instances without it
+   * answer 404, which is reported as no environment requiring them.
+   */
+  async getChangeRequestConfig(
+    projectId: string,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<ChangeRequestEnvironmentConfig[]> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.getChangeRequestConfig(projectId);
+    }
+
+    try {
+      return await this.requestJson<ChangeRequestEnvironmentConfig[]>(
+        `/api/admin/projects/${encodeURIComponent(projectId)}/change-requests/config`,
+        { method: 'GET' },
+        {
+          ...requestOptions,
+          cacheKey: changeRequestConfigCacheKey(projectId),
+          errorMessage: `Failed to read change request settings of project ${projectId}`,
+          networkErrorMessage: `Failed to connect to Unleash API while reading change request settings of project ${projectId}`,
+        }
+      );
+    } catch (error) {
+      if (error instanceof CustomError && error.code === 'HTTP_404') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether changes to the environment must go through a change request.
+   */
+  async changeRequestsEnabled(
+    projectId: string,
+    environment: string,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<boolean> {
+    const config = await this.getChangeRequestConfig(projectId, requestOptions);
+    return config.some(
+      (entry) =>
+        entry.changeRequestEnabled && entry.environment.toLowerCase() === environment.toLowerCase()
+    );
+  }
+
+  /**
+   * Add changes to the caller's draft change request for an environment,
+   * creating the draft if there is none.
+   * Endpoint: POST /api/admin/projects/{projectId}/environments/{environment}/change-requests
+   */
+  async createChangeRequest(
+    projectId: string,
+    environment: string,
+    changes: ChangeRequestChange[],
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<ChangeRequest> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.createChangeRequest(projectId, environment, changes);
+    }
+
+    return this.requestJson<ChangeRequest>(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/environments/${encodeURIComponent(environment)}/change-requests`,
+      {
+        method: 'POST',
+        body: JSON.stringify(changes),
+      },
+      {
+        ...requestOptions,
+        invalidates: [changeRequestListCacheKey(projectId)],
+        errorMessage: `Failed to draft a change request in ${environment}`,
+        networkErrorMessage: `Failed to connect to Unleash API while drafting a change request in ${environment}`,
+      }
+    );
+  }
+
+  /**
+   * List the open (draft, in review, approved or scheduled) change requests of a project.
+   * Endpoint: GET /api/admin/projects/{projectId}/change-requests/open
+   */
+  async listChangeRequests(
+    projectId: string,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<ChangeRequest[]> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.listChangeRequests(projectId);
+    }
+
+    return this.requestJson<ChangeRequest[]>(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/change-requests/open`,
+      { method: 'GET' },
+      {
+        ...requestOptions,
+        cacheKey: changeRequestListCacheKey(projectId),
+        errorMessage: `Failed to list change requests of project ${projectId}`,
+        networkErrorMessage: `Failed to connect to Unleash API while listing change requests of project ${projectId}`,
+      }
+    );
+  }
+
+  /**
+   * Endpoint: GET /api/admin/projects/{projectId}/change-requests/{id}
+   */
+  async getChangeRequest(
+    projectId: string,
+    changeRequestId: number,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<ChangeRequest> {
+    if (this.dryRunStore) {
+      return this.dryRunStore.getChangeRequest(projectId, changeRequestId);
+    }
+
+    return this.requestJson<ChangeRequest>(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/change-requests/${changeRequestId}`,
+      { method: 'GET' },
+      {
+        ...requestOptions,
+        errorMessage: `Failed to read change request ${changeRequestId}`,
+        networkErrorMessage: `Failed to connect to Unleash API while reading change request ${changeRequestId}`,
+      }
+    );
+  }
+
+  /**
+   * Move a change request to a new state, e.g. submit a draft for review.
+   * Endpoint: PUT /api/admin/projects/{projectId}/change-requests/{id}/state
+   */
+  async updateChangeRequestState(
+    projectId: string,
+    changeRequestId: number,
+    state: Extract<ChangeRequestState, 'In review' | 'Cancelled'>,
+    requestOptions: UnleashRequestOptions = {}
+  ): Promise<void> {
+    if (this.dryRunStore) {
+      this.dryRunStore.updateChangeRequestState(projectId, changeRequestId, state);
+      return;
+    }
+
+    await this.request(
+      `/api/admin/projects/${encodeURIComponent(projectId)}/change-requests/${changeRequestId}/state`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ state }),
+      },
+      {
+        ...requestOptions,
+        invalidates: [changeRequestListCacheKey(projectId)],
+        errorMessage: `Failed to move change request ${changeRequestId} to ${state}`,
+        networkErrorMessage: `Failed to connect to Unleash API while updating change request ${changeRequestId}`,
+      },
+      async () => undefined
+    );
+  }
+
+  private async searchProjectFeatureFlags(
+    projectId: string,
+    search: FeatureFlagSearchOptions,
+    requestOptions: UnleashRequestOptions
+  ): Promise<FeatureFlagSearchResult> {
+    // The search endpoint expects operator-prefixed filter values (IS:, INCLUDE:)
+    const params = new URLSearchParams({ project: `IS:${projectId}` });
+
+    if (search.query) {
+      params.set('query', search.query);
+    }
+    if (search.type) {
+      params.set('type', `IS:${search.type}`);
+    }
+    if (search.tag) {
+      params.set('tag', `INCLUDE:${search.tag}`);
+    }
+    if (search.state) {
+      params.set('state', `IS:${search.state}`);
+    }
+    if (search.createdBy) {
+      params.set('createdBy', `IS:${search.createdBy}`);
+    }
+    if (typeof search.limit === 'number') {
+      params.set('limit', String(search.limit));
+    }
+    if (typeof search.offset === 'number') {
+      params.set('offset', String(search.offset));
+    }
+    params.set('sortBy', 'name');
+    params.set('sortOrder', search.order ?? 'asc');
+
     const data = await this.requestJson<{
       features?: Array<{
         name?: string;
         description?: string;
         type?: FeatureFlagType;
-        archived?: boolean;
+        archivedAt?: string | null;
         impressionData?: boolean;
+        stale?: boolean;
         createdAt?: string;
+        createdBy?: { id?: number; name?: string };
         project?: string;
+        tags?: Array<{ type?: string; value?: string }>;
       }>;
+      total?: number;
     }>(
-      `/api/admin/projects/${encodeURIComponent(projectId)}/features`,
+      `/api/admin/search/features?${params.toString()}`,
       { method: 'GET' },
       {
+        ...requestOptions,
+        cacheKey: `${featureListCacheKey(projectId)}${params.toString()}`,
         errorMessage: `Failed to list feature flags for project ${projectId}`,
         networkErrorMessage: `Failed to connect to Unleash API while listing flags for project ${projectId}`,
       }
     );
 
-    return (data.features ?? [])
+    const flags = (data.features ?? [])
       .filter((f) => f.name)
       .map((feature) => {
         const name = feature.name!;
@@ -472,12 +1445,20 @@ export class UnleashClient {
           description: feature.description,
           project,
           type: feature.type,
-          archived: feature.archived,
+          archived: Boolean(feature.archivedAt),
           impressionData: feature.impressionData,
+          stale: feature.stale,
           createdAt: feature.createdAt,
+          createdBy: feature.createdBy,
+          tags: feature.tags,
           url: `${this.baseUrl}/projects/${encodeURIComponent(project)}/features/${encodeURIComponent(name)}`,
         };
       });
+
+    return {
+      flags,
+      total: typeof data.total === 'number' ? data.total : flags.length,
+    };
   }
 
   /**
@@ -504,73 +1485,414 @@ export class UnleashClient {
     };
   }
 
+  /**
+   * Apply a mutation to the dry-run model and report it like a real request.
+   */
+  private simulate<T>(change: FeatureChange, mutate: (store: DryRunStore) => T): T {
+    const result = mutate(this.dryRunStore!);
+    this.emitChange(change);
+    return result;
+  }
+
+  private emitChange(change: FeatureChange): void {
+    for (const listener of this.changeListeners) {
+      listener(change);
+    }
+  }
+
+  /**
+   * Drop cached responses whose key starts with any of the given prefixes.
+   */
+  private invalidateCache(prefixes: string[]): void {
+    for (const key of this.cache.keys()) {
+      if (prefixes.some((prefix) => key.startsWith(prefix))) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
   private async requestJson<T>(
     path: string,
     init: RequestInit,
-    options: {
-      errorMessage: string;
-      networkErrorMessage?: string;
+    options: RequestJsonOptions
+  ): Promise<T> {
+    if (!options.cacheKey || this.cacheTtlMs <= 0) {
+      return this.request(path, init, options, async (response) => (await response.json()) as T);
     }
+
+    const cacheKey = options.cacheKey;
+    const cached = this.cache.get(cacheKey);
+
+    if (cached && Date.now() - cached.storedAt < this.cacheTtlMs) {
+      return structuredClone(cached.body) as T;
+    }
+
+    // Stale entries are revalidated: a 304 lets us keep the cached body
+    const entry = await this.request(
+      path,
+      {
+        ...init,
+        headers: {
+          ...(init.headers ? (init.headers as Record<string, string>) : {}),
+          ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+        },
+      },
+      options,
+      async (response): Promise<CacheEntry> => {
+        if (response.status === 304 && cached) {
+          return { ...cached, storedAt: Date.now() };
+        }
+
+        return {
+          body: await response.json(),
+          etag: response.headers.get('etag') ?? undefined,
+          storedAt: Date.now(),
+        };
+      }
+    );
+
+    this.cache.set(cacheKey, entry);
+    return structuredClone(entry.body) as T;
+  }
+
+  /**
+   * Perform a request and invalidate the cache entries it affects, whether or
+   * not it succeeded (a failed mutation may still have been applied).
+   */
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    options: RequestJsonOptions,
+    readBody: (response: Response) => Promise<T>
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await this.sendWithRetries(path, init, options, readBody);
+    } finally {
+      if (options.invalidates) {
+        this.invalidateCache(options.invalidates);
+      }
+    }
+
+    if (options.changed) {
+      this.emitChange(options.changed);
+    }
+    return result;
+  }
+
+  /**
+   * Perform an Admin API request, retrying transient failures.
+   * Only idempotent methods (or requests flagged retrySafe) are retried, with
+   * exponential backoff and full jitter, honouring Retry-After when present.
+   * Each attempt is bounded by the configured timeout and aborted as soon as
+   * the caller's signal fires.
+   */
+  private async sendWithRetries<T>(
+    path: string,
+    init: RequestInit,
+    options: RequestJsonOptions,
+    readBody: (response: Response) => Promise<T>
   ): Promise<T> {
     const url = `${this.baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
     const headers = {
       ...this.buildRequestHeaders(),
       ...(init.headers ? (init.headers as Record<string, string>) : {}),
     };
+    const method = (init.method ?? 'GET').toUpperCase();
+    const canRetry = options.retrySafe === true || IDEMPOTENT_METHODS.has(method);
+    const maxRetries = canRetry ? this.retry.maxRetries : 0;
 
-    try {
-      const response = await fetch(url, {
-        ...init,
-        headers,
-      });
+    for (let attempt = 0; ; attempt++) {
+      this.throwIfCancelled(options.signal, method, path);
 
-      if (!response.ok) {
-        const rawBody = await response.text();
-        let message = `${options.errorMessage}: ${response.status} ${response.statusText}`;
-
-        try {
-          const parsed = JSON.parse(rawBody) as {
-            message?: string;
-            details?: Array<{ message?: string }>;
-          };
-
-          if (parsed.message) {
-            message = parsed.message;
-          } else if (parsed.details && Array.isArray(parsed.details)) {
-            const detailMessages = parsed.details
-              .map((detail) => detail.message)
-              .filter((detail): detail is string => Boolean(detail));
-
-            if (detailMessages.length > 0) {
-              message = detailMessages.join(', ');
-            }
-          }
-        } catch {
-          if (rawBody && rawBody.length < 200) {
-            message += `: ${rawBody}`;
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer =
+        this.timeoutMs > 0
+          ? setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, this.timeoutMs)
+          : undefined;
+      const onCancel = () => controller.abort();
+      options.signal?.addEventListener('abort', onCancel, { once: true });
+
+      let retryReason: string | undefined;
+      let retryAfterMs: number | undefined;
+
+      try {
+        const response = await fetch(url, {
+          ...init,
+          headers,
+          signal: controller.signal,
+        });
+
+        if (response.ok || (response.status === 304 && options.cacheKey)) {
+          return await readBody(response);
+        }
+
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        const retryable =
+          RETRYABLE_STATUSES.has(response.status) &&
+          attempt < maxRetries &&
+          (retryAfterMs === undefined || retryAfterMs <= this.retry.maxDelayMs);
+
+        if (!retryable) {
+          throw await this.buildHttpError(response, options.errorMessage, attempt);
+        }
+
+        // Drain the body so the connection can be reused
+        await response.text().catch(() => undefined);
+        retryReason = `HTTP ${response.status}`;
+      } catch (error) {
+        if (error instanceof CustomError) {
+          throw error;
+        }
+
+        if (controller.signal.aborted) {
+          if (timedOut) {
+            throw new CustomError(
+              'TIMEOUT',
+              `${options.errorMessage}: no response from Unleash within ${this.timeoutMs}ms`,
+              'The Unleash instance may be overloaded or unreachable. Try again later or raise UNLEASH_REQUEST_TIMEOUT_MS.'
+            );
           }
+
+          throw this.cancelledError(method, path);
         }
 
-        throw new CustomError(`HTTP_${response.status}`, message);
-      }
+        if (!(error instanceof TypeError && error.message.includes('fetch'))) {
+          throw error;
+        }
 
-      return (await response.json()) as T;
-    } catch (error) {
-      if (error instanceof CustomError) {
-        throw error;
+        if (attempt >= maxRetries) {
+          const hint = `Check that UNLEASH_BASE_URL (${this.baseUrl}) is reachable.`;
+
+          throw new CustomError(
+            'NETWORK_ERROR',
+            options.networkErrorMessage ?? 'Failed to connect to Unleash API',
+            attempt > 0 ? `${hint} Gave up after ${attempt} retries.` : hint
+          );
+        }
+
+        retryReason = 'network error';
+        retryAfterMs = undefined;
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onCancel);
       }
 
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        const hint = `Check that UNLEASH_BASE_URL (${this.baseUrl}) is reachable.`;
+      await this.waitBeforeRetry(attempt, retryAfterMs, retryReason, method, path, options);
+    }
+  }
+
+  private async waitBeforeRetry(
+    attempt: number,
+    retryAfterMs: number | undefined,
+    reason: string,
+    method: string,
+    path: string,
+    options: RequestJsonOptions
+  ): Promise<void> {
+    const delayMs = retryAfterMs ?? this.computeBackoff(attempt);
 
-        throw new CustomError(
-          'NETWORK_ERROR',
-          options.networkErrorMessage ?? 'Failed to connect to Unleash API',
-          hint
-        );
+    if (options.onRetry) {
+      try {
+        await options.onRetry({
+          attempt: attempt + 1,
+          maxRetries: this.retry.maxRetries,
+          delayMs,
+          reason,
+          method,
+          path,
+        });
+      } catch {
+        // Reporting is best effort and must not break the request
       }
+    }
 
-      throw error;
+    // An abort that already happened will not fire the listener below
+    this.throwIfCancelled(options.signal, method, path);
+
+    await new Promise<void>((resolve, reject) => {
+      const signal = options.signal;
+      const onCancel = () => {
+        clearTimeout(timer);
+        reject(this.cancelledError(method, path));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onCancel);
+        resolve();
+      }, delayMs);
+
+      signal?.addEventListener('abort', onCancel, { once: true });
+    });
+  }
+
+  private throwIfCancelled(signal: AbortSignal | undefined, method: string, path: string): void {
+    if (signal?.aborted) {
+      throw this.cancelledError(method, path);
     }
   }
+
+  private cancelledError(method: string, path: string): CustomError {
+    return new CustomError(
+      'CANCELLED',
+      `Request ${method} ${path} was cancelled before it completed`,
+      'The MCP client cancelled the call. The change may or may not have been applied; check the flag state before retrying.'
+    );
+  }
+
+  /**
+   * Exponential backoff with full jitter: a random delay between 0 and
+   * min(maxDelayMs, baseDelayMs * 2^attempt).
+   */
+  private computeBackoff(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private async buildHttpError(
+    response: Response,
+    errorMessage: string,
+    retries: number
+  ): Promise<CustomError> {
+    const rawBody = await response.text();
+    let message = `${errorMessage}: ${response.status} ${response.statusText}`;
+
+    try {
+      const parsed = JSON.parse(rawBody) as {
+        message?: string;
+        details?: Array<{ message?: string }>;
+      };
+
+      if (parsed.message) {
+        message = parsed.message;
+      } else if (parsed.details && Array.isArray(parsed.details)) {
+        const detailMessages = parsed.details
+          .map((detail) => detail.message)
+          .filter((detail): detail is string => Boolean(detail));
+
+        if (detailMessages.length > 0) {
+          message = detailMessages.join(', ');
+        }
+      }
+    } catch {
+      if (rawBody && rawBody.length < 200) {
+        message += `: ${rawBody}`;
+      }
+    }
+
+    const hint = getHttpErrorHint(response.status);
+    const retrySuffix = retries > 0 ? ` Gave up after ${retries} retries.` : '';
+
+    return new CustomError(
+      `HTTP_${response.status}`,
+      message,
+      hint || retrySuffix ? `${hint ?? ''}${retrySuffix}`.trim() : undefined
+    );
+  }
+}
+
+interface RequestJsonOptions extends UnleashRequestOptions {
+  errorMessage: string;
+  networkErrorMessage?: string;
+  /**
+   * Allow retries for a non-idempotent method because replaying it is harmless.
+   */
+  retrySafe?: boolean;
+  /**
+   * Cache the response of this read under the given key.
+   */
+  cacheKey?: string;
+  /**
+   * Cache key prefixes to drop once this mutation has been sent.
+   */
+  invalidates?: string[];
+  /**
+   * Flags the request changes, reported to change listeners once it succeeds.
+   */
+  changed?: FeatureChange;
+}
+
+/**
+ * The flexibleRollout strategy that set_flag_rollout adds, as sent to the
+ * strategies endpoint or embedded in an addStrategy change request.
+ */
+export function buildFlexibleRolloutStrategy(
+  featureName: string,
+  options: SetFlagRolloutOptions
+): Omit<FeatureStrategy, 'id'> {
+  const rollout = Math.min(100, Math.max(0, options.rolloutPercentage));
+
+  return {
+    name: 'flexibleRollout',
+    title: options.title,
+    disabled: options.disabled,
+    parameters: {
+      rollout: rollout.toString(),
+      groupId: options.groupId ?? featureName,
+      stickiness: options.stickiness ?? 'default',
+    },
+    constraints: options.constraints ?? [],
+    ...(options.segments && options.segments.length > 0 ? { segments: options.segments } : {}),
+    ...(options.variants && options.variants.length > 0 ? { variants: options.variants } : {}),
+  };
+}
+
+const TAG_TYPES_CACHE_KEY = 'tag-types';
+
+// Keys are matched by prefix when invalidating, so each part is encoded (no
+// ":" inside) and terminated: dropping "my-flag" must not drop "my-flag-2"
+function projectEnvironmentsCacheKey(projectId: string): string {
+  return `project-environments:${encodeURIComponent(projectId)}:`;
+}
+
+function changeRequestConfigCacheKey(projectId: string): string {
+  return `change-request-config:${encodeURIComponent(projectId)}:`;
+}
+
+function changeRequestListCacheKey(projectId: string): string {
+  return `change-requests:${encodeURIComponent(projectId)}:`;
+}
+
+function featureListCacheKey(projectId: string): string {
+  return `features:${encodeURIComponent(projectId)}:`;
+}
+
+function featureCacheKey(projectId: string, featureName: string): string {
+  return `feature:${encodeURIComponent(projectId)}:${encodeURIComponent(featureName)}:`;
+}
+
+function featureMetricsCacheKey(featureName: string, hoursBack: number): string {
+  return `feature-metrics:${featureName}:${hoursBack}`;
+}
+
+/**
+ * Cache entries affected by a change to a single feature: the feature itself
+ * and every search page of its project (they embed environment state).
+ */
+function featureCacheKeys(projectId: string, featureName: string): string[] {
+  return [featureCacheKey(projectId, featureName), featureListCacheKey(projectId)];
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isFinite(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
 }
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+
+/**
+ * Constraint operators supported by Unleash.
+ * See: https://docs.getunleash.io/reference/activation-strategies#constraint-operators
+ */
+export const CONSTRAINT_OPERATORS = [
+  'IN',
+  'NOT_IN',
+  'STR_CONTAINS',
+  'STR_STARTS_WITH',
+  'STR_ENDS_WITH',
+  'NUM_EQ',
+  'NUM_GT',
+  'NUM_GTE',
+  'NUM_LT',
+  'NUM_LTE',
+  'DATE_AFTER',
+  'DATE_BEFORE',
+  'SEMVER_EQ',
+  'SEMVER_GT',
+  'SEMVER_LT',
+] as const;
+
+export type ConstraintOperator = (typeof CONSTRAINT_OPERATORS)[number];
+
+/**
+ * A strategy constraint as sent to and returned by the Admin API.
+ * List operators (IN, NOT_IN, STR_*) use `values`; the others compare a single `value`.
+ */
+export interface StrategyConstraint {
+  contextName: string;
+  operator: ConstraintOperator;
+  values?: string[];
+  value?: string;
+  caseInsensitive?: boolean;
+  inverted?: boolean;
+}
+
+const LIST_OPERATORS: ReadonlySet<ConstraintOperator> = new Set([
+  'IN',
+  'NOT_IN',
+  'STR_CONTAINS',
+  'STR_STARTS_WITH',
+  'STR_ENDS_WITH',
+]);
+
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Validate a constraint against the rules Unleash applies to each operator.
+ * A single-value operator may also be given as a one-element `values` list,
+ * which is normalised to `value`.
+ */
+export const strategyConstraintSchema = z
+  .object({
+    contextName: z.string().min(1).describe('Context field to match, e.g. "userId" or "region"'),
+    operator: z.enum(CONSTRAINT_OPERATORS).describe('Constraint operator'),
+    values: z.array(z.string()).optional().describe('Values for list operators (IN, NOT_IN, STR_*)'),
+    value: z.string().optional().describe('Value for NUM_*, DATE_* and SEMVER_* operators'),
+    caseInsensitive: z.boolean().optional().describe('Ignore case (STR_* operators only)'),
+    inverted: z.boolean().optional().describe('Negate the constraint'),
+  })
+  .superRefine((constraint, ctx) => {
+    const { operator } = constraint;
+
+    if (LIST_OPERATORS.has(operator)) {
+      if (!constraint.values || constraint.values.length === 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['values'],
+          message: `${operator} needs at least one value in "values"`,
+        });
+      }
+    } else {
+      const single = constraint.value ?? constraint.values?.[0];
+      if (single === undefined || (constraint.values?.length ?? 0) > 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['value'],
+          message: `${operator} compares exactly one value`,
+        });
+      } else if (operator.startsWith('NUM_') && !Number.isFinite(Number(single))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['value'],
+          message: `${operator} needs a number, got "${single}"`,
+        });
+      } else if (operator.startsWith('DATE_') && Number.isNaN(Date.parse(single))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['value'],
+          message: `${operator} needs an ISO 8601 date, got "${single}"`,
+        });
+      } else if (operator.startsWith('SEMVER_') && !SEMVER_PATTERN.test(single)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['value'],
+          message: `${operator} needs a semantic version such as 1.2.3, got "${single}"`,
+        });
+      }
+    }
+
+    if (constraint.caseInsensitive && !operator.startsWith('STR_')) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['caseInsensitive'],
+        message: 'caseInsensitive only applies to STR_* operators',
+      });
+    }
+  })
+  .transform((constraint): StrategyConstraint => {
+    const base = {
+      contextName: constraint.contextName,
+      operator: constraint.operator,
+      caseInsensitive: constraint.caseInsensitive ?? false,
+      inverted: constraint.inverted ?? false,
+    };
+
+    return LIST_OPERATORS.has(constraint.operator)
+      ? { ...base, values: constraint.values ?? [] }
+      : { ...base, value: constraint.value ?? constraint.values?.[0] };
+  });
+
+/**
+ * Render a constraint as a short human-readable expression, e.g. `region IN [eu, uk]`.
+ */
+export function formatConstraint(constraint: StrategyConstraint): string {
+  const operand =
+    constraint.values && constraint.values.length > 0
+      ? `[${constraint.values.join(', ')}]`
+      : (constraint.value ?? '');
+  const suffix = constraint.caseInsensitive ? ' (case-insensitive)' : '';
+
+  return `${constraint.inverted ? 'NOT ' : ''}${constraint.contextName} ${constraint.operator} ${operand}${suffix}`;
+}
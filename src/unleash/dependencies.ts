@@ -0,0 +1,16 @@
+import type { FeatureDependency } from './client.js';
+
+/**
+ * Render a dependency as the condition the parent must meet, e.g.
+ * `checkout-v2 (enabled)` or `checkout-v2 (variant blue or green)`.
+ */
+export function formatDependency(dependency: FeatureDependency): string {
+  if (dependency.enabled === false) {
+    return `${dependency.feature} (disabled)`;
+  }
+  if (dependency.variants && dependency.variants.length > 0) {
+    const label = dependency.variants.length === 1 ? 'variant' : 'variants';
+    return `${dependency.feature} (${label} ${dependency.variants.join(' or ')})`;
+  }
+  return `${dependency.feature} (enabled)`;
+}
@@ -0,0 +1,1161 @@
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+import { CustomError } from '../utils/errors.js';
+import { strategyConstraintSchema } from './constraints.js';
+import {
+  FeatureVariant,
+  VARIANT_WEIGHT_TOTAL,
+  distributeVariantWeights,
+  variantOverrideSchema,
+  variantPayloadSchema,
+} from './variants.js';
+import type {
+  ChangeRequest,
+  ChangeRequestChange,
+  ChangeRequestEnvironmentConfig,
+  ChangeRequestState,
+  CreateFeatureFlagRequest,
+  CreateFeatureFlagResponse,
+  EventSearchOptions,
+  EventSearchResult,
+  FeatureDependency,
+  FeatureDetails,
+  FeatureEnvironment,
+  FeatureFlagPatchOperation,
+  FeatureFlagSearchOptions,
+  FeatureFlagSearchResult,
+  FeatureFlagType,
+  FeatureLink,
+  FeatureMetricsBucket,
+  FeatureStrategy,
+  FeatureTag,
+  ProjectEnvironment,
+  StrategyVariant,
+  TagType,
+  UnleashEvent,
+  UnleashProjectSummary,
+  UpdateFeatureFlagRequest,
+} from './client.js';
+import { DEFAULT_TAG_TYPE } from './tags.js';
+
+const strategySeedSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().default('flexibleRollout'),
+  title: z.string().nullable().optional(),
+  disabled: z.boolean().nullable().optional(),
+  sortOrder: z.number().optional(),
+  segments: z.array(z.number()).optional(),
+  constraints: z.array(strategyConstraintSchema).optional(),
+  variants: z.array(z.record(z.unknown())).optional(),
+  parameters: z.record(z.string()).default({}),
+});
+
+const featureVariantSeedSchema = z.object({
+  name: z.string().min(1),
+  weight: z.number().int().min(0).max(VARIANT_WEIGHT_TOTAL).default(0),
+  weightType: z.enum(['variable', 'fix']).default('variable'),
+  stickiness: z.string().default('default'),
+  payload: variantPayloadSchema.optional(),
+  overrides: z.array(variantOverrideSchema).optional(),
+});
+
+// One hour of evaluations, hoursAgo hours before the store is created
+const metricsSeedSchema = z.object({
+  appName: z.string().min(1).default('my-app'),
+  hoursAgo: z.number().int().min(0).default(0),
+  yes: z.number().int().min(0).default(0),
+  no: z.number().int().min(0).default(0),
+  variants: z.record(z.number().int().min(0)).optional(),
+});
+
+const dryRunSeedSchema = z.object({
+  environments: z
+    .array(
+      z.union([
+        z.string().min(1),
+        z.object({
+          name: z.string().min(1),
+          type: z.string().optional(),
+          sortOrder: z.number().optional(),
+        }),
+      ])
+    )
+    .optional(),
+  tagTypes: z
+    .array(
+      z.union([
+        z.string().min(1),
+        z.object({
+          name: z.string().min(1),
+          description: z.string().optional(),
+        }),
+      ])
+    )
+    .optional(),
+  projects: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().optional(),
+        description: z.string().optional(),
+        changeRequestEnvironments: z.array(z.string().min(1)).optional(),
+      })
+    )
+    .optional(),
+  features: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        project: z.string().min(1).default('default'),
+        type: z.string().default('release'),
+        description: z.string().optional(),
+        impressionData: z.boolean().optional(),
+        stale: z.boolean().optional(),
+        tags: z.array(z.object({ type: z.string(), value: z.string() })).optional(),
+        links: z.array(z.object({ url: z.string(), title: z.string().optional() })).optional(),
+        dependencies: z
+          .array(
+            z.object({
+              feature: z.string().min(1),
+              enabled: z.boolean().optional(),
+              variants: z.array(z.string()).optional(),
+            })
+          )
+          .optional(),
+        environments: z
+          .array(
+            z.object({
+              name: z.string().min(1),
+              enabled: z.boolean().default(false),
+              strategies: z.array(strategySeedSchema).optional(),
+              variants: z.array(featureVariantSeedSchema).optional(),
+              metrics: z.array(metricsSeedSchema).optional(),
+            })
+          )
+          .optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Shape of the optional JSON seed file used to pre-populate dry-run mode.
+ */
+export type DryRunSeed = z.input<typeof dryRunSeedSchema>;
+
+/**
+ * Read and validate a dry-run seed file.
+ */
+export function loadDryRunSeed(path: string): DryRunSeed {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read dry-run seed file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const result = dryRunSeedSchema.safeParse(raw);
+  if (!result.success) {
+    const messages = result.error.errors.map((err) => `  - ${err.path.join('.')}: ${err.message}`);
+    throw new Error(`Invalid dry-run seed file ${path}:\n${messages.join('\n')}`);
+  }
+
+  return result.data;
+}
+
+interface StoredEnvironment {
+  name: string;
+  type: string;
+  sortOrder: number;
+}
+
+interface EnvironmentState {
+  enabled: boolean;
+  strategies: FeatureStrategy[];
+  variants: FeatureVariant[];
+}
+
+interface StoredFeature {
+  name: string;
+  project: string;
+  type: string;
+  description: string;
+  impressionData: boolean;
+  stale: boolean;
+  createdAt: string;
+  archivedAt: string | null;
+  tags: Array<{ type: string; value: string }>;
+  links: FeatureLink[];
+  dependencies: FeatureDependency[];
+  environments: Map<string, EnvironmentState>;
+  metrics: FeatureMetricsBucket[];
+}
+
+/**
+ * Options for the in-memory model.
+ */
+export interface DryRunStoreOptions {
+  /**
+   * Prepended to every error message so simulated failures are recognisable.
+   */
+  errorPrefix?: string;
+  /**
+   * Recorded as createdBy on the event log entries of changes.
+   */
+  actor?: string;
+}
+
+const OPEN_CHANGE_REQUEST_STATES = new Set<ChangeRequestState>([
+  'Draft',
+  'In review',
+  'Approved',
+  'Scheduled',
+]);
+
+const DEFAULT_ENVIRONMENTS: StoredEnvironment[] = [
+  { name: 'development', type: 'development', sortOrder: 100 },
+  { name: 'production', type: 'production', sortOrder: 200 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * In-memory model of the parts of Unleash the MCP server touches.
+ * Backs dry-run mode so that flags, strategies and toggles made during a
+ * session are reflected by later reads instead of canned placeholders.
+ */
+export class DryRunStore {
+  private readonly baseUrl: string;
+  private readonly errorPrefix: string;
+  private readonly actor: string;
+  private readonly environments: StoredEnvironment[];
+  private readonly projects = new Map<string, UnleashProjectSummary>();
+  private readonly tagTypes = new Map<string, TagType>();
+  private readonly changeRequestEnvironments = new Map<string, string[]>();
+  private readonly changeRequests = new Map<number, ChangeRequest>();
+  private nextChangeRequestId = 1;
+  private nextChangeId = 1;
+  private readonly features = new Map<string, StoredFeature>();
+  private readonly events: UnleashEvent[] = [];
+  private nextEventId = 1;
+
+  constructor(baseUrl: string, seed: DryRunSeed = {}, options: DryRunStoreOptions = {}) {
+    this.baseUrl = baseUrl;
+    this.errorPrefix = options.errorPrefix ?? '[DRY RUN] ';
+    this.actor = options.actor ?? 'dry-run';
+    const parsed = dryRunSeedSchema.parse(seed);
+
+    this.environments =
+      parsed.environments && parsed.environments.length > 0
+        ? parsed.environments.map((env, index) =>
+            typeof env === 'string'
+              ? { name: env, type: env, sortOrder: (index + 1) * 100 }
+              : {
+                  name: env.name,
+                  type: env.type ?? env.name,
+                  sortOrder: env.sortOrder ?? (index + 1) * 100,
+                }
+          )
+        : DEFAULT_ENVIRONMENTS;
+
+    const projects: NonNullable<typeof parsed.projects> =
+      parsed.projects && parsed.projects.length > 0
+        ? parsed.projects
+        : [{ id: 'default', name: 'Default (dry run)' }];
+
+    for (const project of projects) {
+      this.addProject(project.id, project.name, project.description);
+      if (project.changeRequestEnvironments) {
+        this.changeRequestEnvironments.set(project.id, project.changeRequestEnvironments);
+      }
+    }
+
+    const tagTypes = parsed.tagTypes && parsed.tagTypes.length > 0
+      ? parsed.tagTypes
+      : [{ name: DEFAULT_TAG_TYPE, description: 'Used to simplify filtering of features' }];
+
+    for (const tagType of tagTypes) {
+      const { name, description = '' } =
+        typeof tagType === 'string' ? { name: tagType } : tagType;
+      this.tagTypes.set(name, { name, description, icon: null });
+    }
+
+    for (const feature of parsed.features ?? []) {
+      const stored = this.createStoredFeature(feature.project, {
+        name: feature.name,
+        type: feature.type,
+        description: feature.description ?? '',
+        impressionData: feature.impressionData,
+      });
+      stored.stale = feature.stale ?? false;
+      stored.tags = feature.tags ?? [];
+      stored.links = (feature.links ?? []).map((link) => ({
+        id: randomUUID(),
+        url: link.url,
+        title: link.title ?? null,
+      }));
+      stored.dependencies = feature.dependencies ?? [];
+
+      for (const env of feature.environments ?? []) {
+        const state = this.requireEnvironment(stored, env.name);
+        state.enabled = env.enabled;
+        state.strategies = (env.strategies ?? []).map((strategy, index) => ({
+          ...strategy,
+          id: strategy.id ?? randomUUID(),
+          featureName: stored.name,
+          sortOrder: strategy.sortOrder ?? index,
+          variants: (strategy.variants ?? []) as StrategyVariant[],
+        }));
+        state.variants = distributeVariantWeights(env.variants ?? []);
+        stored.metrics.push(
+          ...(env.metrics ?? []).map((bucket) => ({
+            featureName: stored.name,
+            appName: bucket.appName,
+            environment: this.environments.find(
+              (candidate) => candidate.name.toLowerCase() === env.name.toLowerCase()
+            )!.name,
+            timestamp: new Date(startOfHour(Date.now() - bucket.hoursAgo * HOUR_MS)).toISOString(),
+            yes: bucket.yes,
+            no: bucket.no,
+            ...(bucket.variants ? { variants: bucket.variants } : {}),
+          }))
+        );
+      }
+    }
+  }
+
+  listProjects(): UnleashProjectSummary[] {
+    return [...this.projects.values()].map((project) => ({ ...project }));
+  }
+
+  listProjectEnvironments(projectId: string): ProjectEnvironment[] {
+    this.requireProject(projectId);
+    return this.environments.map((env) => ({ ...env, enabled: true }));
+  }
+
+  searchFeatures(projectId: string, search: FeatureFlagSearchOptions): FeatureFlagSearchResult {
+    const query = search.query?.toLowerCase();
+    const direction = search.order === 'desc' ? -1 : 1;
+
+    const matching = [...this.features.values()]
+      .filter((feature) => feature.project === projectId && !feature.archivedAt)
+      .filter(
+        (feature) =>
+          !query ||
+          feature.name.toLowerCase().includes(query) ||
+          feature.description.toLowerCase().includes(query)
+      )
+      .filter((feature) => !search.type || feature.type === search.type)
+      .filter(
+        (feature) =>
+          !search.tag ||
+          feature.tags.some((tag) => `${tag.type}:${tag.value}` === search.tag)
+      )
+      .filter((feature) => {
+        const enabled = [...feature.environments.values()].some((env) => env.enabled);
+        switch (search.state) {
+          case 'enabled':
+            return enabled;
+          case 'disabled':
+            return !enabled;
+          case 'stale':
+            return feature.stale;
+          case 'active':
+            return !feature.stale;
+          default:
+            return true;
+        }
+      })
+      .sort((a, b) => a.name.localeCompare(b.name) * direction);
+
+    const offset = search.offset ?? 0;
+    const end = search.limit === undefined ? undefined : offset + search.limit;
+    const page = matching.slice(offset, end);
+
+    return {
+      flags: page.map((feature) => ({
+        name: feature.name,
+        description: feature.description,
+        project: feature.project,
+        type: feature.type as FeatureFlagType,
+        archived: false,
+        impressionData: feature.impressionData,
+        stale: feature.stale,
+        createdAt: feature.createdAt,
+        tags: feature.tags.map((tag) => ({ ...tag })),
+        url: this.featureUrl(feature.project, feature.name),
+      })),
+      total: matching.length,
+    };
+  }
+
+  createFeature(projectId: string, request: CreateFeatureFlagRequest): CreateFeatureFlagResponse {
+    const feature = this.createStoredFeature(projectId, request);
+    this.recordEvent('feature-created', feature, {
+      data: {
+        name: feature.name,
+        project: feature.project,
+        type: feature.type,
+        description: feature.description,
+        impressionData: feature.impressionData,
+      },
+    });
+
+    return {
+      name: feature.name,
+      type: feature.type as FeatureFlagType,
+      description: feature.description,
+      project: feature.project,
+      createdAt: feature.createdAt,
+      archived: false,
+      impressionData: feature.impressionData,
+    };
+  }
+
+  getFeature(projectId: string, featureName: string): FeatureDetails {
+    const feature = this.requireFeature(projectId, featureName);
+
+    const environments: FeatureEnvironment[] = this.environments.map((env) => {
+      const state = this.requireEnvironment(feature, env.name);
+      return {
+        name: env.name,
+        environment: env.name,
+        type: env.type,
+        sortOrder: env.sortOrder,
+        featureName: feature.name,
+        enabled: state.enabled,
+        strategies: structuredClone(state.strategies),
+        variants: structuredClone(state.variants),
+        variantCount: state.variants.length,
+        hasStrategies: state.strategies.length > 0,
+        hasEnabledStrategies: state.strategies.some((strategy) => !strategy.disabled),
+        lastSeenAt:
+          feature.metrics
+            .filter((bucket) => bucket.environment === env.name && bucket.yes + bucket.no > 0)
+            .map((bucket) => bucket.timestamp)
+            .sort()
+            .at(-1) ?? null,
+      };
+    });
+
+    return {
+      name: feature.name,
+      project: feature.project,
+      type: feature.type,
+      description: feature.description,
+      enabled: environments.some((env) => env.enabled),
+      archived: false,
+      impressionData: feature.impressionData,
+      stale: feature.stale,
+      createdAt: feature.createdAt,
+      environments,
+      tags: feature.tags.map((tag) => ({ ...tag })),
+      links: feature.links.map((link) => ({ ...link })),
+      dependencies: structuredClone(feature.dependencies),
+      children: this.childrenOf(feature).map((child) => child.name),
+    };
+  }
+
+  addStrategy(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    strategy: Omit<FeatureStrategy, 'id'>
+  ): FeatureStrategy {
+    const feature = this.requireFeature(projectId, featureName);
+    const state = this.requireWritableEnvironment(feature, environment);
+
+    const stored: FeatureStrategy = {
+      ...structuredClone(strategy),
+      id: randomUUID(),
+      featureName: feature.name,
+      title: strategy.title ?? null,
+      disabled: strategy.disabled ?? false,
+      sortOrder: state.strategies.length,
+    };
+    state.strategies.push(stored);
+    this.recordEvent('feature-strategy-add', feature, { environment, data: stored });
+
+    return structuredClone(stored);
+  }
+
+  updateStrategy(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    strategyId: string,
+    strategy: Omit<FeatureStrategy, 'id'>
+  ): FeatureStrategy {
+    const feature = this.requireFeature(projectId, featureName);
+    const state = this.requireWritableEnvironment(feature, environment);
+
+    const index = state.strategies.findIndex((existing) => existing.id === strategyId);
+    if (index === -1) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Strategy ${strategyId} does not exist on ${featureName} in ${environment}`,
+        'Use get_flag_state to list the strategy IDs of this environment.'
+      );
+    }
+
+    const current = state.strategies[index];
+    const updated: FeatureStrategy = {
+      ...structuredClone(strategy),
+      id: current.id,
+      featureName: feature.name,
+      title: strategy.title ?? null,
+      disabled: strategy.disabled ?? false,
+      sortOrder: strategy.sortOrder ?? current.sortOrder,
+    };
+    state.strategies[index] = updated;
+    this.recordEvent('feature-strategy-update', feature, {
+      environment,
+      preData: current,
+      data: updated,
+    });
+
+    return structuredClone(updated);
+  }
+
+  deleteStrategy(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    strategyId: string
+  ): void {
+    const feature = this.requireFeature(projectId, featureName);
+    const state = this.requireWritableEnvironment(feature, environment);
+
+    const index = state.strategies.findIndex((strategy) => strategy.id === strategyId);
+    if (index === -1) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Strategy ${strategyId} does not exist on ${featureName} in ${environment}`,
+        'Use get_flag_state to list the strategy IDs of this environment.'
+      );
+    }
+
+    const [removed] = state.strategies.splice(index, 1);
+    this.recordEvent('feature-strategy-remove', feature, { environment, preData: removed });
+  }
+
+  toggleEnvironment(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    enabled: boolean
+  ): FeatureDetails {
+    const feature = this.requireFeature(projectId, featureName);
+    const state = this.requireWritableEnvironment(feature, environment);
+    if (state.enabled !== enabled) {
+      state.enabled = enabled;
+      this.recordEvent(
+        enabled ? 'feature-environment-enabled' : 'feature-environment-disabled',
+        feature,
+        { environment }
+      );
+    }
+
+    return this.getFeature(projectId, featureName);
+  }
+
+  setEnvironmentVariants(
+    projectId: string,
+    featureName: string,
+    environment: string,
+    variants: FeatureVariant[]
+  ): FeatureVariant[] {
+    const feature = this.requireFeature(projectId, featureName);
+    const state = this.requireWritableEnvironment(feature, environment);
+
+    const names = variants.map((variant) => variant.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new CustomError(
+        'HTTP_400',
+        `${this.errorPrefix}Variant names must be unique; "${duplicate}" appears twice`
+      );
+    }
+
+    if (variants.length > 0 && variants.every((variant) => variant.weightType === 'fix')) {
+      throw new CustomError(
+        'HTTP_400',
+        `${this.errorPrefix}There must be at least one "variable" variant`
+      );
+    }
+
+    const fixedTotal = variants
+      .filter((variant) => variant.weightType === 'fix')
+      .reduce((sum, variant) => sum + variant.weight, 0);
+    if (fixedTotal > VARIANT_WEIGHT_TOTAL) {
+      throw new CustomError(
+        'HTTP_400',
+        `${this.errorPrefix}The traffic distribution total must equal 100%`
+      );
+    }
+
+    const previous = state.variants;
+    state.variants = distributeVariantWeights(structuredClone(variants));
+    this.recordEvent('feature-environment-variants-updated', feature, {
+      environment,
+      preData: { variants: previous },
+      data: { variants: state.variants },
+    });
+
+    return structuredClone(state.variants);
+  }
+
+  updateTags(featureName: string, added: FeatureTag[], removed: FeatureTag[]): FeatureTag[] {
+    const feature = this.features.get(featureName);
+    if (!feature || feature.archivedAt) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Feature ${featureName} does not exist`,
+        'Check the flag name, or create it first with create_flag.'
+      );
+    }
+
+    for (const tag of added) {
+      if (!this.tagTypes.has(tag.type)) {
+        throw new CustomError(
+          'HTTP_404',
+          `${this.errorPrefix}Could not find tag-type with name ${tag.type}`,
+          'Create the tag type first, or use one of the existing tag types.'
+        );
+      }
+    }
+
+    const key = (tag: FeatureTag) => `${tag.type}:${tag.value}`;
+    const removedKeys = new Set(removed.map(key));
+    const tags = feature.tags.filter((tag) => !removedKeys.has(key(tag)));
+    for (const tag of added) {
+      if (!tags.some((existing) => key(existing) === key(tag))) {
+        tags.push({ type: tag.type, value: tag.value });
+      }
+    }
+    for (const tag of tags.filter((tag) => !feature.tags.some((old) => key(old) === key(tag)))) {
+      this.recordEvent('feature-tagged', feature, { data: tag });
+    }
+    for (const tag of feature.tags.filter((old) => removedKeys.has(key(old)))) {
+      this.recordEvent('feature-untagged', feature, { preData: tag });
+    }
+    feature.tags = tags;
+
+    return tags.map((tag) => ({ ...tag }));
+  }
+
+  addLink(projectId: string, featureName: string, link: { url: string; title?: string }): void {
+    const feature = this.requireFeature(projectId, featureName);
+
+    try {
+      new URL(link.url);
+    } catch {
+      throw new CustomError(
+        'HTTP_400',
+        `${this.errorPrefix}${link.url} is not a valid URL`,
+        'Links must be absolute URLs, e.g. https://github.com/org/repo/pull/123.'
+      );
+    }
+
+    const stored = { id: randomUUID(), url: link.url, title: link.title ?? null };
+    feature.links.push(stored);
+    this.recordEvent('feature-link-added', feature, { data: stored });
+  }
+
+  /**
+   * Add or replace a dependency, with the same rules as Unleash: parent and
+   * child share a project and dependencies are only one level deep.
+   */
+  addDependency(projectId: string, featureName: string, dependency: FeatureDependency): void {
+    const child = this.requireFeature(projectId, featureName);
+    const parent = this.features.get(dependency.feature);
+    if (!parent || parent.archivedAt) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}No active feature ${dependency.feature} exists`,
+        'Check the parent flag name; archived flags cannot be parents.'
+      );
+    }
+    if (parent.name === child.name) {
+      throw new CustomError(
+        'HTTP_400',
+        `${this.errorPrefix}A feature cannot depend on itself`,
+        'Choose a different parent flag.'
+      );
+    }
+    if (parent.project !== child.project) {
+      throw new CustomError(
+        'HTTP_403',
+        `${this.errorPrefix}Parent and child features must be in the same project`,
+        `Move ${parent.name} or ${child.name} so both live in project ${child.project}.`
+      );
+    }
+    if (this.childrenOf(child).length > 0 || parent.dependencies.length > 0) {
+      throw new CustomError(
+        'HTTP_403',
+        `${this.errorPrefix}Transitive dependency detected. Cannot add a dependency to the feature that other features depend on.`,
+        'Dependencies are one level deep: a parent cannot have a parent, and a child cannot have children.'
+      );
+    }
+
+    const added = structuredClone({ ...dependency, enabled: dependency.enabled ?? true });
+    child.dependencies = [
+      ...child.dependencies.filter((existing) => existing.feature !== parent.name),
+      added,
+    ];
+    this.recordEvent('feature-dependency-added', child, { data: added });
+  }
+
+  deleteDependency(projectId: string, featureName: string, parent: string): void {
+    const child = this.requireFeature(projectId, featureName);
+    const removed = child.dependencies.find((existing) => existing.feature === parent);
+    if (removed) {
+      child.dependencies = child.dependencies.filter((existing) => existing !== removed);
+      this.recordEvent('feature-dependency-removed', child, { preData: removed });
+    }
+  }
+
+  getChangeRequestConfig(projectId: string): ChangeRequestEnvironmentConfig[] {
+    this.requireProject(projectId);
+
+    return this.environments.map((env) => {
+      const enabled = this.changeRequestsEnabled(projectId, env.name);
+      return {
+        environment: env.name,
+        type: env.type,
+        changeRequestEnabled: enabled,
+        requiredApprovals: enabled ? 1 : null,
+      };
+    });
+  }
+
+  /**
+   * Append changes to the open draft for the project and environment, or
+   * start a new draft, the way Unleash collects a user's pending changes.
+   */
+  createChangeRequest(
+    projectId: string,
+    environment: string,
+    changes: ChangeRequestChange[]
+  ): ChangeRequest {
+    this.requireProject(projectId);
+    const match = this.environments.find(
+      (env) => env.name.toLowerCase() === environment.toLowerCase()
+    );
+    if (!match || !this.changeRequestsEnabled(projectId, match.name)) {
+      throw new CustomError(
+        'HTTP_400',
+        `${this.errorPrefix}Change requests are not enabled for environment ${environment} in project ${projectId}`,
+        'Apply the change directly instead.'
+      );
+    }
+    for (const change of changes) {
+      this.requireEnvironment(this.requireFeature(projectId, change.feature), match.name);
+    }
+
+    let draft = [...this.changeRequests.values()].find(
+      (candidate) =>
+        candidate.project === projectId &&
+        candidate.environment === match.name &&
+        candidate.state === 'Draft'
+    );
+    if (!draft) {
+      const id = this.nextChangeRequestId++;
+      draft = {
+        id,
+        environment: match.name,
+        project: projectId,
+        state: 'Draft',
+        minApprovals: 1,
+        createdAt: new Date().toISOString(),
+        features: [],
+      };
+      this.changeRequests.set(id, draft);
+    }
+
+    for (const change of changes) {
+      let entry = draft.features!.find((feature) => feature.name === change.feature);
+      if (!entry) {
+        entry = { name: change.feature, changes: [] };
+        draft.features!.push(entry);
+      }
+      entry.changes.push({
+        id: this.nextChangeId++,
+        action: change.action,
+        payload: structuredClone(change.payload),
+      });
+    }
+
+    return structuredClone(draft);
+  }
+
+  listChangeRequests(projectId: string): ChangeRequest[] {
+    this.requireProject(projectId);
+
+    return [...this.changeRequests.values()]
+      .filter(
+        (changeRequest) =>
+          changeRequest.project === projectId && OPEN_CHANGE_REQUEST_STATES.has(changeRequest.state)
+      )
+      .map((changeRequest) => structuredClone(changeRequest));
+  }
+
+  getChangeRequest(projectId: string, changeRequestId: number): ChangeRequest {
+    return structuredClone(this.requireChangeRequest(projectId, changeRequestId));
+  }
+
+  /**
+   * Only the transitions the requester can make themselves are modelled:
+   * submitting a draft for review and cancelling an open request.
+   */
+  updateChangeRequestState(
+    projectId: string,
+    changeRequestId: number,
+    state: ChangeRequestState
+  ): void {
+    const changeRequest = this.requireChangeRequest(projectId, changeRequestId);
+    const allowed =
+      (state === 'In review' && changeRequest.state === 'Draft') ||
+      (state === 'Cancelled' && OPEN_CHANGE_REQUEST_STATES.has(changeRequest.state));
+    if (!allowed) {
+      throw new CustomError(
+        'HTTP_400',
+        `${this.errorPrefix}Cannot move change request ${changeRequestId} from ${changeRequest.state} to ${state}`,
+        'Only drafts can be submitted for review, and only open change requests can be cancelled.'
+      );
+    }
+
+    changeRequest.state = state;
+  }
+
+  listTagTypes(): TagType[] {
+    return [...this.tagTypes.values()].map((tagType) => ({ ...tagType }));
+  }
+
+  createTagType(tagType: { name: string; description?: string }): TagType {
+    if (this.tagTypes.has(tagType.name)) {
+      throw new CustomError(
+        'HTTP_409',
+        `${this.errorPrefix}There already exists a tag-type with the name ${tagType.name}`,
+        'Use the existing tag type instead of creating it again.'
+      );
+    }
+
+    const created = { name: tagType.name, description: tagType.description ?? '', icon: null };
+    this.tagTypes.set(created.name, created);
+    return { ...created };
+  }
+
+  patchFeature(
+    projectId: string,
+    featureName: string,
+    operations: FeatureFlagPatchOperation[]
+  ): FeatureDetails {
+    const feature = this.requireFeature(projectId, featureName);
+
+    const changes: UpdateFeatureFlagRequest & { stale?: boolean } = {};
+    for (const operation of operations) {
+      const field = operation.path.replace(/^\//, '');
+      if (
+        operation.op !== 'replace' ||
+        !['description', 'type', 'impressionData', 'stale'].includes(field)
+      ) {
+        throw new CustomError(
+          'HTTP_400',
+          `${this.errorPrefix}Unsupported patch operation ${operation.op} ${operation.path}`,
+          'Only "replace" on /description, /type, /impressionData and /stale is modelled.'
+        );
+      }
+      (changes as Record<string, unknown>)[field] = operation.value;
+    }
+
+    const metadata = () => ({
+      description: feature.description,
+      type: feature.type,
+      impressionData: feature.impressionData,
+    });
+    const before = metadata();
+    const wasStale = feature.stale;
+
+    if (changes.description !== undefined) {
+      feature.description = changes.description;
+    }
+    if (changes.type !== undefined) {
+      feature.type = changes.type;
+    }
+    if (changes.impressionData !== undefined) {
+      feature.impressionData = changes.impressionData;
+    }
+    if (changes.stale !== undefined) {
+      feature.stale = changes.stale;
+    }
+
+    const after = metadata();
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      this.recordEvent('feature-metadata-updated', feature, { preData: before, data: after });
+    }
+    if (feature.stale !== wasStale) {
+      this.recordEvent(feature.stale ? 'feature-stale-on' : 'feature-stale-off', feature);
+    }
+
+    return this.getFeature(projectId, featureName);
+  }
+
+  markStale(projectId: string, featureNames: string[], stale: boolean): void {
+    const features = featureNames.map((featureName) => this.requireFeature(projectId, featureName));
+    for (const feature of features.filter((feature) => feature.stale !== stale)) {
+      feature.stale = stale;
+      this.recordEvent(stale ? 'feature-stale-on' : 'feature-stale-off', feature);
+    }
+  }
+
+  archiveFeature(projectId: string, featureName: string): void {
+    const feature = this.requireFeature(projectId, featureName);
+    feature.archivedAt = new Date().toISOString();
+    this.recordEvent('feature-archived', feature);
+  }
+
+  /**
+   * Bring archived flags back. Like Unleash, revived flags start disabled in
+   * every environment.
+   */
+  reviveFeatures(projectId: string, featureNames: string[]): void {
+    const features = featureNames.map((featureName) => {
+      const feature = this.features.get(featureName);
+      if (!feature || feature.project !== projectId || !feature.archivedAt) {
+        throw new CustomError(
+          'HTTP_404',
+          `${this.errorPrefix}No archived feature ${featureName} in project ${projectId}`,
+          'Only archived flags can be revived.'
+        );
+      }
+      return feature;
+    });
+
+    for (const feature of features) {
+      feature.archivedAt = null;
+      for (const state of feature.environments.values()) {
+        state.enabled = false;
+      }
+      this.recordEvent('feature-revived', feature);
+    }
+  }
+
+  /**
+   * Seeded evaluation counts of a flag from the last hoursBack hours. Archived
+   * flags keep their metrics.
+   */
+  getFeatureMetrics(featureName: string, hoursBack: number): FeatureMetricsBucket[] {
+    const feature = this.features.get(featureName);
+    if (!feature) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Feature ${featureName} does not exist`,
+        'Check the flag name; dry-run mode only knows flags created this session or listed in the seed file.'
+      );
+    }
+
+    const since = startOfHour(Date.now() - hoursBack * HOUR_MS);
+    return structuredClone(
+      feature.metrics.filter((bucket) => Date.parse(bucket.timestamp) >= since)
+    );
+  }
+
+  /**
+   * The recorded changes, newest first, filtered like the event search.
+   */
+  searchEvents(search: EventSearchOptions): EventSearchResult {
+    const matching = this.events
+      .filter(
+        (event) =>
+          (!search.project || event.project === search.project) &&
+          (!search.feature || event.featureName === search.feature) &&
+          (!search.type || event.type === search.type) &&
+          (!search.from || event.createdAt.slice(0, 10) >= search.from) &&
+          (!search.to || event.createdAt.slice(0, 10) <= search.to)
+      )
+      .reverse();
+
+    const offset = search.offset ?? 0;
+    const page = typeof search.limit === 'number'
+      ? matching.slice(offset, offset + search.limit)
+      : matching.slice(offset);
+
+    return { events: structuredClone(page), total: matching.length };
+  }
+
+  private recordEvent(
+    type: string,
+    feature: StoredFeature,
+    details: { environment?: string; preData?: unknown; data?: unknown } = {}
+  ): void {
+    this.events.push({
+      id: this.nextEventId++,
+      type,
+      createdAt: new Date().toISOString(),
+      createdBy: this.actor,
+      project: feature.project,
+      featureName: feature.name,
+      environment: details.environment ?? null,
+      preData: structuredClone(details.preData ?? null),
+      data: structuredClone(details.data ?? null),
+    });
+  }
+
+  private addProject(id: string, name?: string, description?: string): void {
+    this.projects.set(id, {
+      id,
+      name: name ?? id,
+      description,
+      createdAt: new Date().toISOString(),
+      url: `${this.baseUrl}/projects/${encodeURIComponent(id)}`,
+    });
+  }
+
+  private createStoredFeature(
+    projectId: string,
+    request: { name: string; type: string; description: string; impressionData?: boolean }
+  ): StoredFeature {
+    if (!this.projects.has(projectId)) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Project ${projectId} does not exist`,
+        'Read unleash://projects to list the projects available in dry-run mode, or add it to the seed file.'
+      );
+    }
+
+    // Flag names are unique across the whole instance, not per project
+    if (this.features.has(request.name)) {
+      throw new CustomError(
+        'HTTP_409',
+        `${this.errorPrefix}A feature flag named ${request.name} already exists`,
+        'A resource with this name already exists. Try a different name or update the existing resource.'
+      );
+    }
+
+    const feature: StoredFeature = {
+      name: request.name,
+      project: projectId,
+      type: request.type,
+      description: request.description,
+      impressionData: request.impressionData ?? false,
+      stale: false,
+      createdAt: new Date().toISOString(),
+      archivedAt: null,
+      tags: [],
+      links: [],
+      dependencies: [],
+      environments: new Map(),
+      metrics: [],
+    };
+    this.features.set(feature.name, feature);
+
+    return feature;
+  }
+
+  private childrenOf(feature: StoredFeature): StoredFeature[] {
+    return [...this.features.values()].filter(
+      (candidate) =>
+        !candidate.archivedAt &&
+        candidate.dependencies.some((dependency) => dependency.feature === feature.name)
+    );
+  }
+
+  private requireProject(projectId: string): void {
+    if (!this.projects.has(projectId)) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Project ${projectId} does not exist`,
+        `Available projects: ${[...this.projects.keys()].join(', ')}`
+      );
+    }
+  }
+
+  private requireChangeRequest(projectId: string, changeRequestId: number): ChangeRequest {
+    const changeRequest = this.changeRequests.get(changeRequestId);
+    if (!changeRequest || changeRequest.project !== projectId) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Change request ${changeRequestId} does not exist in project ${projectId}`,
+        'List the open change requests with list_change_requests.'
+      );
+    }
+
+    return changeRequest;
+  }
+
+  private changeRequestsEnabled(projectId: string, environment: string): boolean {
+    return (this.changeRequestEnvironments.get(projectId) ?? []).some(
+      (name) => name.toLowerCase() === environment.toLowerCase()
+    );
+  }
+
+  /**
+   * requireEnvironment for direct changes: like Unleash, refuse them where
+   * the project requires change requests.
+   */
+  private requireWritableEnvironment(
+    feature: StoredFeature,
+    environment: string
+  ): EnvironmentState {
+    const state = this.requireEnvironment(feature, environment);
+    if (this.changeRequestsEnabled(feature.project, environment)) {
+      throw new CustomError(
+        'HTTP_403',
+        `${this.errorPrefix}Environment ${environment} in project ${feature.project} requires change requests`,
+        'Draft the change as a change request and submit it for review with submit_change_request.'
+      );
+    }
+
+    return state;
+  }
+
+  private requireFeature(projectId: string, featureName: string): StoredFeature {
+    const feature = this.features.get(featureName);
+    if (!feature || feature.project !== projectId || feature.archivedAt) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Feature ${featureName} does not exist in project ${projectId}`,
+        'Create it with create_flag first; dry-run mode only knows flags created this session or listed in the seed file.'
+      );
+    }
+
+    return feature;
+  }
+
+  private requireEnvironment(
+    feature: StoredFeature,
+    environment: string
+  ): EnvironmentState {
+    const match = this.environments.find(
+      (env) => env.name.toLowerCase() === environment.toLowerCase()
+    );
+    if (!match) {
+      throw new CustomError(
+        'HTTP_404',
+        `${this.errorPrefix}Environment ${environment} does not exist`,
+        `Available environments: ${this.environments.map((env) => env.name).join(', ')}`
+      );
+    }
+
+    let state = feature.environments.get(match.name);
+    if (!state) {
+      state = { enabled: false, strategies: [], variants: [] };
+      feature.environments.set(match.name, state);
+    }
+
+    return state;
+  }
+
+  private featureUrl(projectId: string, featureName: string): string {
+    return `${this.baseUrl}/projects/${encodeURIComponent(projectId)}/features/${encodeURIComponent(featureName)}`;
+  }
+}
+
+function startOfHour(time: number): number {
+  return time - (time % HOUR_MS);
+}
@@ -0,0 +1,158 @@
+import { CustomError } from '../utils/errors.js';
+import type {
+  FeatureDetails,
+  FeatureEnvironment,
+  ProjectEnvironment,
+  UnleashClient,
+  UnleashRequestOptions,
+} from './client.js';
+
+/**
+ * Resolve an environment name against the project's enabled environments,
+ * ignoring case. Unknown names fail with ENVIRONMENT_NOT_FOUND, suggesting
+ * the closest match so "prod" leads to "production".
+ */
+export async function requireProjectEnvironment(
+  client: UnleashClient,
+  projectId: string,
+  name: string,
+  requestOptions: UnleashRequestOptions = {}
+): Promise<ProjectEnvironment> {
+  const environments = await client.listProjectEnvironments(projectId, requestOptions);
+  const match = environments.find((env) => env.name.toLowerCase() === name.toLowerCase());
+  if (!match) {
+    throw environmentNotFound(
+      `Environment ${name} is not enabled in project ${projectId}`,
+      name,
+      environments.map((env) => env.name)
+    );
+  }
+
+  return match;
+}
+
+/**
+ * Find one environment in a flag's details, matching the name or environment
+ * field case-insensitively.
+ */
+export function findFeatureEnvironment(
+  feature: FeatureDetails,
+  name: string
+): FeatureEnvironment {
+  const target = name.toLowerCase();
+  const environment = feature.environments?.find(
+    (env) => env.environment?.toLowerCase() === target || env.name.toLowerCase() === target
+  );
+  if (!environment) {
+    throw environmentNotFound(
+      `Environment ${name} does not exist on feature ${feature.name}`,
+      name,
+      (feature.environments ?? []).map((env) => env.name)
+    );
+  }
+
+  return environment;
+}
+
+/**
+ * The candidate the user most likely meant: a name the input is a prefix of
+ * (or the other way around), else the nearest by edit distance if it is
+ * close enough to be a typo, else one sharing a stem ("stage" for "staging")
+ * or spelling out an abbreviation ("prd" for "production").
+ */
+export function closestEnvironment(name: string, candidates: string[]): string | undefined {
+  const target = name.toLowerCase();
+  const byLength = (a: string, b: string) => a.length - b.length;
+
+  const prefixed = candidates
+    .filter((candidate) => {
+      const lower = candidate.toLowerCase();
+      return lower.startsWith(target) || target.startsWith(lower);
+    })
+    .sort(byLength);
+  if (prefixed.length > 0) {
+    return prefixed[0];
+  }
+
+  const threshold = Math.max(2, Math.floor(target.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(target, candidate.toLowerCase());
+    if (distance <= threshold && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  if (best) {
+    return best.candidate;
+  }
+
+  const stem = (candidate: string) => commonPrefixLength(target, candidate.toLowerCase());
+  const stemmed = candidates
+    .filter((candidate) => stem(candidate) >= 3)
+    .sort((a, b) => stem(b) - stem(a) || byLength(a, b));
+  if (stemmed.length > 0) {
+    return stemmed[0];
+  }
+
+  const span = (candidate: string) => abbreviationSpan(target, candidate.toLowerCase());
+  return candidates
+    .filter((candidate) => span(candidate) !== undefined)
+    .sort((a, b) => span(a)! - span(b)! || byLength(a, b))[0];
+}
+
+function environmentNotFound(message: string, name: string, available: string[]): CustomError {
+  const suggestion = closestEnvironment(name, available);
+  return new CustomError(
+    'ENVIRONMENT_NOT_FOUND',
+    message,
+    `${suggestion ? `Did you mean "${suggestion}"? ` : ''}Available environments: ${available.join(', ') || 'none'}`
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * If the letters of `short` appear in order in `long`, starting with the same
+ * letter, how far into `long` the last one is; lower means a tighter match.
+ */
+function abbreviationSpan(short: string, long: string): number | undefined {
+  if (short.length < 2 || short[0] !== long[0]) {
+    return undefined;
+  }
+
+  let index = 0;
+  for (let position = 0; position < long.length; position++) {
+    if (long[position] === short[index]) {
+      index++;
+      if (index === short.length) {
+        return position;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,47 @@
+import type { UnleashEvent } from './client.js';
+import { StrategyChange, formatChangeValue, stableStringify } from './strategyDiff.js';
+
+/**
+ * Compare an event's preData and data field by field. Nested objects are
+ * reported under dotted paths (e.g. `parameters.rollout`); arrays are compared
+ * as a whole. A field missing on one side is reported as undefined there,
+ * unless the other side only holds a default (false, an empty string or list).
+ */
+export function diffEventData(event: Pick<UnleashEvent, 'preData' | 'data'>): StrategyChange[] {
+  const before = flatten(event.preData);
+  const after = flatten(event.data);
+  const fields = [...new Set([...before.keys(), ...after.keys()])];
+
+  return fields
+    .map((field) => ({ field, before: before.get(field), after: after.get(field) }))
+    .filter((change) => stableStringify(change.before) !== stableStringify(change.after))
+    .filter((change) => !(isDefault(change.before) && isDefault(change.after)));
+}
+
+/**
+ * Render one side of an event change; undefined means the field was absent.
+ */
+export function formatEventValue(value: unknown): string {
+  return value === undefined ? 'unset' : formatChangeValue(value);
+}
+
+function isDefault(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === false ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function flatten(value: unknown, path = '', fields = new Map<string, unknown>()): Map<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value)) {
+      flatten(nested, path ? `${path}.${key}` : key, fields);
+    }
+  } else if (value !== null && value !== undefined) {
+    fields.set(path || 'value', value);
+  }
+
+  return fields;
+}
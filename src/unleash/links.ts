@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+import type { FeatureLink } from './client.js';
+
+/**
+ * An external link to attach to a flag, such as the pull request, the ticket
+ * or the file the flag guards.
+ */
+export const featureLinkSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), 'Links must use http or https')
+    .describe('Absolute URL, e.g. https://github.com/org/repo/pull/123'),
+  title: z
+    .string()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Short label shown in Unleash, e.g. "PR #123" or "JIRA-42"'),
+});
+
+export type FeatureLinkInput = z.infer<typeof featureLinkSchema>;
+
+/**
+ * Render a link as `title (url)`, or just the URL when it has no title.
+ */
+export function formatLink(link: Pick<FeatureLink, 'url' | 'title'>): string {
+  return link.title ? `${link.title} (${link.url})` : link.url;
+}
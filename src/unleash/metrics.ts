@@ -0,0 +1,135 @@
+import { z } from 'zod';
+
+import { MAX_METRICS_HOURS_BACK } from './client.js';
+import type { FeatureMetricsBucket, UnleashClient, UnleashRequestOptions } from './client.js';
+
+export const DEFAULT_METRICS_HOURS_BACK = 24;
+
+export const metricsHoursBackSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(MAX_METRICS_HOURS_BACK)
+  .describe(`How many hours of metrics to include (1-${MAX_METRICS_HOURS_BACK})`);
+
+/**
+ * A flag's evaluations in one environment, summed over a time window.
+ */
+export interface EnvironmentMetrics {
+  environment: string;
+  yes: number;
+  no: number;
+  total: number;
+  /** Times each variant was served */
+  variants: Record<string, number>;
+  /** Applications that evaluated the flag */
+  applications: string[];
+  /** Start of the newest hour with evaluations */
+  lastEvaluatedAt: string | null;
+  /** When Unleash last saw the flag evaluated here, even outside the window */
+  lastSeenAt?: string | null;
+}
+
+/**
+ * Fetch a flag and its metrics, and summarize them for every environment of
+ * the flag; environments nobody evaluated it in are included with zero counts.
+ */
+export async function loadFlagMetrics(
+  client: UnleashClient,
+  projectId: string,
+  featureName: string,
+  hoursBack: number,
+  requestOptions: UnleashRequestOptions = {}
+): Promise<EnvironmentMetrics[]> {
+  const [feature, buckets] = await Promise.all([
+    client.getFeature(projectId, featureName, requestOptions),
+    client.getFeatureMetrics(featureName, hoursBack, requestOptions),
+  ]);
+  const summaries = summarizeMetrics(buckets);
+
+  const environments = (feature.environments ?? []).map((env) => {
+    const name = env.environment ?? env.name;
+    return {
+      ...(summaries.find((summary) => summary.environment === name) ?? emptyMetrics(name)),
+      lastSeenAt: env.lastSeenAt ?? null,
+    };
+  });
+
+  // SDKs may report environments the flag's details do not list
+  return [
+    ...environments,
+    ...summaries.filter(
+      (summary) => !environments.some((env) => env.environment === summary.environment)
+    ),
+  ];
+}
+
+/**
+ * Sum hourly buckets per environment, sorted by environment name.
+ */
+export function summarizeMetrics(buckets: FeatureMetricsBucket[]): EnvironmentMetrics[] {
+  const byEnvironment = new Map<string, EnvironmentMetrics>();
+
+  for (const bucket of buckets) {
+    const summary = byEnvironment.get(bucket.environment) ?? emptyMetrics(bucket.environment);
+
+    summary.yes += bucket.yes;
+    summary.no += bucket.no;
+    summary.total += bucket.yes + bucket.no;
+    for (const [variant, count] of Object.entries(bucket.variants ?? {})) {
+      summary.variants[variant] = (summary.variants[variant] ?? 0) + count;
+    }
+    if (bucket.yes + bucket.no > 0) {
+      if (!summary.applications.includes(bucket.appName)) {
+        summary.applications.push(bucket.appName);
+      }
+      if (!summary.lastEvaluatedAt || bucket.timestamp > summary.lastEvaluatedAt) {
+        summary.lastEvaluatedAt = bucket.timestamp;
+      }
+    }
+
+    byEnvironment.set(bucket.environment, summary);
+  }
+
+  return [...byEnvironment.values()]
+    .map((summary) => ({ ...summary, applications: summary.applications.sort() }))
+    .sort((a, b) => a.environment.localeCompare(b.environment));
+}
+
+/**
+ * Render one environment's metrics as a single line, e.g.
+ * `production: 1200 evaluations, 75% true (900 yes / 300 no); variants a=450, b=450; apps web, api`.
+ */
+export function formatEnvironmentMetrics(metrics: EnvironmentMetrics): string {
+  if (metrics.total === 0) {
+    return `${metrics.environment}: not evaluated${
+      metrics.lastSeenAt ? ` (last seen ${metrics.lastSeenAt})` : ''
+    }`;
+  }
+
+  const variants = Object.entries(metrics.variants)
+    .map(([variant, count]) => `${variant}=${count}`)
+    .join(', ');
+
+  return [
+    `${metrics.environment}: ${metrics.total} evaluations, ${percentTrue(metrics)}% true (${metrics.yes} yes / ${metrics.no} no)`,
+    variants ? `; variants ${variants}` : '',
+    metrics.applications.length > 0 ? `; apps ${metrics.applications.join(', ')}` : '',
+  ].join('');
+}
+
+export function percentTrue(metrics: Pick<EnvironmentMetrics, 'yes' | 'total'>): number {
+  return metrics.total === 0 ? 0 : Math.round((metrics.yes / metrics.total) * 100);
+}
+
+function emptyMetrics(environment: string): EnvironmentMetrics {
+  return {
+    environment,
+    yes: 0,
+    no: 0,
+    total: 0,
+    variants: {},
+    applications: [],
+    lastEvaluatedAt: null,
+  };
+}
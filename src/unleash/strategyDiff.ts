@@ -0,0 +1,108 @@
+import type { FeatureStrategy } from './client.js';
+import { StrategyConstraint, formatConstraint } from './constraints.js';
+
+export interface StrategyChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Compare two strategies field by field. Each parameter is reported under its
+ * own name (e.g. `rollout`), followed by title, disabled, constraints,
+ * segments and variants.
+ */
+export function diffStrategies(
+  before: Omit<FeatureStrategy, 'id'>,
+  after: Omit<FeatureStrategy, 'id'>
+): StrategyChange[] {
+  const parameterNames = [
+    ...new Set([...Object.keys(before.parameters ?? {}), ...Object.keys(after.parameters ?? {})]),
+  ];
+  const fields: Array<[string, (strategy: Omit<FeatureStrategy, 'id'>) => unknown]> = [
+    ...parameterNames.map(
+      (name): [string, (strategy: Omit<FeatureStrategy, 'id'>) => unknown] => [
+        name,
+        (strategy) => strategy.parameters?.[name],
+      ]
+    ),
+    ['title', (strategy) => strategy.title ?? null],
+    ['disabled', (strategy) => strategy.disabled ?? false],
+    ['constraints', (strategy) => strategy.constraints ?? []],
+    ['segments', (strategy) => strategy.segments ?? []],
+    ['variants', (strategy) => strategy.variants ?? []],
+  ];
+
+  return fields
+    .map(([field, read]) => ({ field, before: read(before), after: read(after) }))
+    .filter((change) => stableStringify(change.before) !== stableStringify(change.after));
+}
+
+/**
+ * The parts of a strategy that define its behaviour, without the server-assigned
+ * ID, ready to be sent to another environment or flag.
+ */
+export function copyStrategy(strategy: FeatureStrategy): Omit<FeatureStrategy, 'id'> {
+  return {
+    name: strategy.name,
+    title: strategy.title ?? null,
+    disabled: strategy.disabled ?? false,
+    sortOrder: strategy.sortOrder,
+    parameters: { ...strategy.parameters },
+    constraints: strategy.constraints ?? [],
+    segments: strategy.segments ?? [],
+    variants: strategy.variants ?? [],
+  };
+}
+
+/**
+ * JSON.stringify with object keys sorted, so values returned by the API in a
+ * different key order still compare equal.
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+}
+
+export function formatChangeValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return 'none';
+    }
+    return value
+      .map((item) =>
+        item && typeof item === 'object' && 'operator' in item
+          ? formatConstraint(item as StrategyConstraint)
+          : typeof item === 'object'
+            ? JSON.stringify(item)
+            : String(item)
+      )
+      .join(', ');
+  }
+
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+/**
+ * Render a strategy as a one-line summary, e.g.
+ * `flexibleRollout "Beta" (rollout=25, groupId=checkout) when region IN [eu]`.
+ */
+export function formatStrategy(strategy: Omit<FeatureStrategy, 'id'>): string {
+  const parameters = Object.entries(strategy.parameters ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+  const constraints = strategy.constraints ?? [];
+  const segments = strategy.segments ?? [];
+
+  return [
+    strategy.name,
+    strategy.title ? ` "${strategy.title}"` : '',
+    parameters ? ` (${parameters})` : '',
+    constraints.length > 0 ? ` when ${constraints.map(formatConstraint).join(' AND ')}` : '',
+    segments.length > 0 ? ` in segments ${segments.join(', ')}` : '',
+    strategy.disabled ? ' [disabled]' : '',
+  ].join('');
+}
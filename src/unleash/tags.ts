@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+import type { FeatureTag } from './client.js';
+
+/**
+ * Tag type the Admin API ships with; every other type has to be created first.
+ */
+export const DEFAULT_TAG_TYPE = 'simple';
+
+/**
+ * A tag as accepted by the Admin API: the type must be URL-friendly and the
+ * value between 2 and 50 characters.
+ */
+export const featureTagSchema = z.object({
+  type: z
+    .string()
+    .min(2)
+    .max(50)
+    .regex(/^[a-zA-Z0-9\-_.~]+$/, 'Tag types may only contain letters, digits and - _ . ~')
+    .describe('Tag type, e.g. "simple", "squad" or "jira"'),
+  value: z.string().trim().min(2).max(50).describe('Tag value, e.g. "checkout" or "PROJ-123"'),
+});
+
+/**
+ * Render a tag as `type:value`, the form used by the feature-flags resource filter.
+ */
+export function formatTag(tag: FeatureTag): string {
+  return `${tag.type}:${tag.value}`;
+}
+
+/**
+ * Tag types referenced by the given tags that are not among the known types.
+ */
+export function missingTagTypes(tags: FeatureTag[], knownTypes: string[]): string[] {
+  const known = new Set(knownTypes);
+  return [...new Set(tags.map((tag) => tag.type))].filter((type) => !known.has(type));
+}
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+
+/**
+ * Variant weights are expressed in tenths of a percent and always add up to this.
+ */
+export const VARIANT_WEIGHT_TOTAL = 1000;
+
+export type VariantPayloadType = 'json' | 'csv' | 'string' | 'number';
+
+export interface VariantPayload {
+  type: VariantPayloadType;
+  value: string;
+}
+
+/**
+ * Serves a variant to users whose context field matches one of the values,
+ * regardless of weights.
+ */
+export interface VariantOverride {
+  contextName: string;
+  values: string[];
+}
+
+/**
+ * An environment-level feature variant as sent to and returned by the Admin API.
+ */
+export interface FeatureVariant {
+  name: string;
+  weight: number;
+  weightType: 'variable' | 'fix';
+  stickiness: string;
+  payload?: VariantPayload;
+  overrides?: VariantOverride[];
+}
+
+/**
+ * Validate a payload value against its declared type, so malformed JSON or CSV
+ * is rejected before it reaches the SDKs.
+ */
+export const variantPayloadSchema = z
+  .object({
+    type: z.enum(['json', 'csv', 'string', 'number']).describe('Payload type'),
+    value: z.string().min(1).describe('Serialized payload value'),
+  })
+  .superRefine((payload, ctx) => {
+    const problem = payloadProblem(payload);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: problem });
+    }
+  });
+
+export const variantOverrideSchema = z.object({
+  contextName: z.string().min(1).describe('Context field to match, e.g. "userId"'),
+  values: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe('Context values that always get this variant'),
+});
+
+function payloadProblem(payload: VariantPayload): string | undefined {
+  switch (payload.type) {
+    case 'json':
+      try {
+        JSON.parse(payload.value);
+        return undefined;
+      } catch (error) {
+        return `Invalid JSON payload: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    case 'number':
+      return payload.value.trim() !== '' && Number.isFinite(Number(payload.value))
+        ? undefined
+        : `Invalid number payload: "${payload.value}"`;
+    case 'csv':
+      return csvProblem(payload.value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check that CSV has balanced quotes and the same number of fields on every row.
+ */
+function csvProblem(value: string): string | undefined {
+  const rows = value.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+  let expectedFields: number | undefined;
+  let pending = '';
+
+  for (const [index, line] of rows.entries()) {
+    pending = pending ? `${pending}\n${line}` : line;
+    // A quoted field may span lines; wait until its quotes are balanced
+    if ((pending.match(/"/g)?.length ?? 0) % 2 !== 0) {
+      continue;
+    }
+
+    const fields = countCsvFields(pending);
+    if (fields === undefined) {
+      return `Invalid CSV payload: malformed quoting on row ${index + 1}`;
+    }
+    if (expectedFields !== undefined && fields !== expectedFields) {
+      return `Invalid CSV payload: row ${index + 1} has ${fields} fields, expected ${expectedFields}`;
+    }
+    expectedFields = fields;
+    pending = '';
+  }
+
+  return pending ? 'Invalid CSV payload: unterminated quoted field' : undefined;
+}
+
+function countCsvFields(row: string): number | undefined {
+  let fields = 1;
+  let inQuotes = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (inQuotes) {
+      if (char === '"' && row[i + 1] === '"') {
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+        if (i + 1 < row.length && row[i + 1] !== ',') {
+          return undefined;
+        }
+      }
+    } else if (char === '"') {
+      if (i > 0 && row[i - 1] !== ',') {
+        return undefined;
+      }
+      inQuotes = true;
+    } else if (char === ',') {
+      fields++;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Spread the weight left over by fixed variants across the variable ones, the
+ * way Unleash does when variants are saved: equal shares, with any remainder
+ * going one point at a time to the first variable variants.
+ */
+export function distributeVariantWeights<T extends FeatureVariant>(variants: T[]): T[] {
+  const variable = variants.filter((variant) => variant.weightType !== 'fix');
+  if (variable.length === 0) {
+    return variants;
+  }
+
+  const fixedTotal = variants
+    .filter((variant) => variant.weightType === 'fix')
+    .reduce((sum, variant) => sum + variant.weight, 0);
+  const remaining = Math.max(0, VARIANT_WEIGHT_TOTAL - fixedTotal);
+  const share = Math.floor(remaining / variable.length);
+  let extra = remaining % variable.length;
+
+  return variants.map((variant) => {
+    if (variant.weightType === 'fix') {
+      return variant;
+    }
+    const weight = share + (extra > 0 ? 1 : 0);
+    extra = Math.max(0, extra - 1);
+    return { ...variant, weight };
+  });
+}
+
+/**
+ * Render a variant as a one-line summary, e.g. `blue 50% (fixed) payload json, overrides userId=[1, 2]`.
+ */
+export function formatVariant(variant: FeatureVariant): string {
+  const parts = [
+    `${variant.name} ${variant.weight / 10}%${variant.weightType === 'fix' ? ' (fixed)' : ''}`,
+  ];
+  if (variant.payload) {
+    parts.push(`payload ${variant.payload.type}`);
+  }
+  if (variant.overrides && variant.overrides.length > 0) {
+    parts.push(
+      `overrides ${variant.overrides
+        .map((override) => `${override.contextName}=[${override.values.join(', ')}]`)
+        .join('; ')}`
+    );
+  }
+
+  return parts.join(', ');
+}
@@ -64,7 +64,7 @@ export function normalizeError(error: unknown): NormalizedError {
 /**
  * Provide helpful hints based on HTTP status codes.
  */
-function getHttpErrorHint(status: number): string | undefined {
+export function getHttpErrorHint(status: number): string | undefined {
   switch (status) {
     case 401:
       return 'Check your UNLEASH_PAT (Personal Access Token) in the .env file.';
@@ -77,10 +77,11 @@ function getHttpErrorHint(status: number): string | undefined {
     case 422:
       return 'The request was invalid. Check the request parameters and try again.';
     case 429:
-      return 'Rate limit exceeded. Please wait before making more requests.';
+      return 'Rate limit exceeded and automatic retries did not succeed. Wait before making more requests, or raise UNLEASH_MAX_RETRIES.';
     case 500:
     case 502:
     case 503:
+    case 504:
       return 'Unleash server error. Please try again later or check the Unleash service status.';
     default:
       return undefined;
@@ -1,45 +1,110 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RequestId } from '@modelcontextprotocol/sdk/types.js';
+import type { RetryAttempt } from '../unleash/client.js';
+
+// Last progress value sent per server and progress token. The retry reporter
+// and the tool itself both report on the same token, and clients expect the
+// value to never go back.
+const lastProgress = new WeakMap<Server, Map<string | number, number>>();
 
 /**
  * Helper to emit progress notifications during tool execution.
  * Provides visibility into long-running operations for the LLM.
+ *
+ * Pass the tool call's request ID as relatedRequestId so transports that
+ * multiplex several requests (Streamable HTTP) deliver the notifications on
+ * the stream of the originating request. A progress value below one already
+ * sent for the token is raised to it.
  */
 export async function notifyProgress(
   server: Server,
   progressToken: string | number | undefined,
   progress: number,
   total: number,
-  message: string
+  message: string,
+  relatedRequestId?: RequestId
 ): Promise<void> {
   if (progressToken === undefined) {
     return;
   }
 
+  const sent = lastProgress.get(server) ?? new Map<string | number, number>();
+  lastProgress.set(server, sent);
+  const value = Math.max(progress, sent.get(progressToken) ?? 0);
+  if (value >= total) {
+    sent.delete(progressToken);
+  } else {
+    sent.set(progressToken, value);
+  }
+
   try {
-    await server.notification({
-      method: 'notifications/progress',
-      params: {
-        progressToken,
-        progress,
-        total,
+    await server.notification(
+      {
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: value,
+          total,
+        },
       },
-    });
+      { relatedRequestId }
+    );
 
     // Also send a message notification for visibility
-    await server.notification({
-      method: 'notifications/message',
-      params: {
-        level: 'info',
-        logger: 'unleash-mcp',
-        data: message,
+    await server.notification(
+      {
+        method: 'notifications/message',
+        params: {
+          level: 'info',
+          logger: 'unleash-mcp',
+          data: message,
+        },
       },
-    });
+      { relatedRequestId }
+    );
   } catch (error) {
     // Silently ignore notification errors - the client may not support them
     // The operation will continue successfully regardless
   }
 }
 
+/**
+ * Forget the last progress value sent for a token. Called when the tool call
+ * that owns the token ends, however it ends, so a failed or cancelled call
+ * does not leave its value behind for a later call that reuses the token.
+ */
+export function clearProgress(server: Server, progressToken: string | number | undefined): void {
+  if (progressToken !== undefined) {
+    lastProgress.get(server)?.delete(progressToken);
+  }
+}
+
+/**
+ * Build an onRetry callback for UnleashClient calls that reports each retry
+ * as a progress notification. Each retry moves progress one step past the
+ * last value sent for the token, staying below the final 100.
+ */
+export function createRetryProgressReporter(
+  server: Server,
+  progressToken: string | number | undefined,
+  relatedRequestId?: RequestId
+): (attempt: RetryAttempt) => Promise<void> {
+  return async (attempt: RetryAttempt) => {
+    const seconds = (attempt.delayMs / 1000).toFixed(1);
+    const last =
+      progressToken === undefined ? 0 : (lastProgress.get(server)?.get(progressToken) ?? 0);
+
+    await notifyProgress(
+      server,
+      progressToken,
+      Math.min(last + 1, 99),
+      100,
+      `Unleash API returned ${attempt.reason} for ${attempt.method} ${attempt.path}; retrying in ${seconds}s (attempt ${attempt.attempt}/${attempt.maxRetries})`,
+      relatedRequestId
+    );
+  };
+}
+
 /**
  * Helper to create resource links for created feature flags.
  * Returns both a human-readable URL and an MCP resource link.
@@ -55,7 +120,7 @@ export function createFlagResourceLink(
   return {
     url,
     resource: {
-      uri: `unleash://feature-flag/${projectId}/${flagName}`,
+      uri: `unleash://feature-flag/${encodeURIComponent(projectId)}/${encodeURIComponent(flagName)}`,
       mimeType: 'application/json',
       text: `Feature flag: ${flagName}`,
     },
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { resolveSessionConfig } from '../src/config.js';
+import { createTestConfig } from './support/harness.js';
+
+const config = createTestConfig('https://unleash.example.com/', 'shared-token', {
+  server: { transport: 'http' },
+});
+
+describe('resolveSessionConfig', () => {
+  it('uses the session token against UNLEASH_BASE_URL', () => {
+    const session = resolveSessionConfig(config, { pat: ' user-token ' });
+
+    expect(session.unleash).toMatchObject({
+      baseUrl: 'https://unleash.example.com/',
+      pat: 'user-token',
+    });
+  });
+
+  it('rejects a session without a token', () => {
+    expect(() => resolveSessionConfig(config, {})).toThrow(
+      expect.objectContaining({ code: 'SESSION_CREDENTIALS_MISSING' })
+    );
+    expect(() => resolveSessionConfig(config, { pat: '  ' })).toThrow(
+      expect.objectContaining({ code: 'SESSION_CREDENTIALS_MISSING' })
+    );
+  });
+
+  it('falls back to UNLEASH_PAT only when the shared token is allowed', () => {
+    const shared = createTestConfig('https://unleash.example.com/', 'shared-token', {
+      server: { transport: 'http', allowSharedPat: true },
+    });
+
+    expect(resolveSessionConfig(shared, {}).unleash.pat).toBe('shared-token');
+  });
+
+  it('never sends UNLEASH_PAT to another instance', () => {
+    const shared = createTestConfig('https://unleash.example.com', 'shared-token', {
+      server: {
+        transport: 'http',
+        allowSharedPat: true,
+        allowedSessionBaseUrls: ['https://other.example.com'],
+      },
+    });
+
+    expect(() =>
+      resolveSessionConfig(shared, { baseUrl: 'https://other.example.com/' })
+    ).toThrow(expect.objectContaining({ code: 'SESSION_CREDENTIALS_MISSING' }));
+    expect(
+      resolveSessionConfig(shared, { baseUrl: 'https://other.example.com/', pat: 'user-token' })
+        .unleash
+    ).toMatchObject({ baseUrl: 'https://other.example.com', pat: 'user-token' });
+  });
+
+  it('only lets sessions target UNLEASH_BASE_URL by default', () => {
+    expect(
+      resolveSessionConfig(config, { baseUrl: 'https://unleash.example.com', pat: 'user-token' })
+        .unleash.baseUrl
+    ).toBe('https://unleash.example.com');
+    expect(() =>
+      resolveSessionConfig(config, { baseUrl: 'http://169.254.169.254', pat: 'user-token' })
+    ).toThrow(expect.objectContaining({ code: 'SESSION_BASE_URL_NOT_ALLOWED' }));
+  });
+
+  it('lets sessions target instances on the allow-list', () => {
+    const multi = createTestConfig('https://unleash.example.com', 'shared-token', {
+      server: { transport: 'http', allowedSessionBaseUrls: ['https://eu.unleash.example.com/'] },
+    });
+
+    expect(
+      resolveSessionConfig(multi, { baseUrl: 'https://eu.unleash.example.com', pat: 'user-token' })
+        .unleash.baseUrl
+    ).toBe('https://eu.unleash.example.com');
+    expect(() =>
+      resolveSessionConfig(multi, { baseUrl: 'https://us.unleash.example.com', pat: 'user-token' })
+    ).toThrow(expect.objectContaining({ code: 'SESSION_BASE_URL_NOT_ALLOWED' }));
+  });
+
+  it('rejects a base URL that does not parse', () => {
+    expect(() => resolveSessionConfig(config, { baseUrl: 'not a url', pat: 'user-token' })).toThrow(
+      expect.objectContaining({ code: 'SESSION_BASE_URL_INVALID' })
+    );
+  });
+});
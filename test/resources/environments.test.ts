@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  environments: [
+    { name: 'production', type: 'production', sortOrder: 3 },
+    { name: 'development', type: 'development', sortOrder: 1 },
+    { name: 'staging', type: 'test', sortOrder: 2 },
+  ],
+  projects: [{ id: 'default' }],
+  features: [{ name: 'checkout', environments: [{ name: 'production', enabled: false }] }],
+};
+
+describe('project environments', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('lists the enabled environments of a project in sort order', async () => {
+    const result = await server.client.readResource({
+      uri: 'unleash://projects/default/environments',
+    });
+    const body = JSON.parse(String(result.contents[0].text));
+
+    expect(body.totalEnvironments).toBe(3);
+    expect(body.environments.map((env: { name: string }) => env.name)).toEqual([
+      'development',
+      'staging',
+      'production',
+    ]);
+  });
+
+  it('suggests the closest environment when a tool gets a misspelled name', async () => {
+    const result = await server.callTool('toggle_flag_environment', {
+      featureName: 'checkout',
+      environment: 'prod',
+      enabled: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'ENVIRONMENT_NOT_FOUND' } });
+    expect(resultText(result)).toContain('Environment prod is not enabled in project default');
+    expect(resultText(result)).toContain(
+      'Did you mean "production"? Available environments: development, staging, production'
+    );
+    expect(server.fake.requests.some((request) => request.method !== 'GET')).toBe(false);
+  });
+
+  it('matches environment names case-insensitively', async () => {
+    const result = await server.callTool('toggle_flag_environment', {
+      featureName: 'checkout',
+      environment: 'Production',
+      enabled: true,
+    });
+
+    expect(result.isError).toBeFalsy();
+    const production = server.fake.store
+      .getFeature('default', 'checkout')
+      .environments?.find((env) => env.name === 'production');
+    expect(production?.enabled).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        {
+          name: 'production',
+          enabled: true,
+          strategies: [
+            {
+              id: 'prod-1',
+              name: 'flexibleRollout',
+              parameters: { rollout: '10', groupId: 'checkout', stickiness: 'default' },
+            },
+          ],
+        },
+      ],
+    },
+    { name: 'search', environments: [{ name: 'production', enabled: false }] },
+  ],
+};
+
+describe('event resources', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+    await server.callTool('set_flag_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      rolloutPercentage: 50,
+    });
+    await server.callTool('toggle_flag_environment', {
+      featureName: 'search',
+      environment: 'production',
+      enabled: true,
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('shows the history of one flag with a before/after table', async () => {
+    const { contents } = await server.client.readResource({
+      uri: 'unleash://projects/default/feature-flags/checkout/events',
+    });
+
+    const body = JSON.parse(String(contents[0].text));
+    expect(body.filters).toEqual({ project: 'default', feature: 'checkout' });
+    expect(body.events.map((event: { type: string }) => event.type)).toEqual([
+      'feature-strategy-update',
+    ]);
+
+    const markdown = String(contents[1].text);
+    expect(markdown).toContain('# Events for checkout');
+    expect(markdown).toContain('feature-strategy-update');
+    expect(markdown).toMatch(/\| parameters\.rollout +\| "10" +\| "50" +\|/);
+  });
+
+  it('lists the global event log newest first and filters by type', async () => {
+    const all = await server.client.readResource({ uri: 'unleash://events' });
+    const events = JSON.parse(String(all.contents[0].text)).events as Array<{
+      type: string;
+      featureName: string;
+    }>;
+    expect(events.map((event) => event.featureName)).toEqual(['search', 'checkout']);
+
+    const filtered = await server.client.readResource({
+      uri: 'unleash://events?type=feature-environment-enabled',
+    });
+    const body = JSON.parse(String(filtered.contents[0].text));
+    expect(body.events.map((event: { featureName: string }) => event.featureName)).toEqual([
+      'search',
+    ]);
+    expect(String(filtered.contents[1].text)).toContain(
+      'Filtered by type `feature-environment-enabled`.'
+    );
+  });
+
+  it('sends filters to Unleash with the IS: operator', async () => {
+    await server.client.readResource({ uri: 'unleash://events?type=feature-created' });
+
+    const request = server.fake.requests.find(
+      (candidate) => candidate.path === '/api/admin/search/events'
+    );
+    expect(request?.query.get('type')).toBe('IS:feature-created');
+  });
+});
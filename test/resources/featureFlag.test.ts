@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      description: 'New checkout',
+      tags: [{ type: 'simple', value: 'web' }],
+      environments: [
+        {
+          name: 'production',
+          enabled: true,
+          strategies: [
+            {
+              id: 'prod-1',
+              name: 'flexibleRollout',
+              parameters: { rollout: '25', groupId: 'checkout', stickiness: 'default' },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('feature flag resource', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('is listed as a resource template', async () => {
+    const { resourceTemplates } = await server.client.listResourceTemplates();
+
+    expect(resourceTemplates).toContainEqual(
+      expect.objectContaining({
+        name: 'unleash-feature-flag',
+        uriTemplate: 'unleash://feature-flag/{projectId}/{flagName}',
+      })
+    );
+  });
+
+  it('serves the flag as JSON and as a markdown summary', async () => {
+    const { contents } = await server.client.readResource({
+      uri: 'unleash://feature-flag/default/checkout',
+    });
+
+    expect(contents.map((content) => content.mimeType)).toEqual([
+      'application/json',
+      'text/markdown',
+    ]);
+    const body = JSON.parse(String(contents[0].text));
+    expect(body).toMatchObject({
+      projectId: 'default',
+      url: `${server.fake.baseUrl}/projects/default/features/checkout`,
+      feature: { name: 'checkout', description: 'New checkout' },
+    });
+
+    const markdown = String(contents[1].text);
+    expect(markdown).toContain('# checkout');
+    expect(markdown).toContain('Tags: simple:web');
+    expect(markdown).toContain('production: enabled');
+    expect(markdown).toContain('`prod-1` flexibleRollout');
+  });
+
+  it('resolves the resource links returned by tools', async () => {
+    const created = await server.callTool('create_flag', {
+      name: 'new-banner',
+      type: 'release',
+      description: 'Banner',
+    });
+    const link = created.content.find((content) => content.type === 'resource_link');
+
+    const { contents } = await server.client.readResource({ uri: String(link?.uri) });
+
+    expect(JSON.parse(String(contents[0].text)).feature.name).toBe('new-banner');
+  });
+
+  it('fails for a flag that does not exist', async () => {
+    await expect(
+      server.client.readResource({ uri: 'unleash://feature-flag/default/missing' })
+    ).rejects.toThrow();
+  });
+});
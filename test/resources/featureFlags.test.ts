@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  buildFeatureFlagsUri,
+  parseFeatureFlagsResourceOptions,
+} from '../../src/resources/unleashResources.js';
+import { startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    { name: 'alpha', type: 'release', tags: [{ type: 'simple', value: 'web' }] },
+    { name: 'beta', type: 'release', tags: [{ type: 'simple', value: 'web' }] },
+    { name: 'gamma', type: 'release' },
+    { name: 'kill-payments', type: 'kill-switch' },
+  ],
+};
+
+describe('feature flags resource options', () => {
+  it('parses the search filters from the URI', () => {
+    expect(
+      parseFeatureFlagsResourceOptions(
+        'unleash://projects/default/feature-flags?query=checkout&type=release&tag=simple%3Aweb&state=Stale&createdBy=7&limit=10&offset=20&order=desc'
+      )
+    ).toEqual({
+      query: 'checkout',
+      type: 'release',
+      tag: 'simple:web',
+      state: 'stale',
+      createdBy: '7',
+      limit: 10,
+      offset: 20,
+      order: 'desc',
+    });
+  });
+
+  it('drops a state Unleash does not know', () => {
+    expect(
+      parseFeatureFlagsResourceOptions('unleash://projects/default/feature-flags?state=archived')
+        .state
+    ).toBeUndefined();
+  });
+
+  it('builds a URI that parses back to the same options', () => {
+    const options = {
+      query: 'new checkout',
+      type: 'release',
+      tag: 'simple:web',
+      state: 'enabled' as const,
+      createdBy: '7',
+      limit: 5,
+      offset: 5,
+      order: 'asc' as const,
+    };
+
+    expect(parseFeatureFlagsResourceOptions(buildFeatureFlagsUri('default', options))).toEqual(
+      options
+    );
+  });
+});
+
+describe('feature flags resource', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('searches server-side and pages through the matches', async () => {
+    const { contents } = await server.client.readResource({
+      uri: 'unleash://projects/default/feature-flags?type=release&tag=simple:web&limit=1',
+    });
+
+    const body = JSON.parse(String(contents[0].text));
+    expect(body).toMatchObject({
+      limit: 1,
+      offset: 0,
+      nextOffset: 1,
+      totalFlags: 2,
+      filters: { type: 'release', tag: 'simple:web' },
+    });
+    expect(body.flags.map((flag: { name: string }) => flag.name)).toEqual(['alpha']);
+
+    const [request] = server.fake.requests;
+    expect(request.path).toBe('/api/admin/search/features');
+    expect(request.query.get('type')).toBe('IS:release');
+    expect(request.query.get('tag')).toBe('INCLUDE:simple:web');
+    expect(request.query.get('limit')).toBe('1');
+  });
+
+  it('has no next page after the last match', async () => {
+    const { contents } = await server.client.readResource({
+      uri: 'unleash://projects/default/feature-flags?type=release&offset=2',
+    });
+
+    const body = JSON.parse(String(contents[0].text));
+    expect(body.flags.map((flag: { name: string }) => flag.name)).toEqual(['gamma']);
+    expect(body.nextOffset).toBeUndefined();
+  });
+});
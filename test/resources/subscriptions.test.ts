@@ -0,0 +1,97 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { startTestServer, TestServer } from '../support/harness.js';
+
+const POLL_INTERVAL_MS = 20;
+const FLAG_URI = 'unleash://feature-flag/default/checkout';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    { name: 'checkout', environments: [{ name: 'production', enabled: false }] },
+    { name: 'search', environments: [{ name: 'production', enabled: false }] },
+  ],
+};
+
+describe('resource subscriptions', () => {
+  let server: TestServer;
+  let updates: string[];
+
+  beforeEach(async () => {
+    server = await startTestServer({
+      seed,
+      unleash: { eventPollIntervalMs: POLL_INTERVAL_MS },
+    });
+    updates = [];
+    server.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  async function subscribe(uri: string) {
+    await server.client.subscribeResource({ uri });
+    // Let the first poll record where the event log stands
+    await vi.waitFor(() =>
+      expect(server.fake.requests.some((request) => request.path === '/api/admin/search/events')).toBe(
+        true
+      )
+    );
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  it('announces changes made outside this session', async () => {
+    await subscribe(FLAG_URI);
+
+    server.fake.store.toggleEnvironment('default', 'checkout', 'production', true);
+
+    await vi.waitFor(() => expect(updates).toEqual([FLAG_URI]));
+  });
+
+  it('only notifies subscribers of the flags that changed', async () => {
+    await subscribe(FLAG_URI);
+
+    server.fake.store.toggleEnvironment('default', 'search', 'production', true);
+    await sleep(POLL_INTERVAL_MS * 5);
+
+    expect(updates).toEqual([]);
+  });
+
+  it('announces changes made by this session once', async () => {
+    await subscribe(FLAG_URI);
+
+    await server.callTool('toggle_flag_environment', {
+      featureName: 'checkout',
+      environment: 'production',
+      enabled: true,
+    });
+    await sleep(POLL_INTERVAL_MS * 5);
+
+    expect(updates).toEqual([FLAG_URI]);
+  });
+
+  it('notifies project subscribers and stops after unsubscribing', async () => {
+    const projectUri = 'unleash://projects/default/feature-flags';
+    await subscribe(projectUri);
+
+    server.fake.store.toggleEnvironment('default', 'search', 'production', true);
+    await vi.waitFor(() => expect(updates).toEqual([projectUri]));
+
+    await server.client.unsubscribeResource({ uri: projectUri });
+    server.fake.store.toggleEnvironment('default', 'checkout', 'production', true);
+    await sleep(POLL_INTERVAL_MS * 5);
+
+    expect(updates).toEqual([projectUri]);
+  });
+
+  it('rejects subscriptions to other resources', async () => {
+    await expect(
+      server.client.subscribeResource({ uri: 'unleash://projects/default/environments' })
+    ).rejects.toThrow(/Subscriptions are only supported/);
+  });
+});
@@ -0,0 +1,221 @@
+import { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  RolloutPlan,
+  RolloutPlanStore,
+  formatRolloutPlan,
+  remainingDwellMinutes,
+} from '../../src/rollout/planStore.js';
+
+function plan(overrides: Partial<RolloutPlan> = {}): RolloutPlan {
+  return {
+    name: 'checkout-production',
+    baseUrl: 'https://unleash.example.com/',
+    projectId: 'default',
+    featureName: 'checkout',
+    environment: 'production',
+    stages: [
+      { percentage: 5, minDwellMinutes: 60 },
+      { percentage: 50, minDwellMinutes: 0 },
+      { percentage: 100, minDwellMinutes: 0 },
+    ],
+    currentStage: -1,
+    status: 'pending',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    history: [],
+    ...overrides,
+  };
+}
+
+describe('RolloutPlanStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'unleash-mcp-plans-'));
+    filePath = join(dir, 'nested', 'rollout-plans.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists plans so a new store on the same file finds them', async () => {
+    await new RolloutPlanStore(filePath).save(plan({ status: 'in_progress', currentStage: 0 }));
+
+    const reloaded = await new RolloutPlanStore(filePath).get(
+      'https://unleash.example.com',
+      'default',
+      'checkout',
+      'Production'
+    );
+
+    expect(reloaded).toMatchObject({ status: 'in_progress', currentStage: 0 });
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('keeps plans saved by another store on the same file', async () => {
+    const first = new RolloutPlanStore(filePath);
+    const second = new RolloutPlanStore(filePath);
+
+    await first.save(plan());
+    await second.save(plan({ featureName: 'search', name: 'search-production' }));
+
+    expect(await first.get('https://unleash.example.com', 'default', 'checkout', 'production')).toBeDefined();
+    expect(await first.get('https://unleash.example.com', 'default', 'search', 'production')).toBeDefined();
+  });
+
+  it('runs concurrent updates of a plan one after another', async () => {
+    await new RolloutPlanStore(filePath).save(plan());
+    const seen: number[] = [];
+    const advance = (store: RolloutPlanStore) =>
+      store.update('https://unleash.example.com', 'default', 'checkout', 'production', async (current) => {
+        seen.push(current!.currentStage);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { ...current!, currentStage: current!.currentStage + 1 };
+      });
+
+    await Promise.all([advance(new RolloutPlanStore(filePath)), advance(new RolloutPlanStore(filePath))]);
+
+    expect(seen).toEqual([-1, 0]);
+    const stored = await new RolloutPlanStore(filePath).get(
+      'https://unleash.example.com',
+      'default',
+      'checkout',
+      'production'
+    );
+    expect(stored?.currentStage).toBe(1);
+  });
+
+  it('stores nothing when the update fails', async () => {
+    const store = new RolloutPlanStore(filePath);
+    await store.save(plan());
+
+    await expect(
+      store.update('https://unleash.example.com', 'default', 'checkout', 'production', async () => {
+        throw new Error('Unleash is down');
+      })
+    ).rejects.toThrow('Unleash is down');
+
+    expect(
+      (await store.get('https://unleash.example.com', 'default', 'checkout', 'production'))?.status
+    ).toBe('pending');
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('waits for the lock without blocking the event loop', async () => {
+    const store = new RolloutPlanStore(filePath);
+    await store.save(plan());
+    const lockPath = `${filePath}.lock`;
+    writeFileSync(lockPath, '');
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 5);
+
+    const saving = store.save(plan({ status: 'halted' }));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    rmSync(lockPath);
+    await saving;
+    clearInterval(ticker);
+
+    expect(ticks).toBeGreaterThan(5);
+    expect(
+      (await store.get('https://unleash.example.com', 'default', 'checkout', 'production'))?.status
+    ).toBe('halted');
+  });
+
+  it('takes over a lock file abandoned by a crashed process', async () => {
+    const store = new RolloutPlanStore(filePath);
+    await store.save(plan());
+    const lockPath = `${filePath}.lock`;
+    writeFileSync(lockPath, '');
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, longAgo, longAgo);
+
+    await store.save(plan({ status: 'halted' }));
+
+    expect(
+      (await store.get('https://unleash.example.com', 'default', 'checkout', 'production'))?.status
+    ).toBe('halted');
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('rejects a state file in an unexpected format', async () => {
+    const store = new RolloutPlanStore(filePath);
+    await store.save(plan());
+    writeFileSync(filePath, JSON.stringify({ version: 2 }));
+
+    await expect(
+      store.get('https://unleash.example.com', 'default', 'checkout', 'production')
+    ).rejects.toMatchObject({ code: 'ROLLOUT_STATE_INVALID' });
+  });
+
+  it('rejects a plan with missing fields and names the file', async () => {
+    const store = new RolloutPlanStore(filePath);
+    await store.save(plan());
+    writeFileSync(
+      filePath,
+      JSON.stringify({ version: 1, plans: { broken: { name: 'checkout-production', stages: [] } } })
+    );
+
+    await expect(
+      store.get('https://unleash.example.com', 'default', 'checkout', 'production')
+    ).rejects.toMatchObject({
+      code: 'ROLLOUT_STATE_INVALID',
+      message: expect.stringContaining('plans.broken'),
+      hint: expect.stringContaining(filePath),
+    });
+  });
+
+  it('reports a truncated state file instead of a syntax error', async () => {
+    const store = new RolloutPlanStore(filePath);
+    await store.save(plan());
+    writeFileSync(filePath, '{"version": 1, "plans": {');
+
+    await expect(
+      store.get('https://unleash.example.com', 'default', 'checkout', 'production')
+    ).rejects.toMatchObject({
+      code: 'ROLLOUT_STATE_INVALID',
+      message: `Rollout state file ${filePath} is not valid JSON`,
+      hint: expect.stringContaining(filePath),
+    });
+  });
+
+  it('keeps plans in memory without a file path', async () => {
+    const store = new RolloutPlanStore();
+    await store.save(plan());
+
+    expect(await store.get('https://unleash.example.com', 'default', 'checkout', 'production')).toBeDefined();
+  });
+});
+
+describe('remainingDwellMinutes', () => {
+  it('counts down from the stage start', () => {
+    const inProgress = plan({
+      currentStage: 0,
+      status: 'in_progress',
+      stageStartedAt: '2026-01-01T10:00:00.000Z',
+    });
+
+    expect(remainingDwellMinutes(inProgress, new Date('2026-01-01T10:20:30.000Z'))).toBe(40);
+    expect(remainingDwellMinutes(inProgress, new Date('2026-01-01T11:05:00.000Z'))).toBe(0);
+  });
+
+  it('is zero before the first stage', () => {
+    expect(remainingDwellMinutes(plan())).toBe(0);
+  });
+});
+
+describe('formatRolloutPlan', () => {
+  it('marks finished, current and upcoming stages', () => {
+    const text = formatRolloutPlan(plan({ currentStage: 1, status: 'halted' }));
+
+    expect(text).toContain('Rollout plan "checkout-production" for "checkout" in "production" (halted)');
+    expect(text).toMatch(/\| 1 +\| 5% +\| 60 min +\| done +\|/);
+    expect(text).toMatch(/\| 2 +\| 50% +\| 0 min +\| halted +\|/);
+    expect(text).toMatch(/\| 3 +\| 100% +\| 0 min +\| upcoming +\|/);
+  });
+});
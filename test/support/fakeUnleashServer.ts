@@ -0,0 +1,761 @@
+import { createHash } from 'node:crypto';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { z } from 'zod';
+
+import { strategyConstraintSchema } from '../../src/unleash/constraints.js';
+import {
+  VARIANT_WEIGHT_TOTAL,
+  variantOverrideSchema,
+  variantPayloadSchema,
+} from '../../src/unleash/variants.js';
+import { DryRunSeed, DryRunStore } from '../../src/unleash/dryRunStore.js';
+import { featureLinkSchema } from '../../src/unleash/links.js';
+import { featureTagSchema } from '../../src/unleash/tags.js';
+import {
+  EventSearchOptions,
+  FEATURE_SEARCH_STATES,
+  FeatureFlagSearchOptions,
+  MAX_METRICS_HOURS_BACK,
+} from '../../src/unleash/client.js';
+import { CustomError } from '../../src/utils/errors.js';
+
+/**
+ * Options for starting the fake Unleash Admin API.
+ */
+export interface FakeUnleashServerOptions {
+  /**
+   * Token the fake expects in the Authorization header. Requests carrying
+   * anything else are rejected with 401.
+   */
+  token?: string;
+  /**
+   * Initial projects, environments and flags, in the dry-run seed format.
+   */
+  seed?: DryRunSeed;
+  host?: string;
+  /**
+   * Port to listen on. Defaults to 0, which picks a free port.
+   */
+  port?: number;
+}
+
+/**
+ * A canned failure returned instead of the real response for matching requests.
+ */
+export interface InjectedFault {
+  status: number;
+  /**
+   * Only match requests with this HTTP method (any method when omitted).
+   */
+  method?: string;
+  /**
+   * Only match requests whose path contains this string or matches this pattern.
+   */
+  path?: string | RegExp;
+  /**
+   * How many matching requests fail before the fault is used up. Defaults to 1.
+   */
+  times?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /**
+   * Hold the response back this long, to simulate an Unleash that hangs.
+   */
+  delayMs?: number;
+}
+
+/**
+ * A request received by the fake, kept for assertions.
+ */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface RouteMatch {
+  params: string[];
+  body: unknown;
+  query: URLSearchParams;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (match: RouteMatch) => FakeResponse;
+}
+
+const DEFAULT_TOKEN = 'fake-unleash-pat';
+
+const FEATURE_PATH = '/api/admin/projects/([^/]+)/features/([^/]+)';
+const ENVIRONMENT_PATH = `${FEATURE_PATH}/environments/([^/]+)`;
+
+// Mirrors the URL-friendly name rule Unleash applies to flag names
+const featureNameSchema = z
+  .string()
+  .min(1)
+  .max(100)
+  .regex(/^[a-zA-Z0-9\-_.~]+$/, 'Names may only contain letters, numbers, "-", "_", "." and "~"');
+
+const createFeatureBodySchema = z.object({
+  name: featureNameSchema,
+  type: z.enum(['release', 'experiment', 'operational', 'kill-switch', 'permission']).default('release'),
+  description: z.string().default(''),
+  impressionData: z.boolean().optional(),
+});
+
+const patchFeatureBodySchema = z.array(
+  z.object({
+    op: z.enum(['add', 'remove', 'replace']),
+    path: z.string().startsWith('/'),
+    value: z.unknown().optional(),
+  })
+);
+
+const staleBodySchema = z.object({
+  features: z.array(featureNameSchema).min(1),
+  stale: z.boolean(),
+});
+
+const reviveBodySchema = z.object({
+  features: z.array(featureNameSchema).min(1),
+});
+
+const createStrategyBodySchema = z.object({
+  name: z.string().min(1),
+  title: z.string().nullable().optional(),
+  disabled: z.boolean().nullable().optional(),
+  constraints: z.array(strategyConstraintSchema).default([]),
+  parameters: z.record(z.string()).default({}),
+  variants: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        weight: z.number().int().min(0).max(1000),
+        weightType: z.enum(['variable', 'fix']).optional(),
+        stickiness: z.string().optional(),
+        payload: z.object({ type: z.enum(['json', 'csv', 'string', 'number']), value: z.string() }).optional(),
+      })
+    )
+    .optional(),
+  segments: z.array(z.number().int().positive()).optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const environmentVariantsBodySchema = z.array(
+  z.object({
+    name: z.string().min(1),
+    weight: z.number().int().min(0).max(VARIANT_WEIGHT_TOTAL),
+    weightType: z.enum(['variable', 'fix']),
+    stickiness: z.string().min(1),
+    payload: variantPayloadSchema.optional(),
+    overrides: z.array(variantOverrideSchema).optional(),
+  })
+);
+
+const createTagTypeBodySchema = z.object({
+  name: featureTagSchema.shape.type,
+  description: z.string().optional(),
+});
+
+const updateTagsBodySchema = z.object({
+  addedTags: z.array(featureTagSchema).default([]),
+  removedTags: z.array(featureTagSchema).default([]),
+});
+
+const dependencyBodySchema = z.object({
+  feature: z.string().min(1),
+  enabled: z.boolean().optional(),
+  variants: z.array(z.string().min(1)).optional(),
+});
+
+const changeRequestChangesBodySchema = z.array(
+  z.object({
+    action: z.enum(['updateEnabled', 'addStrategy', 'updateStrategy', 'deleteStrategy', 'patchVariant']),
+    feature: z.string().min(1),
+    payload: z.record(z.unknown()),
+  })
+);
+
+const changeRequestStateBodySchema = z.object({
+  state: z.enum(['In review', 'Cancelled']),
+});
+
+const ERROR_NAMES: Record<number, string> = {
+  400: 'BadDataError',
+  401: 'AuthenticationRequired',
+  403: 'NoAccessError',
+  404: 'NotFoundError',
+  409: 'NameExistsError',
+  429: 'TooManyRequestsError',
+};
+
+/**
+ * In-process stand-in for the Unleash Admin API endpoints used by
+ * UnleashClient: projects, feature search, feature creation, details and
+ * metadata updates, tags and tag types, links, dependencies, stale marking,
+ * archive/revive, strategy create/update/delete, environment variants,
+ * environment on/off and change requests.
+ *
+ * State lives in the same in-memory model that backs dry-run mode. Requests
+ * are authenticated and validated like the real API, every request is recorded,
+ * and failures such as 401/403/404/409/429/5xx can be injected per route so
+ * that UnleashClient and the tool handlers can be exercised end to end.
+ */
+export class FakeUnleashServer {
+  readonly token: string;
+  readonly requests: RecordedRequest[] = [];
+
+  private readonly httpServer: HttpServer;
+  private readonly seed: DryRunSeed;
+  private readonly routes: Route[];
+  private faults: Array<InjectedFault & { remaining: number }> = [];
+  private currentStore: DryRunStore | undefined;
+  private currentBaseUrl = '';
+
+  private constructor(options: FakeUnleashServerOptions) {
+    this.token = options.token ?? DEFAULT_TOKEN;
+    this.seed = options.seed ?? {};
+    this.routes = this.buildRoutes();
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, {
+          status: 500,
+          body: {
+            name: 'InternalError',
+            message: error instanceof Error ? error.message : String(error),
+          },
+        });
+      });
+    });
+  }
+
+  /**
+   * Start a fake server and wait until it is listening.
+   */
+  static async start(options: FakeUnleashServerOptions = {}): Promise<FakeUnleashServer> {
+    const fake = new FakeUnleashServer(options);
+    const host = options.host ?? '127.0.0.1';
+
+    await new Promise<void>((resolve, reject) => {
+      fake.httpServer.once('error', reject);
+      fake.httpServer.listen(options.port ?? 0, host, () => {
+        fake.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = fake.httpServer.address() as AddressInfo;
+    fake.currentBaseUrl = `http://${host}:${address.port}`;
+    fake.reset();
+
+    return fake;
+  }
+
+  /**
+   * Base URL to hand to UnleashClient.
+   */
+  get baseUrl(): string {
+    return this.currentBaseUrl;
+  }
+
+  /**
+   * The in-memory model, for arranging state or asserting on it directly.
+   */
+  get store(): DryRunStore {
+    if (!this.currentStore) {
+      throw new Error('Fake Unleash server has not been started');
+    }
+    return this.currentStore;
+  }
+
+  /**
+   * Fail the next matching request(s) with the given status instead of
+   * handling them. Faults are checked before authentication and validation.
+   */
+  injectFault(fault: InjectedFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Restore the seeded state and forget recorded requests and pending faults.
+   */
+  reset(seed: DryRunSeed = this.seed): void {
+    this.currentStore = new DryRunStore(this.currentBaseUrl, seed, {
+      errorPrefix: '',
+      actor: 'admin',
+    });
+    this.requests.length = 0;
+    this.clearFaults();
+  }
+
+  async close(): Promise<void> {
+    this.httpServer.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.currentBaseUrl);
+    const method = (req.method ?? 'GET').toUpperCase();
+    const rawBody = await readBody(req);
+
+    let body: unknown;
+    if (rawBody.length > 0) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        this.send(res, errorResponse(400, 'Request body must be valid JSON'));
+        return;
+      }
+    }
+
+    this.requests.push({
+      method,
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body,
+    });
+
+    const fault = this.takeFault(method, url.pathname);
+    if (fault) {
+      if (fault.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+      }
+      this.send(res, {
+        status: fault.status,
+        body: fault.body ?? errorResponse(fault.status, `Injected ${fault.status} response`).body,
+        headers: fault.headers,
+      });
+      return;
+    }
+
+    if (req.headers.authorization !== this.token) {
+      this.send(res, errorResponse(401, 'You must log in to use Unleash.'));
+      return;
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(url.pathname) : null;
+      if (!match) {
+        continue;
+      }
+
+      const response = this.runRoute(route, {
+        params: match.slice(1).map((param) => decodeURIComponent(param)),
+        body,
+        query: url.searchParams,
+      });
+      this.send(res, withEtag(req, method, response));
+      return;
+    }
+
+    this.send(res, errorResponse(404, `Could not find ${method} ${url.pathname}`));
+  }
+
+  private runRoute(route: Route, match: RouteMatch): FakeResponse {
+    try {
+      return route.handle(match);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          status: 400,
+          body: {
+            name: ERROR_NAMES[400],
+            message: 'Request validation failed: your request body or params contain invalid data.',
+            details: error.errors.map((err) => ({
+              message: `${err.path.join('.') || 'body'}: ${err.message}`,
+            })),
+          },
+        };
+      }
+
+      if (error instanceof CustomError && error.code.startsWith('HTTP_')) {
+        return errorResponse(Number(error.code.slice('HTTP_'.length)), error.message);
+      }
+
+      throw error;
+    }
+  }
+
+  private buildRoutes(): Route[] {
+    return [
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/projects\/?$/,
+        handle: () => ({ status: 200, body: { version: 1, projects: this.store.listProjects() } }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/environments\/project\/([^/]+)\/?$/,
+        handle: ({ params: [projectId] }) => ({
+          status: 200,
+          body: { version: 1, environments: this.store.listProjectEnvironments(projectId) },
+        }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/search\/features\/?$/,
+        handle: ({ query }) => {
+          const projectId = stripOperator(query.get('project'));
+          if (!projectId) {
+            return errorResponse(400, 'The fake only supports searches scoped to one project (project=IS:<id>)');
+          }
+
+          const result = this.store.searchFeatures(projectId, parseSearchQuery(query));
+          return { status: 200, body: { features: result.flags, total: result.total } };
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/client-metrics\/features\/([^/]+)\/raw\/?$/,
+        handle: ({ params: [featureName], query }) => {
+          const hoursBack = Number(query.get('hoursBack') ?? 1);
+          if (!Number.isInteger(hoursBack) || hoursBack < 1 || hoursBack > MAX_METRICS_HOURS_BACK) {
+            return errorResponse(400, `hoursBack must be between 1 and ${MAX_METRICS_HOURS_BACK}`);
+          }
+
+          return {
+            status: 200,
+            body: {
+              version: 1,
+              maturity: 'stable',
+              featureName,
+              data: this.store.getFeatureMetrics(featureName, hoursBack),
+            },
+          };
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/search\/events\/?$/,
+        handle: ({ query }) => {
+          const result = this.store.searchEvents(parseEventSearchQuery(query));
+          return { status: 200, body: result };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/features\/?$/,
+        handle: ({ params: [projectId], body }) => ({
+          status: 201,
+          body: this.store.createFeature(projectId, createFeatureBodySchema.parse(body)),
+        }),
+      },
+      {
+        method: 'GET',
+        pattern: new RegExp(`^${FEATURE_PATH}/?$`),
+        handle: ({ params: [projectId, featureName] }) => ({
+          status: 200,
+          body: this.store.getFeature(projectId, featureName),
+        }),
+      },
+      {
+        method: 'PATCH',
+        pattern: new RegExp(`^${FEATURE_PATH}/?$`),
+        handle: ({ params: [projectId, featureName], body }) => ({
+          status: 200,
+          body: this.store.patchFeature(projectId, featureName, patchFeatureBodySchema.parse(body)),
+        }),
+      },
+      {
+        method: 'DELETE',
+        pattern: new RegExp(`^${FEATURE_PATH}/?$`),
+        handle: ({ params: [projectId, featureName] }) => {
+          this.store.archiveFeature(projectId, featureName);
+          return { status: 202 };
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/api\/admin\/features\/([^/]+)\/tags\/?$/,
+        handle: ({ params: [featureName], body }) => {
+          const { addedTags, removedTags } = updateTagsBodySchema.parse(body);
+          return {
+            status: 200,
+            body: { version: 1, tags: this.store.updateTags(featureName, addedTags, removedTags) },
+          };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${FEATURE_PATH}/link/?$`),
+        handle: ({ params: [projectId, featureName], body }) => {
+          this.store.addLink(projectId, featureName, featureLinkSchema.parse(body));
+          return { status: 204 };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${FEATURE_PATH}/dependencies/?$`),
+        handle: ({ params: [projectId, featureName], body }) => {
+          this.store.addDependency(projectId, featureName, dependencyBodySchema.parse(body));
+          return { status: 200 };
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: new RegExp(`^${FEATURE_PATH}/dependencies/([^/]+)/?$`),
+        handle: ({ params: [projectId, featureName, parent] }) => {
+          this.store.deleteDependency(projectId, featureName, parent);
+          return { status: 200 };
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/change-requests\/config\/?$/,
+        handle: ({ params: [projectId] }) => ({
+          status: 200,
+          body: this.store.getChangeRequestConfig(projectId),
+        }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/change-requests\/open\/?$/,
+        handle: ({ params: [projectId] }) => ({
+          status: 200,
+          body: this.store.listChangeRequests(projectId),
+        }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/change-requests\/(\d+)\/?$/,
+        handle: ({ params: [projectId, id] }) => ({
+          status: 200,
+          body: this.store.getChangeRequest(projectId, Number(id)),
+        }),
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/change-requests\/(\d+)\/state\/?$/,
+        handle: ({ params: [projectId, id], body }) => {
+          const { state } = changeRequestStateBodySchema.parse(body);
+          this.store.updateChangeRequestState(projectId, Number(id), state);
+          return { status: 200 };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/environments\/([^/]+)\/change-requests\/?$/,
+        handle: ({ params: [projectId, environment], body }) => ({
+          status: 200,
+          body: this.store.createChangeRequest(
+            projectId,
+            environment,
+            changeRequestChangesBodySchema.parse(body)
+          ),
+        }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/api\/admin\/tag-types\/?$/,
+        handle: () => ({ status: 200, body: { version: 1, tagTypes: this.store.listTagTypes() } }),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/admin\/tag-types\/?$/,
+        handle: ({ body }) => ({
+          status: 201,
+          body: this.store.createTagType(createTagTypeBodySchema.parse(body)),
+        }),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/revive\/?$/,
+        handle: ({ params: [projectId], body }) => {
+          this.store.reviveFeatures(projectId, reviveBodySchema.parse(body).features);
+          return { status: 200 };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/api\/admin\/projects\/([^/]+)\/stale\/?$/,
+        handle: ({ params: [projectId], body }) => {
+          const { features, stale } = staleBodySchema.parse(body);
+          this.store.markStale(projectId, features, stale);
+          return { status: 202 };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${ENVIRONMENT_PATH}/strategies/?$`),
+        handle: ({ params: [projectId, featureName, environment], body }) => ({
+          status: 200,
+          body: this.store.addStrategy(
+            projectId,
+            featureName,
+            environment,
+            createStrategyBodySchema.parse(body)
+          ),
+        }),
+      },
+      {
+        method: 'PUT',
+        pattern: new RegExp(`^${ENVIRONMENT_PATH}/strategies/([^/]+)/?$`),
+        handle: ({ params: [projectId, featureName, environment, strategyId], body }) => ({
+          status: 200,
+          body: this.store.updateStrategy(
+            projectId,
+            featureName,
+            environment,
+            strategyId,
+            createStrategyBodySchema.parse(body)
+          ),
+        }),
+      },
+      {
+        method: 'DELETE',
+        pattern: new RegExp(`^${ENVIRONMENT_PATH}/strategies/([^/]+)/?$`),
+        handle: ({ params: [projectId, featureName, environment, strategyId] }) => {
+          this.store.deleteStrategy(projectId, featureName, environment, strategyId);
+          return { status: 200 };
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: new RegExp(`^${ENVIRONMENT_PATH}/variants/?$`),
+        handle: ({ params: [projectId, featureName, environment], body }) => ({
+          status: 200,
+          body: {
+            version: 1,
+            variants: this.store.setEnvironmentVariants(
+              projectId,
+              featureName,
+              environment,
+              environmentVariantsBodySchema.parse(body)
+            ),
+          },
+        }),
+      },
+      {
+        method: 'POST',
+        pattern: new RegExp(`^${ENVIRONMENT_PATH}/(on|off)/?$`),
+        handle: ({ params: [projectId, featureName, environment, state] }) => ({
+          status: 200,
+          body: this.store.toggleEnvironment(projectId, featureName, environment, state === 'on'),
+        }),
+      },
+    ];
+  }
+
+  private takeFault(method: string, path: string): InjectedFault | undefined {
+    const fault = this.faults.find(
+      (candidate) =>
+        (!candidate.method || candidate.method.toUpperCase() === method) &&
+        (!candidate.path ||
+          (typeof candidate.path === 'string'
+            ? path.includes(candidate.path)
+            : candidate.path.test(path)))
+    );
+    if (!fault) {
+      return undefined;
+    }
+
+    fault.remaining -= 1;
+    if (fault.remaining <= 0) {
+      this.faults = this.faults.filter((candidate) => candidate !== fault);
+    }
+
+    return fault;
+  }
+
+  private send(res: ServerResponse, response: FakeResponse): void {
+    const hasBody = response.body !== undefined && response.status !== 304;
+    res.writeHead(response.status, {
+      ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+      ...response.headers,
+    });
+    res.end(hasBody ? JSON.stringify(response.body) : undefined);
+  }
+}
+
+function errorResponse(status: number, message: string): FakeResponse {
+  return {
+    status,
+    body: { name: ERROR_NAMES[status] ?? 'UnknownError', message },
+  };
+}
+
+/**
+ * Attach an ETag to successful reads and answer matching If-None-Match
+ * headers with 304, as Unleash does.
+ */
+function withEtag(req: IncomingMessage, method: string, response: FakeResponse): FakeResponse {
+  if (method !== 'GET' || response.status !== 200 || response.body === undefined) {
+    return response;
+  }
+
+  const etag = `W/"${createHash('sha1').update(JSON.stringify(response.body)).digest('hex')}"`;
+  if (req.headers['if-none-match'] === etag) {
+    return { status: 304, headers: { ETag: etag } };
+  }
+
+  return { ...response, headers: { ...response.headers, ETag: etag } };
+}
+
+function parseSearchQuery(query: URLSearchParams): FeatureFlagSearchOptions {
+  const state = stripOperator(query.get('state'));
+  const limit = query.get('limit');
+  const offset = query.get('offset');
+
+  return {
+    query: query.get('query') ?? undefined,
+    type: stripOperator(query.get('type')),
+    tag: stripOperator(query.get('tag')),
+    state: FEATURE_SEARCH_STATES.find((candidate) => candidate === state),
+    limit: limit ? Number(limit) : undefined,
+    offset: offset ? Number(offset) : undefined,
+    order: query.get('sortOrder') === 'desc' ? 'desc' : 'asc',
+  };
+}
+
+function parseEventSearchQuery(query: URLSearchParams): EventSearchOptions {
+  const limit = query.get('limit');
+  const offset = query.get('offset');
+
+  return {
+    project: stripOperator(query.get('project')),
+    feature: stripOperator(query.get('feature')),
+    type: stripOperator(query.get('type')),
+    from: stripOperator(query.get('from')),
+    to: stripOperator(query.get('to')),
+    limit: limit ? Number(limit) : undefined,
+    offset: offset ? Number(offset) : undefined,
+  };
+}
+
+/**
+ * Drop the operator prefix from a search filter, e.g. "IS:default" -> "default".
+ */
+function stripOperator(value: string | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const separator = value.indexOf(':');
+  return separator === -1 ? value : value.slice(separator + 1);
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
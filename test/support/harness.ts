@@ -0,0 +1,135 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { Config } from '../../src/config.js';
+import { Logger, ServerContext } from '../../src/context.js';
+import { createMcpServer } from '../../src/server.js';
+import { UnleashClient } from '../../src/unleash/client.js';
+import { DryRunSeed } from '../../src/unleash/dryRunStore.js';
+import { FakeUnleashServer } from './fakeUnleashServer.js';
+
+/**
+ * Options for starting an MCP server wired to a fake Unleash Admin API.
+ */
+export interface TestServerOptions {
+  seed?: DryRunSeed;
+  /**
+   * Run the server in dry-run mode. The fake still starts so tests can assert
+   * that no request reached it.
+   */
+  dryRun?: boolean;
+  unleash?: Partial<Config['unleash']>;
+  server?: Partial<Config['server']>;
+}
+
+/**
+ * An MCP client connected over an in-memory transport to a server whose
+ * Unleash client talks to a FakeUnleashServer.
+ */
+export interface TestServer {
+  fake: FakeUnleashServer;
+  client: Client;
+  context: ServerContext;
+  unleashClient: UnleashClient;
+  /** Directory holding the rollout plan state file; removed by close() */
+  stateDir: string;
+  callTool(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  close(): Promise<void>;
+}
+
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * A minimal configuration pointing at the given Unleash base URL.
+ */
+export function createTestConfig(
+  baseUrl: string,
+  pat: string,
+  options: Pick<TestServerOptions, 'dryRun' | 'unleash' | 'server'> = {}
+): Config {
+  return {
+    unleash: {
+      baseUrl,
+      pat,
+      defaultProject: 'default',
+      cacheTtlMs: 30_000,
+      requestTimeoutMs: 5_000,
+      eventPollIntervalMs: 0,
+      retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+      ...options.unleash,
+    },
+    server: {
+      dryRun: options.dryRun ?? false,
+      logLevel: 'error',
+      transport: 'stdio',
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
+      allowedSessionBaseUrls: [],
+      allowSharedPat: false,
+      sessionIdleTimeoutMs: 0,
+      allowedHosts: [],
+      allowedOrigins: [],
+      rolloutStateFile: join(tmpdir(), 'unleash-mcp-test-unused.json'),
+      ...options.server,
+    },
+  };
+}
+
+/**
+ * Start a fake Unleash, an MCP server using it and a connected MCP client.
+ */
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const seed = options.seed ?? { projects: [{ id: 'default' }] };
+  const fake = await FakeUnleashServer.start({ seed });
+  const stateDir = await mkdtemp(join(tmpdir(), 'unleash-mcp-test-'));
+
+  const config = createTestConfig(fake.baseUrl, fake.token, {
+    ...options,
+    server: { rolloutStateFile: join(stateDir, 'rollout-plans.json'), ...options.server },
+  });
+  const unleashClient = new UnleashClient(config.unleash.baseUrl, config.unleash.pat, config.server.dryRun, {
+    retry: config.unleash.retry,
+    timeoutMs: config.unleash.requestTimeoutMs,
+    cacheTtlMs: config.unleash.cacheTtlMs,
+    dryRunSeed: seed,
+  });
+  const { server, context } = createMcpServer({ config, unleashClient, logger: silentLogger });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'unleash-mcp-test', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return {
+    fake,
+    client,
+    context,
+    unleashClient,
+    stateDir,
+    callTool: async (name, args = {}) =>
+      (await client.callTool({ name, arguments: args })) as CallToolResult,
+    close: async () => {
+      await client.close();
+      await server.close();
+      await fake.close();
+      await rm(stateDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * The text of a tool result's first content block.
+ */
+export function resultText(result: CallToolResult): string {
+  const first = result.content[0];
+  return first?.type === 'text' ? first.text : '';
+}
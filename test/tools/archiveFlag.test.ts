@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const rollout = (percentage: number) => ({
+  name: 'flexibleRollout',
+  parameters: { rollout: String(percentage), stickiness: 'default', groupId: 'g' },
+});
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'old-banner',
+      environments: [
+        { name: 'development', enabled: true, strategies: [rollout(100)] },
+        { name: 'production', enabled: true, strategies: [rollout(100)] },
+      ],
+    },
+    {
+      name: 'dev-only',
+      environments: [
+        { name: 'development', enabled: true, strategies: [rollout(100)] },
+        { name: 'production', enabled: false, strategies: [rollout(100)] },
+      ],
+    },
+    {
+      name: 'half-done',
+      environments: [
+        { name: 'development', enabled: true, strategies: [rollout(100)] },
+        { name: 'production', enabled: true, strategies: [rollout(50)] },
+      ],
+    },
+  ],
+};
+
+describe('archive_flag and revive_flag', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('archives a flag that is fully on everywhere', async () => {
+    const result = await server.callTool('archive_flag', { featureName: 'old-banner' });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      archived: true,
+      forced: false,
+      rolloutState: 'on',
+    });
+    expect(() => server.fake.store.getFeature('default', 'old-banner')).toThrow(/does not exist/);
+  });
+
+  it('archives a flag that is fully on in one environment and off in another', async () => {
+    const result = await server.callTool('archive_flag', { featureName: 'dev-only' });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      archived: true,
+      forced: false,
+      rolloutState: 'mixed',
+    });
+    expect(resultText(result)).toContain(
+      'fully on or fully off in every environment (development: on, production: off)'
+    );
+    expect(resultText(result)).not.toContain('Warning');
+  });
+
+  it('refuses to archive a partially rolled out flag', async () => {
+    const result = await server.callTool('archive_flag', { featureName: 'half-done' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'FLAG_NOT_SETTLED' } });
+    expect(resultText(result)).toContain('production: partial');
+    expect(server.fake.requests.some((request) => request.method === 'DELETE')).toBe(false);
+  });
+
+  it('archives a partially rolled out flag when forced and warns about it', async () => {
+    const result = await server.callTool('archive_flag', { featureName: 'half-done', force: true });
+
+    expect(result.structuredContent).toMatchObject({ archived: true, forced: true });
+    expect(resultText(result)).toContain('still partially rolled out (forced): production');
+  });
+
+  it('revives an archived flag disabled in every environment', async () => {
+    await server.callTool('archive_flag', { featureName: 'old-banner' });
+
+    const result = await server.callTool('revive_flag', { featureName: 'old-banner' });
+
+    expect(result.isError).toBeFalsy();
+    expect(resultText(result)).toContain('Revived feature flag "old-banner"');
+    const environments = server.fake.store.getFeature('default', 'old-banner').environments ?? [];
+    expect(environments.every((env) => !env.enabled)).toBe(true);
+  });
+
+  it('reports a flag that is not archived as not found', async () => {
+    const result = await server.callTool('revive_flag', { featureName: 'old-banner' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'HTTP_404' } });
+  });
+});
+
+describe('cleanup_flag', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('offers archiving once the code removal is reported done', async () => {
+    server = await startTestServer({ seed });
+
+    const result = await server.callTool('cleanup_flag', {
+      flagName: 'old-banner',
+      codeRemoved: true,
+    });
+
+    expect(resultText(result)).toContain('Final Step: Archive the Flag in Unleash');
+    expect(resultText(result)).toContain(
+      'archive_flag({\n  featureName: "old-banner",\n  projectId: "default",\n})'
+    );
+    expect(result.structuredContent).toMatchObject({
+      requiresUserInput: true,
+      nextStep: 'Ask user whether to archive the flag, then call archive_flag',
+    });
+  });
+
+  it('asks which code path to keep before the code is removed', async () => {
+    server = await startTestServer({ seed });
+
+    const result = await server.callTool('cleanup_flag', { flagName: 'old-banner' });
+
+    expect(resultText(result)).not.toContain('Final Step: Archive');
+    expect(result.structuredContent).toMatchObject({ requiresUserInput: true });
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default', changeRequestEnvironments: ['production'] }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        { name: 'development', enabled: false },
+        { name: 'production', enabled: false },
+      ],
+    },
+  ],
+};
+
+describe('change requests', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function production() {
+    return server.fake.store
+      .getFeature('default', 'checkout')
+      .environments?.find((env) => env.name === 'production');
+  }
+
+  it('drafts a toggle in a protected environment instead of applying it', async () => {
+    const result = await server.callTool('toggle_flag_environment', {
+      featureName: 'checkout',
+      environment: 'production',
+      enabled: true,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      applied: false,
+      changeRequest: { state: 'Draft' },
+    });
+    expect(resultText(result)).toContain('"production" requires change requests');
+    expect(resultText(result)).toContain('  - checkout: enable');
+    expect(production()?.enabled).toBe(false);
+  });
+
+  it('applies changes to unprotected environments directly', async () => {
+    const result = await server.callTool('toggle_flag_environment', {
+      featureName: 'checkout',
+      environment: 'development',
+      enabled: true,
+    });
+
+    expect(result.structuredContent).not.toHaveProperty('changeRequest');
+    const development = server.fake.store
+      .getFeature('default', 'checkout')
+      .environments?.find((env) => env.name === 'development');
+    expect(development?.enabled).toBe(true);
+  });
+
+  it('drafts a new rollout strategy', async () => {
+    const result = await server.callTool('set_flag_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      rolloutPercentage: 25,
+      createNew: true,
+    });
+
+    expect(resultText(result)).toMatch(/ {2}- checkout: add strategy flexibleRollout \(rollout=25/);
+    expect(production()?.strategies ?? []).toEqual([]);
+  });
+
+  it('lists drafts and submits one for review', async () => {
+    const drafted = await server.callTool('toggle_flag_environment', {
+      featureName: 'checkout',
+      environment: 'production',
+      enabled: true,
+    });
+    const { id } = (drafted.structuredContent as { changeRequest: { id: number } }).changeRequest;
+
+    const listed = await server.callTool('list_change_requests', { featureName: 'checkout' });
+    expect(resultText(listed)).toContain('Environments requiring change requests: production');
+    expect(resultText(listed)).toContain(`#${id} (Draft) in production`);
+    expect(resultText(listed)).toContain('Submit a draft for review with submit_change_request.');
+
+    const submitted = await server.callTool('submit_change_request', { changeRequestId: id });
+    expect(submitted.structuredContent).toMatchObject({
+      previousState: 'Draft',
+      changeRequest: { state: 'In review' },
+    });
+    expect(resultText(submitted)).toContain(`Submitted change request #${id} for review.`);
+
+    const again = await server.callTool('submit_change_request', { changeRequestId: id });
+    expect(again.structuredContent).toMatchObject({ error: { code: 'CHANGE_REQUEST_NOT_DRAFT' } });
+    expect(resultText(again)).toContain('It is already waiting for approval');
+  });
+
+  it('cancels a change request', async () => {
+    const drafted = await server.callTool('toggle_flag_environment', {
+      featureName: 'checkout',
+      environment: 'production',
+      enabled: true,
+    });
+    const { id } = (drafted.structuredContent as { changeRequest: { id: number } }).changeRequest;
+
+    const cancelled = await server.callTool('submit_change_request', {
+      changeRequestId: id,
+      cancel: true,
+    });
+
+    expect(resultText(cancelled)).toContain(`Cancelled change request #${id}.`);
+    expect(cancelled.structuredContent).toMatchObject({ changeRequest: { state: 'Cancelled' } });
+  });
+});
+
+describe('list_change_requests without protected environments', () => {
+  it('says changes are applied directly', async () => {
+    const server = await startTestServer();
+
+    try {
+      const result = await server.callTool('list_change_requests', {});
+
+      expect(resultText(result)).toBe(
+        'No environment in project "default" requires change requests; changes are applied directly.'
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
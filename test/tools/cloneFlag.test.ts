@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }, { id: 'payments' }],
+  features: [
+    {
+      name: 'checkout',
+      type: 'experiment',
+      description: 'New checkout',
+      impressionData: true,
+      tags: [{ type: 'simple', value: 'team-web' }],
+      environments: [
+        {
+          name: 'production',
+          enabled: true,
+          strategies: [
+            {
+              name: 'flexibleRollout',
+              parameters: { rollout: '30', groupId: 'checkout', stickiness: 'default' },
+              constraints: [{ contextName: 'region', operator: 'IN' as const, values: ['eu'] }],
+            },
+          ],
+          variants: [{ name: 'blue', weight: 1000 }],
+        },
+      ],
+    },
+    { name: 'taken', environments: [] },
+  ],
+};
+
+describe('clone_flag', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('copies the setup to a new, disabled flag with its own groupId', async () => {
+    const result = await server.callTool('clone_flag', {
+      featureName: 'checkout',
+      newName: 'checkout-v2',
+      targetProjectId: 'payments',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      feature: {
+        name: 'checkout-v2',
+        project: 'payments',
+        type: 'experiment',
+        impressionData: true,
+        tags: [{ type: 'simple', value: 'team-web' }],
+      },
+      environments: [{ environment: 'production', strategies: 1, variants: 1 }],
+    });
+    expect(resultText(result)).toContain('- production: 1 strategies, 1 variants');
+
+    const clone = server.fake.store.getFeature('payments', 'checkout-v2');
+    const production = clone.environments?.find((env) => env.name === 'production');
+    expect(clone.description).toBe('New checkout');
+    expect(production?.enabled).toBe(false);
+    expect(production?.strategies?.[0]).toMatchObject({
+      parameters: { rollout: '30', groupId: 'checkout-v2' },
+      constraints: [{ contextName: 'region', values: ['eu'] }],
+    });
+    expect(production?.variants?.map((variant) => variant.name)).toEqual(['blue']);
+  });
+
+  it('explains that flag names must be unique when the new name is taken', async () => {
+    const result = await server.callTool('clone_flag', {
+      featureName: 'checkout',
+      newName: 'taken',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'HTTP_409' } });
+    expect(resultText(result)).toContain('A feature flag named taken already exists');
+    expect(resultText(result)).toContain('Flag names are unique across all projects');
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+describe('create_flag', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('creates the flag in Unleash and links to it', async () => {
+    server = await startTestServer();
+
+    const result = await server.callTool('create_flag', {
+      name: 'new-checkout',
+      type: 'release',
+      description: 'Rewrite of the checkout flow',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(resultText(result)).toContain('Successfully created feature flag "new-checkout"');
+    expect(result.content).toContainEqual(
+      expect.objectContaining({
+        type: 'resource_link',
+        uri: 'unleash://feature-flag/default/new-checkout',
+      })
+    );
+    expect(server.fake.store.getFeature('default', 'new-checkout').description).toBe(
+      'Rewrite of the checkout flow'
+    );
+  });
+
+  it('only simulates the creation in dry-run mode', async () => {
+    server = await startTestServer({ dryRun: true });
+
+    const result = await server.callTool('create_flag', {
+      name: 'new-checkout',
+      type: 'release',
+      description: 'Rewrite of the checkout flow',
+    });
+
+    expect(resultText(result)).toContain('[DRY RUN] Would create feature flag "new-checkout"');
+    expect(server.fake.requests).toHaveLength(0);
+  });
+
+  it('returns the Unleash error with a hint when the name is taken', async () => {
+    server = await startTestServer({
+      seed: { projects: [{ id: 'default' }], features: [{ name: 'new-checkout' }] },
+    });
+
+    const result = await server.callTool('create_flag', {
+      name: 'new-checkout',
+      type: 'release',
+      description: 'Rewrite of the checkout flow',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ success: false, error: { code: 'HTTP_409' } });
+    expect(resultText(result)).toContain('Hint:');
+  });
+
+  it('surfaces permission errors injected by the fake', async () => {
+    server = await startTestServer();
+    server.fake.injectFault({ status: 403, method: 'POST', path: '/features' });
+
+    const result = await server.callTool('create_flag', {
+      name: 'new-checkout',
+      type: 'release',
+      description: 'Rewrite of the checkout flow',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'HTTP_403' } });
+  });
+});
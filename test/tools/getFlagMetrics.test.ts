@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        {
+          name: 'development',
+          enabled: true,
+          metrics: [{ appName: 'web', hoursAgo: 30, yes: 8, no: 0 }],
+        },
+        {
+          name: 'production',
+          enabled: true,
+          metrics: [
+            { appName: 'web', hoursAgo: 1, yes: 90, no: 10 },
+            { appName: 'api', hoursAgo: 2, yes: 0, no: 100 },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'unused',
+      environments: [{ name: 'production', enabled: true }],
+    },
+  ],
+};
+
+describe('get_flag_metrics', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('reports evaluations per environment within the window', async () => {
+    server = await startTestServer({ seed });
+
+    const result = await server.callTool('get_flag_metrics', { featureName: 'checkout' });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      hoursBack: 24,
+      evaluated: true,
+      totalEvaluations: 200,
+    });
+    const text = resultText(result);
+    expect(text).toContain('- development: not evaluated');
+    expect(text).toContain('- production: 200 evaluations, 45% true (90 yes / 110 no); apps api, web');
+    expect(text).toContain('Evaluated in 1 of 2 environment(s).');
+  });
+
+  it('widens the window with hoursBack and filters by environment', async () => {
+    server = await startTestServer({ seed });
+
+    const result = await server.callTool('get_flag_metrics', {
+      featureName: 'checkout',
+      environment: 'Development',
+      hoursBack: 48,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      totalEvaluations: 8,
+      environments: [{ environment: 'development', yes: 8 }],
+    });
+  });
+
+  it('warns when no SDK evaluated the flag', async () => {
+    server = await startTestServer({ seed });
+
+    const result = await server.callTool('get_flag_metrics', { featureName: 'unused' });
+
+    expect(result.structuredContent).toMatchObject({ evaluated: false });
+    expect(resultText(result)).toContain('No SDK evaluated "unused" in this window.');
+  });
+
+  it('rejects a window longer than Unleash keeps metrics', async () => {
+    server = await startTestServer({ seed });
+
+    const result = await server.callTool('get_flag_metrics', {
+      featureName: 'checkout',
+      hoursBack: 72,
+    });
+
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('metrics warnings', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('only fetches usage for the cleanup instructions', async () => {
+    server = await startTestServer({ seed });
+    const metricsRequests = () =>
+      server.fake.requests.filter((request) => request.path.includes('/client-metrics/'));
+
+    const archive = await server.callTool('cleanup_flag', {
+      flagName: 'checkout',
+      codeRemoved: true,
+    });
+    const ask = await server.callTool('cleanup_flag', { flagName: 'checkout' });
+
+    expect(resultText(archive)).toContain('call `get_flag_metrics` for the flag');
+    expect(resultText(ask)).toContain(
+      'Call `get_flag_metrics` to see which value users currently get'
+    );
+    expect(metricsRequests()).toEqual([]);
+
+    await server.callTool('cleanup_flag', { flagName: 'checkout', preservePath: 'enabled' });
+
+    expect(metricsRequests()).toHaveLength(1);
+  });
+
+  it('warns when the preserved path is not what production users get', async () => {
+    server = await startTestServer({ seed });
+
+    const result = await server.callTool('cleanup_flag', {
+      flagName: 'checkout',
+      preservePath: 'enabled',
+    });
+
+    expect(resultText(result)).toContain(
+      'you are preserving the **enabled** path, but in "production" 45% of evaluations returned true'
+    );
+  });
+
+  it('flags a rollout stage whose health check saw no evaluations', async () => {
+    server = await startTestServer({ seed });
+    await server.callTool('plan_rollout', {
+      featureName: 'unused',
+      environment: 'production',
+      stages: [
+        { percentage: 10, minDwellMinutes: 0 },
+        { percentage: 100, minDwellMinutes: 0 },
+      ],
+      start: true,
+    });
+
+    const result = await server.callTool('advance_rollout', {
+      featureName: 'unused',
+      environment: 'production',
+      healthy: true,
+    });
+
+    expect(resultText(result)).toContain(
+      'Warning: "unused" was not evaluated in "production" during the previous stage'
+    );
+  });
+
+  it('reports the evaluations behind a rollout stage', async () => {
+    server = await startTestServer({ seed });
+    await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      stages: [
+        { percentage: 10, minDwellMinutes: 0 },
+        { percentage: 100, minDwellMinutes: 0 },
+      ],
+      start: true,
+    });
+
+    const result = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({ stageMetrics: { total: 100 } });
+    expect(resultText(result)).toContain(
+      'During the previous stage (10%) it was evaluated 100 times in "production", 90% true.'
+    );
+  });
+});
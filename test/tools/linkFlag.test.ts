@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      links: [{ url: 'https://github.com/acme/shop/pull/1', title: 'PR #1' }],
+    },
+  ],
+};
+
+describe('link_flag', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('adds new links and skips URLs that are already linked', async () => {
+    const result = await server.callTool('link_flag', {
+      featureName: 'checkout',
+      links: [
+        { url: 'https://github.com/acme/shop/pull/1' },
+        { url: 'https://jira.example.com/browse/SHOP-42', title: 'SHOP-42' },
+      ],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(resultText(result)).toContain(
+      'Linked 1 URL(s) to "checkout":\n- SHOP-42 (https://jira.example.com/browse/SHOP-42)'
+    );
+    expect(resultText(result)).toContain('Already linked: https://github.com/acme/shop/pull/1');
+    expect(
+      server.fake.store.getFeature('default', 'checkout').links?.map((link) => link.url)
+    ).toEqual(['https://github.com/acme/shop/pull/1', 'https://jira.example.com/browse/SHOP-42']);
+  });
+
+  it('reports when every link is already there', async () => {
+    const result = await server.callTool('link_flag', {
+      featureName: 'checkout',
+      links: [{ url: 'https://github.com/acme/shop/pull/1' }],
+    });
+
+    expect(resultText(result)).toContain('No new links for "checkout".');
+    expect(server.fake.requests.every((request) => request.method === 'GET')).toBe(true);
+  });
+
+  it('only accepts http and https URLs', async () => {
+    const result = await server.callTool('link_flag', {
+      featureName: 'checkout',
+      links: [{ url: 'ftp://files.example.com/flag.txt' }],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Links must use http or https');
+  });
+});
+
+describe('create_flag links', () => {
+  it('links the new flag to the given URLs', async () => {
+    const server = await startTestServer({ seed });
+
+    try {
+      const result = await server.callTool('create_flag', {
+        name: 'new-banner',
+        type: 'release',
+        description: 'Banner',
+        links: [{ url: 'https://github.com/acme/shop/pull/2', title: 'PR #2' }],
+      });
+
+      expect(resultText(result)).toContain('Links: PR #2 (https://github.com/acme/shop/pull/2)');
+      expect(server.fake.store.getFeature('default', 'new-banner').links).toMatchObject([
+        { url: 'https://github.com/acme/shop/pull/2', title: 'PR #2' },
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+});
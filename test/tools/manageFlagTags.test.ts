@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  tagTypes: ['simple', { name: 'squad', description: 'Owning squad' }],
+  features: [
+    { name: 'checkout', tags: [{ type: 'squad', value: 'payments' }] },
+    { name: 'search', tags: [{ type: 'squad', value: 'discovery' }] },
+  ],
+};
+
+describe('manage_flag_tags', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('lists the tag types without a featureName', async () => {
+    const result = await server.callTool('manage_flag_tags', {});
+
+    expect(resultText(result)).toBe('2 tag type(s):\n- simple\n- squad: Owning squad');
+  });
+
+  it('adds and removes tags in one request', async () => {
+    const result = await server.callTool('manage_flag_tags', {
+      featureName: 'checkout',
+      add: [{ type: 'simple', value: 'web' }],
+      remove: [
+        { type: 'squad', value: 'payments' },
+        { type: 'squad', value: 'growth' },
+      ],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      tags: [{ type: 'simple', value: 'web' }],
+      added: [{ type: 'simple', value: 'web' }],
+      removed: [{ type: 'squad', value: 'payments' }],
+    });
+    expect(resultText(result)).toContain('Not on the flag, nothing to remove: squad:growth');
+    expect(server.fake.store.getFeature('default', 'checkout').tags).toEqual([
+      { type: 'simple', value: 'web' },
+    ]);
+  });
+
+  it('refuses unknown tag types unless asked to create them', async () => {
+    const refused = await server.callTool('manage_flag_tags', {
+      featureName: 'checkout',
+      add: [{ type: 'jira', value: 'PROJ-1' }],
+    });
+    expect(refused.structuredContent).toMatchObject({ error: { code: 'TAG_TYPE_NOT_FOUND' } });
+    expect(resultText(refused)).toContain('Available tag types: simple, squad');
+
+    const created = await server.callTool('manage_flag_tags', {
+      featureName: 'checkout',
+      add: [{ type: 'jira', value: 'PROJ-1' }],
+      createMissingTypes: true,
+    });
+    expect(created.structuredContent).toMatchObject({ createdTagTypes: ['jira'] });
+    expect(resultText(created)).toContain('Created tag type(s): jira');
+  });
+
+  it('requires a featureName to change tags', async () => {
+    const result = await server.callTool('manage_flag_tags', {
+      add: [{ type: 'simple', value: 'web' }],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('featureName is required to add or remove tags');
+  });
+});
+
+describe('create_flag tags', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('attaches tags to the new flag', async () => {
+    const result = await server.callTool('create_flag', {
+      name: 'new-banner',
+      type: 'release',
+      description: 'Banner',
+      tags: [{ type: 'squad', value: 'growth' }],
+    });
+
+    expect(resultText(result)).toContain('Tags: squad:growth');
+    expect(server.fake.store.getFeature('default', 'new-banner').tags).toEqual([
+      { type: 'squad', value: 'growth' },
+    ]);
+  });
+
+  it('checks tag types before creating the flag', async () => {
+    const result = await server.callTool('create_flag', {
+      name: 'new-banner',
+      type: 'release',
+      description: 'Banner',
+      tags: [{ type: 'jira', value: 'PROJ-1' }],
+    });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'TAG_TYPE_NOT_FOUND' } });
+    expect(server.fake.requests.some((request) => request.method === 'POST')).toBe(false);
+  });
+});
+
+describe('feature-flags resource tag filter', () => {
+  it('only lists flags carrying the tag', async () => {
+    const server = await startTestServer({ seed });
+
+    try {
+      const result = await server.client.readResource({
+        uri: 'unleash://projects/default/feature-flags?tag=squad%3Apayments',
+      });
+      const body = JSON.parse(String(result.contents[0].text));
+
+      expect(body.filters.tag).toBe('squad:payments');
+      expect(body.flags.map((flag: { name: string }) => flag.name)).toEqual(['checkout']);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const rollout = (id: string, percentage: number, title?: string) => ({
+  id,
+  name: 'flexibleRollout',
+  ...(title ? { title } : {}),
+  parameters: { rollout: String(percentage), groupId: 'checkout', stickiness: 'default' },
+});
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        {
+          name: 'development',
+          enabled: true,
+          strategies: [rollout('dev-1', 100), rollout('dev-beta', 20, 'Beta')],
+          variants: [
+            { name: 'blue', weight: 1000, weightType: 'variable' as const, stickiness: 'default' },
+          ],
+        },
+        {
+          name: 'production',
+          enabled: false,
+          strategies: [rollout('prod-1', 10), rollout('prod-old', 5, 'Old')],
+        },
+      ],
+    },
+  ],
+};
+
+function environment(server: TestServer, name: string) {
+  return server.fake.store
+    .getFeature('default', 'checkout')
+    .environments?.find((env) => env.name === name);
+}
+
+describe('promote_flag', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('previews the changes without applying them', async () => {
+    const result = await server.callTool('promote_flag', {
+      featureName: 'checkout',
+      sourceEnvironment: 'development',
+      targetEnvironment: 'production',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      applied: false,
+      plan: {
+        strategies: [
+          { action: 'update', targetId: 'prod-1' },
+          { action: 'add' },
+          { action: 'remove', targetId: 'prod-old' },
+        ],
+        enable: false,
+      },
+    });
+    const text = resultText(result);
+    expect(text).toContain('~ Update prod-1');
+    expect(text).toContain('    rollout: "10" → "100"');
+    expect(text).toContain('~ Set variants: blue 100%');
+    expect(text).toContain('Call promote_flag again with confirm: true to apply.');
+    expect(text).toContain('"production" is disabled');
+    expect(server.fake.requests.every((request) => request.method === 'GET')).toBe(true);
+  });
+
+  it('applies strategies, variants and enabling with confirm', async () => {
+    const result = await server.callTool('promote_flag', {
+      featureName: 'checkout',
+      sourceEnvironment: 'development',
+      targetEnvironment: 'production',
+      enable: true,
+      confirm: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({ applied: true });
+    const production = environment(server, 'production');
+    expect(production?.enabled).toBe(true);
+    expect(production?.variants?.map((variant) => variant.name)).toEqual(['blue']);
+    expect(
+      production?.strategies?.map((strategy) => [strategy.title ?? null, strategy.parameters?.rollout])
+    ).toEqual([
+      [null, '100'],
+      ['Beta', '20'],
+    ]);
+    expect(production?.strategies?.[0].id).toBe('prod-1');
+  });
+
+  it('keeps target-only strategies when asked and leaves variants alone', async () => {
+    await server.callTool('promote_flag', {
+      featureName: 'checkout',
+      sourceEnvironment: 'development',
+      targetEnvironment: 'production',
+      keepTargetStrategies: true,
+      includeVariants: false,
+      confirm: true,
+    });
+
+    const production = environment(server, 'production');
+    expect(production?.strategies?.map((strategy) => strategy.title ?? null)).toEqual([
+      null,
+      'Old',
+      'Beta',
+    ]);
+    expect(production?.variants ?? []).toEqual([]);
+  });
+
+  it('reports nothing to promote once the environments match', async () => {
+    await server.callTool('promote_flag', {
+      featureName: 'checkout',
+      sourceEnvironment: 'development',
+      targetEnvironment: 'production',
+      confirm: true,
+    });
+
+    const result = await server.callTool('promote_flag', {
+      featureName: 'checkout',
+      sourceEnvironment: 'development',
+      targetEnvironment: 'production',
+      confirm: true,
+    });
+
+    expect(resultText(result)).toContain('nothing to promote');
+    expect(result.structuredContent).toMatchObject({ applied: false });
+  });
+
+  it('rejects the same source and target', async () => {
+    const result = await server.callTool('promote_flag', {
+      featureName: 'checkout',
+      sourceEnvironment: 'production',
+      targetEnvironment: 'Production',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Source and target environments must differ');
+  });
+});
@@ -0,0 +1,306 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        { name: 'development', enabled: true },
+        { name: 'production', enabled: true },
+      ],
+    },
+  ],
+};
+
+const quickStages = [
+  { percentage: 10, minDwellMinutes: 0 },
+  { percentage: 50, minDwellMinutes: 0 },
+  { percentage: 100, minDwellMinutes: 0 },
+];
+
+function productionStrategies(server: TestServer) {
+  return (
+    server.fake.store
+      .getFeature('default', 'checkout')
+      .environments?.find((env) => env.name === 'production')?.strategies ?? []
+  );
+}
+
+describe('plan_rollout and advance_rollout', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('applies the first stage through a strategy titled after the plan', async () => {
+    const result = await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      start: true,
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      plan: { name: 'checkout-production', status: 'in_progress', currentStage: 0 },
+    });
+    expect(productionStrategies(server)).toMatchObject([
+      { title: 'Rollout plan: checkout-production', parameters: { rollout: '5' } },
+    ]);
+  });
+
+  it('waits for the dwell time before advancing', async () => {
+    await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      start: true,
+    });
+
+    const result = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'DWELL_TIME_NOT_MET' } });
+    expect(resultText(result)).toContain('needs 60 more minute(s)');
+  });
+
+  it('updates the same strategy in place for later stages until complete', async () => {
+    await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      stages: quickStages,
+      start: true,
+    });
+    const [strategy] = productionStrategies(server);
+
+    const second = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: true,
+    });
+    expect(second.structuredContent).toMatchObject({ action: 'advanced', rolloutPercentage: 50 });
+
+    const last = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: true,
+    });
+    expect(last.structuredContent).toMatchObject({ plan: { status: 'completed' } });
+    expect(resultText(last)).toContain('The rollout plan is complete.');
+
+    expect(productionStrategies(server)).toMatchObject([
+      { id: strategy.id, parameters: { rollout: '100' } },
+    ]);
+    expect(server.fake.requests.filter((request) => request.method === 'POST')).toHaveLength(1);
+    expect(server.fake.requests.filter((request) => request.method === 'PUT')).toHaveLength(2);
+
+    const again = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: true,
+    });
+    expect(again.structuredContent).toMatchObject({ error: { code: 'ROLLOUT_PLAN_COMPLETED' } });
+  });
+
+  it('halts on an unhealthy report and only continues with resume', async () => {
+    await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      stages: quickStages,
+      start: true,
+    });
+
+    const halted = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: false,
+      note: 'error rate up',
+    });
+    expect(halted.structuredContent).toMatchObject({
+      action: 'halted',
+      rolloutPercentage: 10,
+      plan: { status: 'halted', haltedReason: 'error rate up' },
+    });
+
+    const blocked = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: true,
+    });
+    expect(blocked.structuredContent).toMatchObject({ error: { code: 'ROLLOUT_PLAN_HALTED' } });
+
+    const resumed = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      healthy: true,
+      resume: true,
+    });
+    expect(resumed.structuredContent).toMatchObject({
+      rolloutPercentage: 50,
+      plan: { status: 'in_progress' },
+    });
+  });
+
+  it('refuses to overwrite an unfinished plan unless replace is passed', async () => {
+    await server.callTool('plan_rollout', { featureName: 'checkout', environment: 'production' });
+
+    const duplicate = await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+    });
+    expect(duplicate.structuredContent).toMatchObject({ error: { code: 'ROLLOUT_PLAN_EXISTS' } });
+
+    const replaced = await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      stages: quickStages,
+      replace: true,
+    });
+    expect(replaced.structuredContent).toMatchObject({ replaced: true, plan: { stages: quickStages } });
+  });
+
+  it('rejects stages that do not increase', async () => {
+    const result = await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      stages: [
+        { percentage: 50, minDwellMinutes: 0 },
+        { percentage: 25, minDwellMinutes: 0 },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Stage percentages must be strictly increasing');
+  });
+
+  it('applies a stage once when two advances race', async () => {
+    await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      stages: [
+        { percentage: 10, minDwellMinutes: 30 },
+        { percentage: 100, minDwellMinutes: 0 },
+      ],
+    });
+    const advance = () =>
+      server.callTool('advance_rollout', {
+        featureName: 'checkout',
+        environment: 'production',
+        healthy: true,
+      });
+
+    const results = await Promise.all([advance(), advance()]);
+
+    expect(results.filter((result) => !result.isError)).toHaveLength(1);
+    expect(results.find((result) => result.isError)?.structuredContent).toMatchObject({
+      error: { code: 'DWELL_TIME_NOT_MET' },
+    });
+    expect(productionStrategies(server)).toHaveLength(1);
+    expect(server.fake.requests.filter((request) => request.method === 'POST')).toHaveLength(1);
+  });
+
+  it('reports a missing plan', async () => {
+    const result = await server.callTool('advance_rollout', {
+      featureName: 'checkout',
+      environment: 'development',
+      healthy: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'ROLLOUT_PLAN_NOT_FOUND' } });
+  });
+});
+
+describe('plan_rollout with existing strategies', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('takes over the flexibleRollout strategy already in the environment', async () => {
+    server = await startTestServer({
+      seed: {
+        projects: [{ id: 'default' }],
+        features: [
+          {
+            name: 'checkout',
+            environments: [
+              {
+                name: 'production',
+                enabled: true,
+                strategies: [
+                  {
+                    id: 'prod-1',
+                    name: 'flexibleRollout',
+                    parameters: { rollout: '1', groupId: 'checkout', stickiness: 'default' },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    const result = await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      stages: quickStages,
+      start: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({ plan: { strategyId: 'prod-1', currentStage: 0 } });
+    expect(productionStrategies(server)).toMatchObject([
+      { id: 'prod-1', parameters: { rollout: '10', groupId: 'checkout' } },
+    ]);
+    expect(server.fake.requests.filter((request) => request.method === 'POST')).toHaveLength(0);
+  });
+
+  it('refuses to start when another strategy already serves everyone', async () => {
+    server = await startTestServer({
+      seed: {
+        projects: [{ id: 'default' }],
+        features: [
+          {
+            name: 'checkout',
+            environments: [
+              {
+                name: 'production',
+                enabled: true,
+                strategies: [{ id: 'prod-default', name: 'default' }],
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    const result = await server.callTool('plan_rollout', {
+      featureName: 'checkout',
+      environment: 'production',
+      start: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'ROLLOUT_ALREADY_FULL' } });
+    expect(resultText(result)).toContain('prod-default (default)');
+    expect(productionStrategies(server)).toHaveLength(1);
+    expect(
+      await server.context.rolloutPlans.get(
+        server.context.config.unleash.baseUrl,
+        'default',
+        'checkout',
+        'production'
+      )
+    ).toBeUndefined();
+  });
+});
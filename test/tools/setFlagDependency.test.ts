@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout-v2',
+      environments: [{ name: 'production', enabled: true, variants: [{ name: 'blue' }] }],
+    },
+    { name: 'express-pay' },
+    { name: 'apple-pay', dependencies: [{ feature: 'checkout-v2' }] },
+  ],
+};
+
+describe('set_flag_dependency', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('makes a flag depend on a variant of its parent', async () => {
+    const result = await server.callTool('set_flag_dependency', {
+      featureName: 'express-pay',
+      parentFeature: 'checkout-v2',
+      variants: ['blue'],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(resultText(result)).toContain(
+      'Made "express-pay" depend on checkout-v2 (variant blue).'
+    );
+    expect(server.fake.store.getFeature('default', 'express-pay').dependencies).toEqual([
+      { feature: 'checkout-v2', enabled: true, variants: ['blue'] },
+    ]);
+  });
+
+  it('refuses a parent that has a parent itself', async () => {
+    const result = await server.callTool('set_flag_dependency', {
+      featureName: 'express-pay',
+      parentFeature: 'apple-pay',
+    });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'TRANSITIVE_DEPENDENCY' } });
+    expect(resultText(result)).toContain('apple-pay already depends on checkout-v2');
+  });
+
+  it('lists the parent variants when an unknown one is required', async () => {
+    const result = await server.callTool('set_flag_dependency', {
+      featureName: 'express-pay',
+      parentFeature: 'checkout-v2',
+      variants: ['green'],
+    });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'VARIANT_NOT_FOUND' } });
+    expect(resultText(result)).toContain('Variants of checkout-v2: blue');
+  });
+
+  it('removes every dependency when no parent is given', async () => {
+    const result = await server.callTool('set_flag_dependency', {
+      featureName: 'apple-pay',
+      remove: true,
+    });
+
+    expect(resultText(result)).toContain('Removed dependency on checkout-v2 (enabled).');
+    expect(server.fake.store.getFeature('default', 'apple-pay').dependencies ?? []).toEqual([]);
+  });
+
+  it('rejects a flag depending on itself', async () => {
+    const result = await server.callTool('set_flag_dependency', {
+      featureName: 'express-pay',
+      parentFeature: 'express-pay',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('A flag cannot depend on itself');
+  });
+});
+
+describe('get_flag_state dependencies', () => {
+  it('shows parents and children', async () => {
+    const server = await startTestServer({ seed });
+
+    try {
+      const child = await server.callTool('get_flag_state', { featureName: 'apple-pay' });
+      const parent = await server.callTool('get_flag_state', { featureName: 'checkout-v2' });
+
+      expect(resultText(child)).toContain('Depends on: checkout-v2 (enabled)');
+      expect(resultText(parent)).toContain('Required by: apple-pay');
+    } finally {
+      await server.close();
+    }
+  });
+});
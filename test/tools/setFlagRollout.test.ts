@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const rollout = (id: string, percentage: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: 'flexibleRollout',
+  parameters: { rollout: String(percentage), groupId: 'checkout', stickiness: 'default' },
+  ...extra,
+});
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    { name: 'eu-pricing', environments: [{ name: 'production', enabled: true }] },
+    {
+      name: 'checkout',
+      environments: [
+        { name: 'development', enabled: true, strategies: [rollout('dev-1', 100)] },
+        {
+          name: 'production',
+          enabled: true,
+          strategies: [
+            rollout('prod-1', 10),
+            rollout('prod-beta', 50, {
+              title: 'Beta testers',
+              parameters: { rollout: '50', groupId: 'beta', stickiness: 'default' },
+            }),
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+function strategiesIn(server: TestServer, environment: string) {
+  return (
+    server.fake.store
+      .getFeature('default', 'checkout')
+      .environments?.find((env) => env.name === environment)?.strategies ?? []
+  );
+}
+
+describe('set_flag_rollout', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('constraints and segments', () => {
+    it('sends validated constraints and segment IDs with a new strategy', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'eu-pricing',
+        environment: 'production',
+        rolloutPercentage: 100,
+        createNew: true,
+        constraints: [
+          { contextName: 'region', operator: 'IN', values: ['eu'] },
+          {
+            contextName: 'email',
+            operator: 'STR_ENDS_WITH',
+            values: ['@example.com'],
+            caseInsensitive: true,
+          },
+        ],
+        segments: [7],
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(resultText(result)).toContain(
+        'Only for: region IN [eu] AND email STR_ENDS_WITH [@example.com] (case-insensitive)'
+      );
+      expect(resultText(result)).toContain('Segments: 7');
+
+      const post = server.fake.requests.find((request) => request.method === 'POST');
+      expect(post?.body).toMatchObject({
+        name: 'flexibleRollout',
+        constraints: [
+          {
+            contextName: 'region',
+            operator: 'IN',
+            values: ['eu'],
+            caseInsensitive: false,
+            inverted: false,
+          },
+          {
+            contextName: 'email',
+            operator: 'STR_ENDS_WITH',
+            values: ['@example.com'],
+            caseInsensitive: true,
+          },
+        ],
+        segments: [7],
+      });
+    });
+
+    it('rejects an invalid constraint before calling Unleash', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'eu-pricing',
+        environment: 'production',
+        rolloutPercentage: 50,
+        createNew: true,
+        constraints: [{ contextName: 'age', operator: 'NUM_GT', value: 'adult' }],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(resultText(result)).toContain('NUM_GT needs a number, got "adult"');
+      expect(resultText(result)).toContain('Field: constraints.0.value');
+      expect(server.fake.requests.some((request) => request.method === 'POST')).toBe(false);
+    });
+  });
+
+  describe('existing strategies', () => {
+    it('updates the strategy matching the flag name as groupId in place', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'checkout',
+        environment: 'production',
+        rolloutPercentage: 25,
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        action: 'updated',
+        changes: [{ field: 'rollout', before: '10', after: '25' }],
+        strategy: { id: 'prod-1' },
+      });
+      expect(resultText(result)).toContain('- rollout: "10" → "25"');
+      expect(server.fake.requests.some((request) => request.method === 'POST')).toBe(false);
+      expect(server.fake.requests.find((request) => request.method === 'PUT')?.path).toBe(
+        '/api/admin/projects/default/features/checkout/environments/production/strategies/prod-1'
+      );
+
+      const strategies = strategiesIn(server, 'production');
+      const updated = strategies.find((strategy) => strategy.id === 'prod-1');
+      expect(strategies).toHaveLength(2);
+      expect(updated?.parameters?.rollout).toBe('25');
+    });
+
+    it('finds the strategy by title and keeps settings that were not supplied', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'checkout',
+        environment: 'production',
+        rolloutPercentage: 75,
+        title: 'Beta testers',
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        action: 'updated',
+        strategy: { id: 'prod-beta' },
+        changes: [{ field: 'rollout', before: '50', after: '75' }],
+      });
+      const beta = strategiesIn(server, 'production').find((strategy) => strategy.id === 'prod-beta');
+      expect(beta?.parameters).toEqual({ rollout: '75', groupId: 'beta', stickiness: 'default' });
+    });
+
+    it('updates the strategy picked by strategyId', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'checkout',
+        environment: 'production',
+        rolloutPercentage: 50,
+        strategyId: 'prod-beta',
+        stickiness: 'userId',
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        action: 'updated',
+        changes: [{ field: 'stickiness', before: 'default', after: 'userId' }],
+      });
+    });
+
+    it('sends nothing when the strategy already matches', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'checkout',
+        environment: 'development',
+        rolloutPercentage: 100,
+      });
+
+      expect(result.structuredContent).toMatchObject({ action: 'unchanged', changes: [] });
+      expect(server.fake.requests.every((request) => request.method === 'GET')).toBe(true);
+    });
+
+    it('adds another strategy only with createNew', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'checkout',
+        environment: 'production',
+        rolloutPercentage: 5,
+        groupId: 'canary',
+        createNew: true,
+      });
+
+      expect(result.structuredContent).toMatchObject({ action: 'created', previousStrategy: null });
+      expect(strategiesIn(server, 'production')).toHaveLength(3);
+    });
+
+    it('fails with NO_MATCHING_STRATEGY instead of appending a strategy', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'eu-pricing',
+        environment: 'production',
+        rolloutPercentage: 10,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({ error: { code: 'NO_MATCHING_STRATEGY' } });
+      expect(resultText(result)).toContain(
+        'Call set_flag_rollout again with the same arguments plus createNew: true.'
+      );
+      expect(server.fake.requests.some((request) => request.method !== 'GET')).toBe(false);
+    });
+
+    it('reports an unknown strategyId with the strategies that exist', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'checkout',
+        environment: 'production',
+        rolloutPercentage: 10,
+        strategyId: 'missing',
+      });
+
+      expect(result.structuredContent).toMatchObject({ error: { code: 'STRATEGY_NOT_FOUND' } });
+      expect(resultText(result)).toContain('prod-1');
+      expect(resultText(result)).toContain('prod-beta ("Beta testers", flexibleRollout 50%)');
+    });
+
+    it('rejects strategyId together with createNew', async () => {
+      const result = await server.callTool('set_flag_rollout', {
+        featureName: 'checkout',
+        environment: 'production',
+        rolloutPercentage: 10,
+        strategyId: 'prod-1',
+        createNew: true,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(resultText(result)).toContain('Pass either strategyId (update) or createNew (add)');
+    });
+  });
+});
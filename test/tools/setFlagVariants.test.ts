@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        {
+          name: 'production',
+          enabled: true,
+          variants: [
+            { name: 'old', weight: 1000, weightType: 'variable' as const, stickiness: 'userId' },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('set_flag_variants', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('keeps fixed weights, shares the rest and keeps the current stickiness', async () => {
+    const result = await server.callTool('set_flag_variants', {
+      featureName: 'checkout',
+      environment: 'production',
+      variants: [
+        { name: 'control', weight: 500 },
+        { name: 'blue', payload: { type: 'json', value: '{"color":"blue"}' } },
+        { name: 'green', overrides: [{ contextName: 'userId', values: ['42'] }] },
+      ],
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      stickiness: 'userId',
+      removed: ['old'],
+      variants: [
+        { name: 'control', weight: 500, weightType: 'fix' },
+        { name: 'blue', weight: 250, weightType: 'variable' },
+        { name: 'green', weight: 250, weightType: 'variable' },
+      ],
+    });
+    expect(resultText(result)).toContain('- control 50% (fixed)');
+
+    const put = server.fake.requests.find((request) => request.method === 'PUT');
+    expect(put?.path).toBe('/api/admin/projects/default/features/checkout/environments/production/variants');
+  });
+
+  it('sends the last variant as variable when every weight is given', async () => {
+    const result = await server.callTool('set_flag_variants', {
+      featureName: 'checkout',
+      environment: 'production',
+      variants: [
+        { name: 'a', weight: 300 },
+        { name: 'b', weight: 700 },
+      ],
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      variants: [
+        { name: 'a', weight: 300, weightType: 'fix' },
+        { name: 'b', weight: 700, weightType: 'variable' },
+      ],
+    });
+  });
+
+  it('rejects weights that do not add up to 1000', async () => {
+    const result = await server.callTool('set_flag_variants', {
+      featureName: 'checkout',
+      environment: 'production',
+      variants: [
+        { name: 'a', weight: 300 },
+        { name: 'b', weight: 300 },
+      ],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Variant weights must add up to 1000, got 600');
+    expect(server.fake.requests.some((request) => request.method === 'PUT')).toBe(false);
+  });
+
+  it('rejects duplicate names and invalid payloads', async () => {
+    const duplicate = await server.callTool('set_flag_variants', {
+      featureName: 'checkout',
+      environment: 'production',
+      variants: [{ name: 'a' }, { name: 'a' }],
+    });
+    expect(resultText(duplicate)).toContain('Variant name "a" is used more than once');
+
+    const csv = await server.callTool('set_flag_variants', {
+      featureName: 'checkout',
+      environment: 'production',
+      variants: [{ name: 'a', payload: { type: 'csv', value: 'a,b\n1' } }],
+    });
+    expect(resultText(csv)).toContain('Invalid CSV payload: row 2 has 1 fields, expected 2');
+    expect(resultText(csv)).toContain('Field: variants.0.payload.value');
+  });
+
+  it('removes every variant with an empty list', async () => {
+    const result = await server.callTool('set_flag_variants', {
+      featureName: 'checkout',
+      environment: 'production',
+      variants: [],
+    });
+
+    expect(resultText(result)).toContain('Removed all variants of "checkout" in "production".');
+    expect(result.structuredContent).toMatchObject({ variants: [], removed: ['old'] });
+  });
+});
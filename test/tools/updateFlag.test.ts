@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { resultText, startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [{ name: 'checkout-v2', description: 'Old copy', impressionData: false }],
+};
+
+describe('update_flag', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('against Unleash', () => {
+    beforeEach(async () => {
+      server = await startTestServer({ seed });
+    });
+
+    it('patches only the supplied fields and returns a before/after diff', async () => {
+      const result = await server.callTool('update_flag', {
+        featureName: 'checkout-v2',
+        description: 'New checkout flow',
+        impressionData: true,
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        changed: true,
+        changes: [
+          { field: 'description', before: 'Old copy', after: 'New checkout flow' },
+          { field: 'impressionData', before: false, after: true },
+        ],
+      });
+
+      const patch = server.fake.requests.find((request) => request.method === 'PATCH');
+      expect(patch?.body).toEqual([
+        { op: 'replace', path: '/description', value: 'New checkout flow' },
+        { op: 'replace', path: '/impressionData', value: true },
+      ]);
+      expect(server.fake.store.getFeature('default', 'checkout-v2')).toMatchObject({
+        description: 'New checkout flow',
+        impressionData: true,
+      });
+    });
+
+    it('marks the flag stale through the stale endpoint', async () => {
+      const result = await server.callTool('update_flag', {
+        featureName: 'checkout-v2',
+        stale: true,
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        changes: [{ field: 'stale', before: false, after: true }],
+      });
+      expect(
+        server.fake.requests.some(
+          (request) => request.method === 'POST' && request.path === '/api/admin/projects/default/stale'
+        )
+      ).toBe(true);
+      expect(server.fake.requests.some((request) => request.method === 'PATCH')).toBe(false);
+    });
+
+    it('sends nothing when the flag already has the requested metadata', async () => {
+      const result = await server.callTool('update_flag', {
+        featureName: 'checkout-v2',
+        description: 'Old copy',
+      });
+
+      expect(resultText(result)).toContain('No changes needed');
+      expect(result.structuredContent).toMatchObject({ changed: false, changes: [] });
+      expect(server.fake.requests.every((request) => request.method === 'GET')).toBe(true);
+    });
+
+    it('rejects a call without any field to change', async () => {
+      const result = await server.callTool('update_flag', { featureName: 'checkout-v2' });
+
+      expect(result.isError).toBe(true);
+      expect(resultText(result)).toContain('Provide at least one of');
+    });
+  });
+
+  it('reports the simulated diff in dry-run mode', async () => {
+    server = await startTestServer({ seed, dryRun: true });
+
+    const result = await server.callTool('update_flag', {
+      featureName: 'checkout-v2',
+      type: 'experiment',
+    });
+
+    expect(resultText(result)).toContain('[DRY RUN] Would update feature flag "checkout-v2"');
+    expect(result.structuredContent).toMatchObject({
+      dryRun: true,
+      changes: [{ field: 'type', before: 'release', after: 'experiment' }],
+    });
+    expect(server.fake.requests).toHaveLength(0);
+  });
+});
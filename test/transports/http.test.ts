@@ -0,0 +1,297 @@
+import { IncomingMessage } from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolResultSchema, Progress } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { resolveSessionConfig } from '../../src/config.js';
+import { createMcpServer } from '../../src/server.js';
+import {
+  extractSessionCredentials,
+  HttpTransportHandle,
+  HttpTransportOptions,
+  startHttpTransport,
+} from '../../src/transports/http.js';
+import { UnleashClient } from '../../src/unleash/client.js';
+import { FakeUnleashServer } from '../support/fakeUnleashServer.js';
+import { createTestConfig, silentLogger } from '../support/harness.js';
+
+function request(headers: Record<string, string>): IncomingMessage {
+  return { headers } as unknown as IncomingMessage;
+}
+
+const initialize = (meta?: Record<string, unknown>) => ({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+    ...(meta ? { _meta: meta } : {}),
+  },
+});
+
+describe('extractSessionCredentials', () => {
+  it('reads the PAT and base URL from headers', () => {
+    const credentials = extractSessionCredentials(
+      request({ 'x-unleash-pat': 'user-token', 'x-unleash-base-url': 'https://eu.example.com' }),
+      initialize()
+    );
+
+    expect(credentials).toEqual({ pat: 'user-token', baseUrl: 'https://eu.example.com' });
+  });
+
+  it('accepts a Bearer or bare Authorization header', () => {
+    expect(
+      extractSessionCredentials(request({ authorization: 'Bearer user-token' }), initialize()).pat
+    ).toBe('user-token');
+    expect(
+      extractSessionCredentials(request({ authorization: 'user-token' }), initialize()).pat
+    ).toBe('user-token');
+  });
+
+  it('rejects other Authorization schemes', () => {
+    expect(() =>
+      extractSessionCredentials(request({ authorization: 'Basic dXNlcjpwYXNz' }), initialize())
+    ).toThrow(expect.objectContaining({ code: 'SESSION_AUTHORIZATION_UNSUPPORTED' }));
+  });
+
+  it('falls back to the initialize request _meta', () => {
+    const credentials = extractSessionCredentials(
+      request({}),
+      initialize({ unleashPat: 'meta-token', unleashBaseUrl: 'https://eu.example.com' })
+    );
+
+    expect(credentials).toEqual({ pat: 'meta-token', baseUrl: 'https://eu.example.com' });
+  });
+
+  it('prefers headers over _meta', () => {
+    const credentials = extractSessionCredentials(
+      request({ 'x-unleash-pat': 'header-token' }),
+      initialize({ unleashPat: 'meta-token' })
+    );
+
+    expect(credentials.pat).toBe('header-token');
+  });
+
+  it('returns no credentials when none were sent', () => {
+    expect(extractSessionCredentials(request({}), initialize())).toEqual({
+      pat: undefined,
+      baseUrl: undefined,
+    });
+  });
+});
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        {
+          name: 'production',
+          enabled: true,
+          strategies: [
+            {
+              name: 'flexibleRollout',
+              parameters: { rollout: '10', groupId: 'checkout', stickiness: 'default' },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+interface HttpTestServer {
+  fake: FakeUnleashServer;
+  transport: HttpTransportHandle;
+  url: URL;
+  /** How many sessions createSessionServer was asked to build */
+  sessionsCreated: number;
+  connect(headers?: Record<string, string>): Promise<{
+    client: Client;
+    transport: StreamableHTTPClientTransport;
+  }>;
+  close(): Promise<void>;
+}
+
+async function startHttpTestServer(
+  options: Partial<Pick<HttpTransportOptions, 'sessionIdleTimeoutMs' | 'allowedHosts'>> = {}
+): Promise<HttpTestServer> {
+  const fake = await FakeUnleashServer.start({ seed });
+  const config = createTestConfig(fake.baseUrl, '', { server: { transport: 'http' } });
+  const clients: Client[] = [];
+  let sessionsCreated = 0;
+
+  const transport = await startHttpTransport({
+    host: '127.0.0.1',
+    port: 0,
+    logger: silentLogger,
+    sessionIdleTimeoutMs: options.sessionIdleTimeoutMs ?? 0,
+    allowedHosts: options.allowedHosts ?? [],
+    allowedOrigins: [],
+    createSessionServer: (credentials) => {
+      const sessionConfig = resolveSessionConfig(config, credentials);
+      sessionsCreated++;
+      const unleashClient = new UnleashClient(
+        sessionConfig.unleash.baseUrl,
+        sessionConfig.unleash.pat,
+        false,
+        { retry: sessionConfig.unleash.retry, timeoutMs: sessionConfig.unleash.requestTimeoutMs }
+      );
+      return createMcpServer({ config: sessionConfig, unleashClient, logger: silentLogger }).server;
+    },
+  });
+  const url = new URL(`http://127.0.0.1:${transport.port}/mcp`);
+
+  return {
+    fake,
+    transport,
+    url,
+    get sessionsCreated() {
+      return sessionsCreated;
+    },
+    connect: async (headers = { 'X-Unleash-PAT': fake.token }) => {
+      const clientTransport = new StreamableHTTPClientTransport(url, { requestInit: { headers } });
+      const client = new Client({ name: 'unleash-mcp-http-test', version: '1.0.0' });
+      await client.connect(clientTransport);
+      clients.push(client);
+      return { client, transport: clientTransport };
+    },
+    close: async () => {
+      await Promise.all(clients.map((client) => client.close()));
+      await transport.close();
+      await fake.close();
+    },
+  };
+}
+
+/**
+ * Send a ping outside the SDK client, to check how the server treats a session ID.
+ */
+async function ping(url: URL, sessionId?: string): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'Mcp-Protocol-Version': '2025-06-18',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 99, method: 'ping' }),
+  });
+}
+
+describe('startHttpTransport', () => {
+  let server: HttpTestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('serves tools with the session token and reuses the session', async () => {
+    server = await startHttpTestServer();
+    const { client, transport } = await server.connect();
+
+    const first = await client.callTool({
+      name: 'get_flag_state',
+      arguments: { featureName: 'checkout' },
+    });
+    await client.callTool({ name: 'get_flag_state', arguments: { featureName: 'checkout' } });
+
+    expect(first.isError).toBeFalsy();
+    expect(transport.sessionId).toBeDefined();
+    expect(server.sessionsCreated).toBe(1);
+    expect(server.fake.requests.length).toBeGreaterThan(0);
+    expect(
+      server.fake.requests.every((request) => request.headers.authorization === server.fake.token)
+    ).toBe(true);
+  });
+
+  it('gives each client its own session', async () => {
+    server = await startHttpTestServer();
+
+    const first = await server.connect();
+    const second = await server.connect();
+
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(server.sessionsCreated).toBe(2);
+  });
+
+  it('streams progress notifications over SSE', async () => {
+    server = await startHttpTestServer();
+    const { client } = await server.connect();
+    const updates: Progress[] = [];
+
+    await client.callTool(
+      {
+        name: 'set_flag_rollout',
+        arguments: { featureName: 'checkout', environment: 'production', rolloutPercentage: 50 },
+      },
+      CallToolResultSchema,
+      { onprogress: (progress) => void updates.push(progress) }
+    );
+
+    expect(updates.map((update) => update.progress)).toEqual([0, 30, 100]);
+  });
+
+  it('rejects a session without credentials with 401', async () => {
+    server = await startHttpTestServer();
+
+    await expect(server.connect({})).rejects.toThrow(/401/);
+    expect(server.sessionsCreated).toBe(0);
+  });
+
+  it('answers 404 for an unknown session ID', async () => {
+    server = await startHttpTestServer();
+
+    const response = await ping(server.url, 'not-a-session');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      error: { message: 'Session not found: not-a-session' },
+    });
+  });
+
+  it('requires a session ID for anything but initialize', async () => {
+    server = await startHttpTestServer();
+
+    const response = await fetch(server.url, { method: 'GET' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('closes the session on DELETE', async () => {
+    server = await startHttpTestServer();
+    const { transport } = await server.connect();
+    const sessionId = transport.sessionId!;
+    expect((await ping(server.url, sessionId)).status).toBe(200);
+
+    await transport.terminateSession();
+
+    expect((await ping(server.url, sessionId)).status).toBe(404);
+  });
+
+  it('expires sessions that stay idle', async () => {
+    server = await startHttpTestServer({ sessionIdleTimeoutMs: 300 });
+    const { transport } = await server.connect();
+    const sessionId = transport.sessionId!;
+
+    // Each request restarts the idle timer
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect((await ping(server.url, sessionId)).status).toBe(200);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect((await ping(server.url, sessionId)).status).toBe(200);
+
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    expect((await ping(server.url, sessionId)).status).toBe(404);
+  });
+
+  it('rejects requests for a Host that is not allowed', async () => {
+    server = await startHttpTestServer({ allowedHosts: ['mcp.example.com:3000'] });
+
+    await expect(server.connect()).rejects.toThrow(/403/);
+  });
+});
@@ -0,0 +1,347 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { RetryAttempt, UnleashClient } from '../../src/unleash/client.js';
+import { FakeUnleashServer } from '../support/fakeUnleashServer.js';
+
+describe('UnleashClient against the fake Admin API', () => {
+  let fake: FakeUnleashServer;
+  let client: UnleashClient;
+
+  beforeAll(async () => {
+    fake = await FakeUnleashServer.start({
+      seed: {
+        projects: [{ id: 'default' }],
+        features: [
+          {
+            name: 'checkout-v2',
+            environments: [{ name: 'production', enabled: false }],
+          },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    fake.reset();
+    client = new UnleashClient(fake.baseUrl, fake.token, false, {
+      retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+      cacheTtlMs: 0,
+    });
+  });
+
+  it('creates a flag and reads it back', async () => {
+    await client.createFeatureFlag('default', {
+      name: 'new-search',
+      type: 'release',
+      description: 'New search backend',
+    });
+
+    const feature = await client.getFeature('default', 'new-search');
+    expect(feature.name).toBe('new-search');
+    expect(feature.description).toBe('New search backend');
+    expect(fake.requests.map((request) => `${request.method} ${request.path}`)).toEqual([
+      'POST /api/admin/projects/default/features',
+      'GET /api/admin/projects/default/features/new-search',
+    ]);
+  });
+
+  it('turns an environment on and removes a strategy', async () => {
+    await client.setFlexibleRolloutStrategy('default', 'checkout-v2', 'production', {
+      rolloutPercentage: 25,
+    });
+    await client.toggleFeatureEnvironment('default', 'checkout-v2', 'production', true);
+
+    let production = (await client.getFeature('default', 'checkout-v2')).environments?.find(
+      (env) => env.name === 'production'
+    );
+    expect(production?.enabled).toBe(true);
+    expect(production?.strategies).toHaveLength(1);
+
+    await client.deleteFeatureStrategy(
+      'default',
+      'checkout-v2',
+      'production',
+      production!.strategies![0].id!
+    );
+
+    production = (await client.getFeature('default', 'checkout-v2')).environments?.find(
+      (env) => env.name === 'production'
+    );
+    expect(production?.strategies).toHaveLength(0);
+  });
+
+  it('rejects a wrong token with HTTP_401', async () => {
+    const stranger = new UnleashClient(fake.baseUrl, 'not-the-token', false, {
+      retry: { maxRetries: 0 },
+    });
+
+    await expect(stranger.listProjects()).rejects.toMatchObject({ code: 'HTTP_401' });
+  });
+
+  it('reports a duplicate flag name as HTTP_409', async () => {
+    await expect(
+      client.createFeatureFlag('default', {
+        name: 'checkout-v2',
+        type: 'release',
+        description: 'Duplicate',
+      })
+    ).rejects.toMatchObject({ code: 'HTTP_409' });
+  });
+
+  it('reports an unknown flag as HTTP_404', async () => {
+    await expect(client.getFeature('default', 'missing')).rejects.toMatchObject({
+      code: 'HTTP_404',
+    });
+  });
+
+  it('retries reads that are rate limited and reports each retry', async () => {
+    fake.injectFault({ status: 429, path: '/api/admin/projects', times: 2 });
+    const retries: RetryAttempt[] = [];
+
+    const projects = await client.listProjects({ onRetry: (attempt) => void retries.push(attempt) });
+
+    expect(projects.map((project) => project.id)).toEqual(['default']);
+    expect(retries.map((attempt) => attempt.attempt)).toEqual([1, 2]);
+    expect(fake.requests).toHaveLength(3);
+  });
+
+  it('does not replay a flag creation after a server error', async () => {
+    fake.injectFault({ status: 503, method: 'POST', path: '/features' });
+
+    await expect(
+      client.createFeatureFlag('default', {
+        name: 'once-only',
+        type: 'release',
+        description: 'Not retried',
+      })
+    ).rejects.toMatchObject({ code: 'HTTP_503' });
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    fake.injectFault({ status: 502, path: '/api/admin/projects', times: 5 });
+
+    await expect(client.listProjects()).rejects.toMatchObject({ code: 'HTTP_502' });
+    expect(fake.requests).toHaveLength(3);
+  });
+
+  it('gives up on a hung response once the request timeout passes', async () => {
+    const impatient = new UnleashClient(fake.baseUrl, fake.token, false, {
+      retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+      timeoutMs: 50,
+      cacheTtlMs: 0,
+    });
+    fake.injectFault({ status: 200, path: '/api/admin/projects', delayMs: 1_000 });
+
+    await expect(impatient.listProjects()).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      message: expect.stringContaining('no response from Unleash within 50ms'),
+    });
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('stops a hung request when the caller aborts', async () => {
+    fake.injectFault({ status: 200, path: '/api/admin/projects', delayMs: 1_000 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(client.listProjects({ signal: controller.signal })).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+  });
+
+  it.each([
+    ['while the retry is being reported', (abort: () => void) => abort()],
+    ['during the backoff', (abort: () => void) => void setTimeout(abort, 20)],
+  ])('stops waiting to retry when the caller aborts %s', async (_when, onRetry) => {
+    const patient = new UnleashClient(fake.baseUrl, fake.token, false, {
+      retry: { maxRetries: 3, baseDelayMs: 5_000, maxDelayMs: 5_000 },
+      cacheTtlMs: 0,
+    });
+    fake.injectFault({
+      status: 503,
+      path: '/api/admin/projects',
+      times: 5,
+      headers: { 'Retry-After': '5' },
+    });
+    const controller = new AbortController();
+
+    const started = Date.now();
+    await expect(
+      patient.listProjects({
+        signal: controller.signal,
+        onRetry: () => onRetry(() => controller.abort()),
+      })
+    ).rejects.toMatchObject({ code: 'CANCELLED' });
+
+    expect(Date.now() - started).toBeLessThan(1_000);
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it('does not send a request once the caller has aborted', async () => {
+    await expect(client.listProjects({ signal: AbortSignal.abort() })).rejects.toMatchObject({
+      code: 'CANCELLED',
+    });
+    expect(fake.requests).toHaveLength(0);
+  });
+});
+
+describe('UnleashClient response cache', () => {
+  let fake: FakeUnleashServer;
+
+  beforeAll(async () => {
+    fake = await FakeUnleashServer.start({
+      seed: {
+        projects: [{ id: 'default' }],
+        features: [
+          { name: 'my-flag', environments: [{ name: 'production', enabled: false }] },
+          { name: 'my-flag-2', environments: [{ name: 'production', enabled: false }] },
+        ],
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    fake.reset();
+  });
+
+  function cachingClient(cacheTtlMs = 60_000): UnleashClient {
+    return new UnleashClient(fake.baseUrl, fake.token, false, {
+      retry: { maxRetries: 0 },
+      cacheTtlMs,
+    });
+  }
+
+  const featureReads = (featureName: string) =>
+    fake.requests.filter(
+      (request) =>
+        request.method === 'GET' && request.path === `/api/admin/projects/default/features/${featureName}`
+    );
+
+  it('serves repeated reads from the cache within the TTL', async () => {
+    const client = cachingClient();
+
+    const first = await client.getFeature('default', 'my-flag');
+    first.description = 'changed by the caller';
+    const second = await client.getFeature('default', 'my-flag');
+
+    expect(featureReads('my-flag')).toHaveLength(1);
+    expect(second.description).not.toBe('changed by the caller');
+  });
+
+  it('revalidates an expired entry with its ETag and reuses it on 304', async () => {
+    const client = cachingClient(1);
+
+    const first = await client.getFeature('default', 'my-flag');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await client.getFeature('default', 'my-flag');
+
+    const reads = featureReads('my-flag');
+    expect(reads).toHaveLength(2);
+    expect(reads[0].headers['if-none-match']).toBeUndefined();
+    expect(reads[1].headers['if-none-match']).toMatch(/^W\/"/);
+    expect(second).toEqual(first);
+  });
+
+  it('reads a flag again after changing it', async () => {
+    const client = cachingClient();
+    await client.getFeature('default', 'my-flag');
+
+    await client.toggleFeatureEnvironment('default', 'my-flag', 'production', true);
+    const feature = await client.getFeature('default', 'my-flag');
+
+    expect(featureReads('my-flag')).toHaveLength(2);
+    expect(feature.environments?.find((env) => env.name === 'production')?.enabled).toBe(true);
+  });
+
+  it('keeps flags whose names start with the changed flag cached', async () => {
+    const client = cachingClient();
+    await client.getFeature('default', 'my-flag-2');
+
+    await client.toggleFeatureEnvironment('default', 'my-flag', 'production', true);
+    await client.getFeature('default', 'my-flag-2');
+
+    expect(featureReads('my-flag-2')).toHaveLength(1);
+  });
+});
+
+describe('UnleashClient feature search', () => {
+  let fake: FakeUnleashServer;
+  let client: UnleashClient;
+
+  beforeAll(async () => {
+    fake = await FakeUnleashServer.start({
+      seed: {
+        projects: [{ id: 'default' }],
+        features: [
+          { name: 'alpha', type: 'release' },
+          { name: 'beta', type: 'release' },
+          { name: 'gamma', type: 'kill-switch' },
+        ],
+      },
+    });
+    client = new UnleashClient(fake.baseUrl, fake.token, false, { cacheTtlMs: 0 });
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    fake.reset();
+  });
+
+  it('sends every filter with the operator the search endpoint expects', async () => {
+    await client.listFeatureFlags('default', {
+      query: 'checkout flow',
+      type: 'release',
+      tag: 'simple:web',
+      state: 'stale',
+      createdBy: '7',
+      limit: 20,
+      offset: 40,
+      order: 'desc',
+    });
+
+    const [request] = fake.requests;
+    expect(request.path).toBe('/api/admin/search/features');
+    expect(Object.fromEntries(request.query)).toEqual({
+      project: 'IS:default',
+      query: 'checkout flow',
+      type: 'IS:release',
+      tag: 'INCLUDE:simple:web',
+      state: 'IS:stale',
+      createdBy: 'IS:7',
+      limit: '20',
+      offset: '40',
+      sortBy: 'name',
+      sortOrder: 'desc',
+    });
+  });
+
+  it('only sends the project and sort order without filters', async () => {
+    await client.listFeatureFlags('default');
+
+    expect(Object.fromEntries(fake.requests[0].query)).toEqual({
+      project: 'IS:default',
+      sortBy: 'name',
+      sortOrder: 'asc',
+    });
+  });
+
+  it('returns one page and the total number of matches', async () => {
+    const result = await client.listFeatureFlags('default', { type: 'release', limit: 1, offset: 1 });
+
+    expect(result.total).toBe(2);
+    expect(result.flags.map((flag) => flag.name)).toEqual(['beta']);
+    expect(result.flags[0].url).toBe(`${fake.baseUrl}/projects/default/features/beta`);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatConstraint, strategyConstraintSchema } from '../../src/unleash/constraints.js';
+
+function issues(input: unknown): string[] {
+  const result = strategyConstraintSchema.safeParse(input);
+  return result.success ? [] : result.error.errors.map((error) => error.message);
+}
+
+describe('strategyConstraintSchema', () => {
+  it('accepts a list operator with values and fills in the defaults', () => {
+    expect(
+      strategyConstraintSchema.parse({ contextName: 'region', operator: 'IN', values: ['eu', 'uk'] })
+    ).toEqual({
+      contextName: 'region',
+      operator: 'IN',
+      values: ['eu', 'uk'],
+      caseInsensitive: false,
+      inverted: false,
+    });
+  });
+
+  it('normalises a one-element values list to value for single-value operators', () => {
+    expect(
+      strategyConstraintSchema.parse({
+        contextName: 'appVersion',
+        operator: 'SEMVER_GT',
+        values: ['2.1.0'],
+      })
+    ).toMatchObject({ value: '2.1.0' });
+  });
+
+  it('requires values for list operators', () => {
+    expect(issues({ contextName: 'userId', operator: 'IN', values: [] })).toEqual([
+      'IN needs at least one value in "values"',
+    ]);
+  });
+
+  it('checks the value format of numeric, date and semver operators', () => {
+    expect(issues({ contextName: 'age', operator: 'NUM_GT', value: 'old' })).toEqual([
+      'NUM_GT needs a number, got "old"',
+    ]);
+    expect(issues({ contextName: 'currentTime', operator: 'DATE_AFTER', value: 'soon' })).toEqual([
+      'DATE_AFTER needs an ISO 8601 date, got "soon"',
+    ]);
+    expect(issues({ contextName: 'appVersion', operator: 'SEMVER_EQ', value: '2.1' })).toEqual([
+      'SEMVER_EQ needs a semantic version such as 1.2.3, got "2.1"',
+    ]);
+  });
+
+  it('rejects several values for a single-value operator', () => {
+    expect(issues({ contextName: 'age', operator: 'NUM_EQ', values: ['1', '2'] })).toEqual([
+      'NUM_EQ compares exactly one value',
+    ]);
+  });
+
+  it('only allows caseInsensitive on string operators', () => {
+    expect(
+      issues({ contextName: 'userId', operator: 'IN', values: ['a'], caseInsensitive: true })
+    ).toEqual(['caseInsensitive only applies to STR_* operators']);
+  });
+
+  it('rejects operators Unleash does not know', () => {
+    expect(issues({ contextName: 'userId', operator: 'EQUALS', values: ['a'] })).toHaveLength(1);
+  });
+});
+
+describe('formatConstraint', () => {
+  it('renders list and single-value constraints', () => {
+    expect(
+      formatConstraint({
+        contextName: 'email',
+        operator: 'STR_ENDS_WITH',
+        values: ['@example.com'],
+        caseInsensitive: true,
+        inverted: true,
+      })
+    ).toBe('NOT email STR_ENDS_WITH [@example.com] (case-insensitive)');
+    expect(formatConstraint({ contextName: 'age', operator: 'NUM_GTE', value: '18' })).toBe(
+      'age NUM_GTE 18'
+    );
+  });
+});
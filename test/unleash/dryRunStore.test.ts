@@ -0,0 +1,248 @@
+import { describe, expect, it } from 'vitest';
+
+import { DryRunStore } from '../../src/unleash/dryRunStore.js';
+import type { FeatureStrategy } from '../../src/unleash/client.js';
+
+const BASE_URL = 'https://unleash.example.com';
+
+function rollout(percentage: number): Omit<FeatureStrategy, 'id'> {
+  return {
+    name: 'flexibleRollout',
+    parameters: { rollout: String(percentage), stickiness: 'default', groupId: 'checkout' },
+    constraints: [],
+  };
+}
+
+function strategiesOf(store: DryRunStore, featureName: string, environment: string) {
+  return (
+    store
+      .getFeature('default', featureName)
+      .environments?.find((env) => env.name === environment)?.strategies ?? []
+  );
+}
+
+describe('DryRunStore', () => {
+  it('starts with a default project and the development and production environments', () => {
+    const store = new DryRunStore(BASE_URL);
+
+    expect(store.listProjects().map((project) => project.id)).toEqual(['default']);
+    expect(store.listProjectEnvironments('default').map((env) => env.name)).toEqual([
+      'development',
+      'production',
+    ]);
+  });
+
+  it('creates a flag that later reads return, disabled everywhere', () => {
+    const store = new DryRunStore(BASE_URL);
+
+    store.createFeature('default', { name: 'checkout', type: 'release', description: 'New checkout' });
+
+    const feature = store.getFeature('default', 'checkout');
+    expect(feature).toMatchObject({
+      name: 'checkout',
+      project: 'default',
+      type: 'release',
+      description: 'New checkout',
+      enabled: false,
+      archived: false,
+    });
+    expect(feature.environments?.map((env) => [env.name, env.enabled])).toEqual([
+      ['development', false],
+      ['production', false],
+    ]);
+    expect(store.searchFeatures('default', { query: 'check' }).flags.map((flag) => flag.name)).toEqual([
+      'checkout',
+    ]);
+  });
+
+  it('refuses a flag name that is already taken with HTTP_409, archived flags included', () => {
+    const store = new DryRunStore(BASE_URL, {
+      projects: [{ id: 'default' }, { id: 'payments' }],
+      features: [{ name: 'checkout' }, { name: 'old-banner' }],
+    });
+    store.archiveFeature('default', 'old-banner');
+
+    expect(() =>
+      store.createFeature('payments', { name: 'checkout', type: 'release', description: '' })
+    ).toThrow(expect.objectContaining({ code: 'HTTP_409' }));
+    expect(() =>
+      store.createFeature('default', { name: 'old-banner', type: 'release', description: '' })
+    ).toThrow(expect.objectContaining({ code: 'HTTP_409' }));
+  });
+
+  it('answers HTTP_404 for unknown projects, flags and environments', () => {
+    const store = new DryRunStore(BASE_URL, { features: [{ name: 'checkout' }] });
+
+    expect(() =>
+      store.createFeature('missing', { name: 'checkout-v2', type: 'release', description: '' })
+    ).toThrow(expect.objectContaining({ code: 'HTTP_404' }));
+    expect(() => store.listProjectEnvironments('missing')).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+    expect(() => store.getFeature('default', 'nope')).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+    expect(() => store.toggleEnvironment('default', 'checkout', 'staging', true)).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+  });
+
+  it('only finds a flag in its own project', () => {
+    const store = new DryRunStore(BASE_URL, {
+      projects: [{ id: 'default' }, { id: 'payments' }],
+      features: [{ name: 'checkout', project: 'payments' }],
+    });
+
+    expect(() => store.getFeature('default', 'checkout')).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+    expect(store.getFeature('payments', 'checkout').project).toBe('payments');
+  });
+
+  it('marks its errors with the configured prefix', () => {
+    const store = new DryRunStore(BASE_URL);
+    const prefixed = new DryRunStore(BASE_URL, {}, { errorPrefix: '' });
+
+    expect(() => store.getFeature('default', 'nope')).toThrow(/^\[DRY RUN\] Feature nope/);
+    expect(() => prefixed.getFeature('default', 'nope')).toThrow(/^Feature nope/);
+  });
+
+  it('adds, updates and deletes strategies', () => {
+    const store = new DryRunStore(BASE_URL, { features: [{ name: 'checkout' }] });
+
+    const added = store.addStrategy('default', 'checkout', 'production', rollout(10));
+    expect(strategiesOf(store, 'checkout', 'production')).toEqual([
+      expect.objectContaining({ id: added.id, parameters: expect.objectContaining({ rollout: '10' }) }),
+    ]);
+
+    store.updateStrategy('default', 'checkout', 'production', added.id, rollout(50));
+    expect(strategiesOf(store, 'checkout', 'production')).toEqual([
+      expect.objectContaining({ id: added.id, parameters: expect.objectContaining({ rollout: '50' }) }),
+    ]);
+    expect(strategiesOf(store, 'checkout', 'development')).toEqual([]);
+
+    store.deleteStrategy('default', 'checkout', 'production', added.id);
+    expect(strategiesOf(store, 'checkout', 'production')).toEqual([]);
+  });
+
+  it('answers HTTP_404 when updating or deleting an unknown strategy', () => {
+    const store = new DryRunStore(BASE_URL, { features: [{ name: 'checkout' }] });
+
+    expect(() =>
+      store.updateStrategy('default', 'checkout', 'production', 'missing', rollout(50))
+    ).toThrow(expect.objectContaining({ code: 'HTTP_404' }));
+    expect(() => store.deleteStrategy('default', 'checkout', 'production', 'missing')).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+  });
+
+  it('hands out copies, so changing a read does not change the model', () => {
+    const store = new DryRunStore(BASE_URL, { features: [{ name: 'checkout' }] });
+    const added = store.addStrategy('default', 'checkout', 'production', rollout(10));
+
+    added.parameters.rollout = '100';
+    const [read] = strategiesOf(store, 'checkout', 'production');
+    read.parameters.rollout = '100';
+
+    expect(strategiesOf(store, 'checkout', 'production')[0]?.parameters.rollout).toBe('10');
+  });
+
+  it('toggles environments and only records actual changes', () => {
+    const store = new DryRunStore(BASE_URL, { features: [{ name: 'checkout' }] });
+
+    store.toggleEnvironment('default', 'checkout', 'production', true);
+    store.toggleEnvironment('default', 'checkout', 'production', true);
+
+    expect(store.getFeature('default', 'checkout')).toMatchObject({ enabled: true });
+    expect(store.searchFeatures('default', { state: 'enabled' }).total).toBe(1);
+    expect(
+      store.searchEvents({ feature: 'checkout' }).events.map((event) => event.type)
+    ).toEqual(['feature-environment-enabled']);
+  });
+
+  it('patches metadata and rejects operations it does not model with HTTP_400', () => {
+    const store = new DryRunStore(BASE_URL, { features: [{ name: 'checkout' }] });
+
+    const patched = store.patchFeature('default', 'checkout', [
+      { op: 'replace', path: '/description', value: 'Rewritten checkout' },
+      { op: 'replace', path: '/stale', value: true },
+    ]);
+
+    expect(patched).toMatchObject({ description: 'Rewritten checkout', stale: true });
+    expect(() =>
+      store.patchFeature('default', 'checkout', [{ op: 'replace', path: '/name', value: 'other' }])
+    ).toThrow(expect.objectContaining({ code: 'HTTP_400' }));
+  });
+
+  it('refuses direct changes where the project requires change requests with HTTP_403', () => {
+    const store = new DryRunStore(BASE_URL, {
+      projects: [{ id: 'default', changeRequestEnvironments: ['production'] }],
+      features: [{ name: 'checkout' }],
+    });
+
+    expect(() => store.toggleEnvironment('default', 'checkout', 'production', true)).toThrow(
+      expect.objectContaining({ code: 'HTTP_403' })
+    );
+    expect(() => store.addStrategy('default', 'checkout', 'production', rollout(10))).toThrow(
+      expect.objectContaining({ code: 'HTTP_403' })
+    );
+    expect(store.toggleEnvironment('default', 'checkout', 'development', true).enabled).toBe(true);
+  });
+
+  it('hides archived flags and revives them disabled in every environment', () => {
+    const store = new DryRunStore(BASE_URL, {
+      features: [
+        {
+          name: 'checkout',
+          environments: [
+            { name: 'development', enabled: true },
+            { name: 'production', enabled: true },
+          ],
+        },
+      ],
+    });
+
+    store.archiveFeature('default', 'checkout');
+
+    expect(() => store.getFeature('default', 'checkout')).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+    expect(store.searchFeatures('default', {}).total).toBe(0);
+    expect(() => store.archiveFeature('default', 'checkout')).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+
+    store.reviveFeatures('default', ['checkout']);
+
+    const revived = store.getFeature('default', 'checkout');
+    expect(revived.enabled).toBe(false);
+    expect(revived.environments?.every((env) => !env.enabled)).toBe(true);
+    expect(() => store.reviveFeatures('default', ['checkout'])).toThrow(
+      expect.objectContaining({ code: 'HTTP_404' })
+    );
+  });
+
+  it('records changes as events, newest first, by the configured actor', () => {
+    const store = new DryRunStore(BASE_URL, {}, { actor: 'alice@example.com' });
+
+    store.createFeature('default', { name: 'checkout', type: 'release', description: '' });
+    const added = store.addStrategy('default', 'checkout', 'production', rollout(10));
+    store.updateStrategy('default', 'checkout', 'production', added.id, rollout(50));
+    store.archiveFeature('default', 'checkout');
+
+    const { events, total } = store.searchEvents({ feature: 'checkout' });
+    expect(total).toBe(4);
+    expect(events.map((event) => event.type)).toEqual([
+      'feature-archived',
+      'feature-strategy-update',
+      'feature-strategy-add',
+      'feature-created',
+    ]);
+    expect(events.every((event) => event.createdBy === 'alice@example.com')).toBe(true);
+    expect(events[1]).toMatchObject({
+      environment: 'production',
+      preData: { parameters: { rollout: '10' } },
+      data: { parameters: { rollout: '50' } },
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { closestEnvironment } from '../../src/unleash/environments.js';
+
+const environments = ['development', 'staging', 'production'];
+
+describe('closestEnvironment', () => {
+  it('prefers a name the input is a prefix of', () => {
+    expect(closestEnvironment('prod', environments)).toBe('production');
+    expect(closestEnvironment('DEV', environments)).toBe('development');
+  });
+
+  it('corrects small typos', () => {
+    expect(closestEnvironment('prodution', environments)).toBe('production');
+    expect(closestEnvironment('stagign', environments)).toBe('staging');
+  });
+
+  it('falls back to a shared stem or an abbreviation', () => {
+    expect(closestEnvironment('stage', ['development', 'staging'])).toBe('staging');
+    expect(closestEnvironment('prd', environments)).toBe('production');
+    expect(closestEnvironment('stg', environments)).toBe('staging');
+  });
+
+  it('suggests nothing for unrelated names', () => {
+    expect(closestEnvironment('qa', environments)).toBeUndefined();
+    expect(closestEnvironment('prod', [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffEventData, formatEventValue } from '../../src/unleash/events.js';
+
+describe('diffEventData', () => {
+  it('reports nested fields under dotted paths', () => {
+    expect(
+      diffEventData({
+        preData: { name: 'flexibleRollout', parameters: { rollout: '10', groupId: 'checkout' } },
+        data: { name: 'flexibleRollout', parameters: { rollout: '50', groupId: 'checkout' } },
+      })
+    ).toEqual([{ field: 'parameters.rollout', before: '10', after: '50' }]);
+  });
+
+  it('compares arrays as a whole', () => {
+    expect(
+      diffEventData({
+        preData: { segments: [1] },
+        data: { segments: [1, 2] },
+      })
+    ).toEqual([{ field: 'segments', before: [1], after: [1, 2] }]);
+  });
+
+  it('reports fields present on one side only', () => {
+    expect(diffEventData({ preData: null, data: { type: 'release', stale: false } })).toEqual([
+      { field: 'type', before: undefined, after: 'release' },
+    ]);
+    expect(diffEventData({ preData: { value: 'web' }, data: null })).toEqual([
+      { field: 'value', before: 'web', after: undefined },
+    ]);
+  });
+
+  it('ignores fields that only go between absent and a default', () => {
+    expect(
+      diffEventData({
+        preData: { title: '', constraints: [] },
+        data: { disabled: false },
+      })
+    ).toEqual([]);
+  });
+
+  it('names a scalar payload "value"', () => {
+    expect(diffEventData({ preData: 'a', data: 'b' })).toEqual([
+      { field: 'value', before: 'a', after: 'b' },
+    ]);
+  });
+});
+
+describe('formatEventValue', () => {
+  it('renders absent values as unset', () => {
+    expect(formatEventValue(undefined)).toBe('unset');
+    expect(formatEventValue('25')).toBe('"25"');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { FeatureMetricsBucket } from '../../src/unleash/client.js';
+import {
+  EnvironmentMetrics,
+  formatEnvironmentMetrics,
+  summarizeMetrics,
+} from '../../src/unleash/metrics.js';
+
+function bucket(overrides: Partial<FeatureMetricsBucket>): FeatureMetricsBucket {
+  return {
+    featureName: 'checkout',
+    appName: 'web',
+    environment: 'production',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    yes: 0,
+    no: 0,
+    ...overrides,
+  };
+}
+
+describe('summarizeMetrics', () => {
+  it('sums hourly buckets per environment, sorted by name', () => {
+    const summaries = summarizeMetrics([
+      bucket({ yes: 10, no: 5, variants: { blue: 10 } }),
+      bucket({
+        appName: 'api',
+        timestamp: '2026-01-01T11:00:00.000Z',
+        yes: 20,
+        no: 5,
+        variants: { blue: 5, green: 15 },
+      }),
+      bucket({ environment: 'development', yes: 1 }),
+    ]);
+
+    expect(summaries).toEqual([
+      expect.objectContaining({ environment: 'development', total: 1 }),
+      {
+        environment: 'production',
+        yes: 30,
+        no: 10,
+        total: 40,
+        variants: { blue: 15, green: 15 },
+        applications: ['api', 'web'],
+        lastEvaluatedAt: '2026-01-01T11:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('does not count applications or hours without evaluations', () => {
+    const [summary] = summarizeMetrics([
+      bucket({ yes: 3 }),
+      bucket({ appName: 'idle', timestamp: '2026-01-01T12:00:00.000Z' }),
+    ]);
+
+    expect(summary.applications).toEqual(['web']);
+    expect(summary.lastEvaluatedAt).toBe('2026-01-01T10:00:00.000Z');
+  });
+});
+
+describe('formatEnvironmentMetrics', () => {
+  const metrics: EnvironmentMetrics = {
+    environment: 'production',
+    yes: 900,
+    no: 300,
+    total: 1200,
+    variants: { a: 450, b: 450 },
+    applications: ['api', 'web'],
+    lastEvaluatedAt: '2026-01-01T10:00:00.000Z',
+  };
+
+  it('renders counts, the share of true, variants and applications', () => {
+    expect(formatEnvironmentMetrics(metrics)).toBe(
+      'production: 1200 evaluations, 75% true (900 yes / 300 no); variants a=450, b=450; apps api, web'
+    );
+  });
+
+  it('mentions when an unevaluated flag was last seen', () => {
+    const idle = { ...metrics, yes: 0, no: 0, total: 0, variants: {}, applications: [] };
+
+    expect(formatEnvironmentMetrics(idle)).toBe('production: not evaluated');
+    expect(formatEnvironmentMetrics({ ...idle, lastSeenAt: '2025-12-01T00:00:00.000Z' })).toBe(
+      'production: not evaluated (last seen 2025-12-01T00:00:00.000Z)'
+    );
+  });
+});
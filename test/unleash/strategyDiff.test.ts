@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  diffStrategies,
+  formatChangeValue,
+  stableStringify,
+} from '../../src/unleash/strategyDiff.js';
+
+const base = {
+  name: 'flexibleRollout',
+  title: null,
+  disabled: false,
+  parameters: { rollout: '10', groupId: 'checkout', stickiness: 'default' },
+  constraints: [],
+  segments: [],
+  variants: [],
+};
+
+describe('diffStrategies', () => {
+  it('reports changed parameters under their own name', () => {
+    expect(
+      diffStrategies(base, { ...base, parameters: { ...base.parameters, rollout: '25' } })
+    ).toEqual([{ field: 'rollout', before: '10', after: '25' }]);
+  });
+
+  it('reports title, disabled, constraints and segments after the parameters', () => {
+    const constraint = { contextName: 'region', operator: 'IN' as const, values: ['eu'] };
+
+    expect(
+      diffStrategies(base, {
+        ...base,
+        parameters: { ...base.parameters, stickiness: 'userId' },
+        title: 'EU only',
+        disabled: true,
+        constraints: [constraint],
+        segments: [3],
+      }).map((change) => change.field)
+    ).toEqual(['stickiness', 'title', 'disabled', 'constraints', 'segments']);
+  });
+
+  it('treats missing optional fields as their defaults', () => {
+    expect(
+      diffStrategies(base, { name: 'flexibleRollout', parameters: { ...base.parameters } })
+    ).toEqual([]);
+  });
+
+  it('ignores key order in nested values', () => {
+    const variant = { name: 'a', weight: 1000, weightType: 'fix' as const, stickiness: 'default' };
+    const reordered = { stickiness: 'default', weightType: 'fix' as const, weight: 1000, name: 'a' };
+
+    expect(
+      diffStrategies({ ...base, variants: [variant] }, { ...base, variants: [reordered] })
+    ).toEqual([]);
+    expect(stableStringify(variant)).toBe(stableStringify(reordered));
+  });
+});
+
+describe('formatChangeValue', () => {
+  it('renders empty lists as none and constraints as expressions', () => {
+    expect(formatChangeValue([])).toBe('none');
+    expect(formatChangeValue([{ contextName: 'region', operator: 'IN', values: ['eu'] }])).toBe(
+      'region IN [eu]'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  FeatureVariant,
+  distributeVariantWeights,
+  formatVariant,
+  variantPayloadSchema,
+} from '../../src/unleash/variants.js';
+
+function variant(name: string, weightType: 'fix' | 'variable', weight = 0): FeatureVariant {
+  return { name, weight, weightType, stickiness: 'default' };
+}
+
+function payloadIssues(type: string, value: string): string[] {
+  const result = variantPayloadSchema.safeParse({ type, value });
+  return result.success ? [] : result.error.errors.map((error) => error.message);
+}
+
+describe('distributeVariantWeights', () => {
+  it('splits the weight left by fixed variants across the variable ones', () => {
+    const variants = distributeVariantWeights([
+      variant('control', 'fix', 400),
+      variant('blue', 'variable'),
+      variant('green', 'variable'),
+    ]);
+
+    expect(variants.map((v) => v.weight)).toEqual([400, 300, 300]);
+  });
+
+  it('hands the remainder to the first variable variants so weights add up to 1000', () => {
+    const variants = distributeVariantWeights([
+      variant('a', 'variable'),
+      variant('b', 'variable'),
+      variant('c', 'variable'),
+    ]);
+
+    expect(variants.map((v) => v.weight)).toEqual([334, 333, 333]);
+    expect(variants.reduce((sum, v) => sum + v.weight, 0)).toBe(1000);
+  });
+
+  it('leaves a list of fixed variants untouched', () => {
+    const fixed = [variant('a', 'fix', 700), variant('b', 'fix', 300)];
+
+    expect(distributeVariantWeights(fixed)).toBe(fixed);
+  });
+});
+
+describe('variantPayloadSchema', () => {
+  it('accepts valid payloads of every type', () => {
+    expect(payloadIssues('json', '{"color":"blue"}')).toEqual([]);
+    expect(payloadIssues('number', '42.5')).toEqual([]);
+    expect(payloadIssues('string', 'anything goes')).toEqual([]);
+    expect(payloadIssues('csv', 'id,name\n1,"Smith, Jo"\n2,"multi\nline"\n')).toEqual([]);
+  });
+
+  it('rejects malformed JSON and numbers', () => {
+    expect(payloadIssues('json', '{color: blue}')[0]).toMatch(/^Invalid JSON payload: /);
+    expect(payloadIssues('number', 'ten')).toEqual(['Invalid number payload: "ten"']);
+    expect(payloadIssues('number', ' ')).toEqual(['Invalid number payload: " "']);
+  });
+
+  it('rejects CSV with uneven rows or broken quoting', () => {
+    expect(payloadIssues('csv', 'id,name\n1')).toEqual([
+      'Invalid CSV payload: row 2 has 1 fields, expected 2',
+    ]);
+    expect(payloadIssues('csv', 'id,na"me"')).toEqual([
+      'Invalid CSV payload: malformed quoting on row 1',
+    ]);
+    expect(payloadIssues('csv', 'id,"name')).toEqual([
+      'Invalid CSV payload: unterminated quoted field',
+    ]);
+  });
+});
+
+describe('formatVariant', () => {
+  it('summarises weight, payload and overrides', () => {
+    expect(
+      formatVariant({
+        ...variant('blue', 'fix', 250),
+        payload: { type: 'json', value: '{}' },
+        overrides: [{ contextName: 'userId', values: ['1', '2'] }],
+      })
+    ).toBe('blue 25% (fixed), payload json, overrides userId=[1, 2]');
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CallToolResultSchema,
+  Progress,
+  ProgressNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { startTestServer, TestServer } from '../support/harness.js';
+
+const seed = {
+  projects: [{ id: 'default' }],
+  features: [
+    {
+      name: 'checkout',
+      environments: [
+        {
+          name: 'production',
+          enabled: true,
+          strategies: [
+            {
+              name: 'flexibleRollout',
+              parameters: { rollout: '10', groupId: 'checkout', stickiness: 'default' },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('progress notifications', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer({ seed });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('never go backwards when requests are retried mid-operation', async () => {
+    server.fake.injectFault({ status: 429, path: '/features/checkout', times: 2 });
+    const updates: Progress[] = [];
+
+    await server.client.callTool(
+      {
+        name: 'set_flag_rollout',
+        arguments: { featureName: 'checkout', environment: 'production', rolloutPercentage: 50 },
+      },
+      CallToolResultSchema,
+      { onprogress: (progress) => void updates.push(progress) }
+    );
+
+    // Each retry of the flag read moves one step past the last value sent
+    expect(updates.map((update) => update.progress)).toEqual([0, 1, 2, 30, 100]);
+  });
+
+  it('continue from the tool progress when a later request is retried', async () => {
+    server.fake.injectFault({ status: 503, method: 'PUT', path: '/strategies/' });
+    const updates: Progress[] = [];
+
+    await server.client.callTool(
+      {
+        name: 'set_flag_rollout',
+        arguments: { featureName: 'checkout', environment: 'production', rolloutPercentage: 50 },
+      },
+      CallToolResultSchema,
+      { onprogress: (progress) => void updates.push(progress) }
+    );
+
+    expect(updates.map((update) => update.progress)).toEqual([0, 30, 31, 100]);
+  });
+
+  it('start over for a token reused after a call that failed midway', async () => {
+    // Pass the token explicitly, as the SDK client would otherwise pick a new
+    // one per request
+    const updates: number[] = [];
+    server.client.setNotificationHandler(ProgressNotificationSchema, (notification) => {
+      updates.push(notification.params.progress);
+    });
+    const callWithToken = () =>
+      server.client.callTool(
+        {
+          name: 'set_flag_rollout',
+          arguments: { featureName: 'checkout', environment: 'production', rolloutPercentage: 50 },
+          _meta: { progressToken: 'reused' },
+        },
+        CallToolResultSchema
+      );
+
+    server.fake.injectFault({ status: 400, method: 'PUT', path: '/strategies/' });
+    const failed = await callWithToken();
+    expect(failed.isError).toBe(true);
+    expect(updates).toEqual([0, 30]);
+
+    updates.length = 0;
+    await callWithToken();
+
+    expect(updates).toEqual([0, 30, 100]);
+  });
+});